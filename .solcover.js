@@ -1,4 +1,4 @@
 module.exports = {
-    skipFiles: ['Rogue.sol', 'ClaimableToken.sol', 'NerwoTetherToken.sol'],
+    skipFiles: ['Rogue.sol', 'ClaimableToken.sol', 'NerwoTetherToken.sol', 'NerwoPermit2.sol'],
     configureYulOptimizer: true
 };
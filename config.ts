@@ -0,0 +1,130 @@
+import { ZeroAddress, dataLength, getAddress, isAddress, isHexString, parseEther, zeroPadValue } from 'ethers';
+
+import { MAX_FEE_BASISPOINT } from './constants';
+
+export const PROXY_KINDS = ['uups', 'transparent'] as const;
+
+export type ProxyKind = typeof PROXY_KINDS[number];
+
+export interface NerwoDeployConfig {
+    network: string;
+    owner?: string;                 /* NERWO_OWNER_ADDRESS */
+    court?: string[];               /* NERWO_COURT_ADDRESS */
+    platform?: string;              /* NERWO_PLATFORM_ADDRESS */
+    arbitrator?: string;            /* NERWO_ARBITRATOR_ADDRESS */
+    arbitratorProxy?: string;       /* NERWO_ARBITRATORPROXY_ADDRESS */
+    trustedForwarder?: string;      /* NERWO_TRUSTED_FORWARDER_ADDRESS */
+    metaEvidenceURI: string;        /* NERWO_ARBITRATOR_METAEVIDENCEURI */
+    arbitrationPrice?: bigint;      /* NERWO_ARBITRATION_PRICE, only needed to deploy the centralized arbitrator */
+    feeRecipientBasisPoint: number; /* NERWO_FEE_RECIPIENT_BASISPOINT */
+    tokensWhitelist: string[];      /* NERWO_TOKENS_WHITELIST */
+    proxy?: ProxyKind;              /* NERWO_PROXY, the escrow is deployed immutably when unset */
+    deploySalt?: string;            /* NERWO_DEPLOY_SALT, CREATE2 salt, deployed from the deployer nonce when unset */
+}
+
+// networks where nothing can fall back to the deployer or to the test arbitrator
+const PRODUCTION_NETWORKS = ['mainnet'];
+
+export class ConfigError extends Error {
+    constructor(public readonly network: string, public readonly problems: string[]) {
+        super(`Invalid configuration for network ${network}:\n${problems.map((problem) => `  - ${problem}`).join('\n')}`);
+        this.name = 'ConfigError';
+    }
+}
+
+/**
+ * Load and validate the NERWO_* deployment variables.
+ * @param network The network name, it defaults to the one passed to hardhat.
+ * @param env The environment to read, it defaults to process.env.
+ * @throws ConfigError listing every problem found.
+ */
+export function loadConfig(network: string = global.network, env: Record<string, string | undefined> = process.env): NerwoDeployConfig {
+    const problems: string[] = [];
+
+    const address = (name: string, value: string) => {
+        value = value.trim();
+        if (!isAddress(value)) {
+            problems.push(`${name}: ${value} is not a valid address`);
+            return undefined;
+        }
+        if (value === ZeroAddress) {
+            problems.push(`${name}: must not be the zero address`);
+            return undefined;
+        }
+        return getAddress(value);
+    };
+
+    const optionalAddress = (name: string) => env[name] ? address(name, env[name]!) : undefined;
+
+    const addressList = (name: string) => env[name] ?
+        env[name]!.split(',').map((value) => address(name, value)).filter((value): value is string => !!value) : [];
+
+    const required = (name: string) => {
+        const value = env[name]?.trim();
+        if (!value) {
+            problems.push(`${name}: is required`);
+        }
+        return value;
+    };
+
+    const config: NerwoDeployConfig = {
+        network,
+        owner: optionalAddress('NERWO_OWNER_ADDRESS'),
+        court: env.NERWO_COURT_ADDRESS ? addressList('NERWO_COURT_ADDRESS') : undefined,
+        platform: optionalAddress('NERWO_PLATFORM_ADDRESS'),
+        arbitrator: optionalAddress('NERWO_ARBITRATOR_ADDRESS'),
+        arbitratorProxy: optionalAddress('NERWO_ARBITRATORPROXY_ADDRESS'),
+        trustedForwarder: optionalAddress('NERWO_TRUSTED_FORWARDER_ADDRESS'),
+        metaEvidenceURI: env.NERWO_ARBITRATOR_METAEVIDENCEURI || '',
+        feeRecipientBasisPoint: 0,
+        tokensWhitelist: addressList('NERWO_TOKENS_WHITELIST'),
+        proxy: env.NERWO_PROXY ? env.NERWO_PROXY.trim() as ProxyKind : undefined
+    };
+
+    const salt = env.NERWO_DEPLOY_SALT?.trim();
+    if (salt) {
+        if (!isHexString(salt, true) || dataLength(salt) > 32) {
+            problems.push(`NERWO_DEPLOY_SALT: ${salt} is not a hex string of at most 32 bytes`);
+        } else {
+            config.deploySalt = zeroPadValue(salt, 32);
+        }
+    }
+
+    if (config.proxy && !PROXY_KINDS.includes(config.proxy)) {
+        problems.push(`NERWO_PROXY: ${config.proxy} is not one of ${PROXY_KINDS.join(', ')}`);
+    }
+
+    const basisPoint = required('NERWO_FEE_RECIPIENT_BASISPOINT');
+    if (basisPoint !== undefined) {
+        config.feeRecipientBasisPoint = Number(basisPoint);
+        if (!/^\d+$/.test(basisPoint) || config.feeRecipientBasisPoint > MAX_FEE_BASISPOINT) {
+            problems.push(`NERWO_FEE_RECIPIENT_BASISPOINT: ${basisPoint} is not an integer in range 0-${MAX_FEE_BASISPOINT}`);
+        }
+    }
+
+    // the centralized arbitrator is deployed only when no external one is configured
+    if (!env.NERWO_ARBITRATOR_ADDRESS) {
+        const price = required('NERWO_ARBITRATION_PRICE');
+        if (price !== undefined) {
+            try {
+                config.arbitrationPrice = parseEther(price);
+            } catch (_) {
+                problems.push(`NERWO_ARBITRATION_PRICE: ${price} is not a valid ether amount`);
+            }
+        }
+    }
+
+    if (PRODUCTION_NETWORKS.includes(network)) {
+        for (const name of ['NERWO_OWNER_ADDRESS', 'NERWO_ARBITRATOR_ADDRESS', 'NERWO_ARBITRATORPROXY_ADDRESS']) {
+            if (!env[name]) {
+                problems.push(`${name}: is required on ${network}`);
+            }
+        }
+    }
+
+    if (problems.length) {
+        throw new ConfigError(network, problems);
+    }
+
+    return config;
+}
@@ -1,6 +1,6 @@
-import { Wallet, parseEther } from 'ethers';
+import { Wallet } from 'ethers';
 
-class TokenAllow {
+export class TokenAllow {
     constructor(public token: string, public allow: boolean) {
         this.token = token;
         this.allow = allow;
@@ -14,18 +14,12 @@ export const enum Ruling {
 }
 
 export const FEE_TIMEOUT = 604800n;
-export const FEE_RECIPIENT_BASISPOINT = parseInt(process.env.NERWO_FEE_RECIPIENT_BASISPOINT);
+export const MAX_FEE_BASISPOINT = 2000;
+// set by the NerwoEscrow constructor
+export const ARBITRATOR_EXTRA_DATA = '0x' + '00'.repeat(63) + '03';
 
-export const ARBITRATOR_PRICE = parseEther(process.env.NERWO_ARBITRATION_PRICE);
-export const COURT = process.env.NERWO_COURT_ADDRESS ?
-    process.env.NERWO_COURT_ADDRESS.split(',').map((address: string) => address.trim()) : undefined;
-
-export const TOKENS_WHITELIST = process.env.NERWO_TOKENS_WHITELIST ?
-    process.env.NERWO_TOKENS_WHITELIST.split(',').map((address: string) => new TokenAllow(address.trim(), true))
-    : [];
-
-export function getTokenWhitelist(usdt?: string | undefined) {
-    let whitelist = TOKENS_WHITELIST;
+export function getTokenWhitelist(tokens: string[], usdt?: string | undefined) {
+    let whitelist = tokens.map((address) => new TokenAllow(address, true));
 
     if (!whitelist.length && usdt) {
         // whitelist our test token if deployed
@@ -1,9 +1,17 @@
+import { ZeroAddress } from 'ethers';
+import { HardhatRuntimeEnvironment } from 'hardhat/types';
+import { ProxyOptions } from 'hardhat-deploy/types';
+
+import { NerwoDeployConfig, ProxyKind, loadConfig } from './config';
 import * as constants from './constants';
 
-export function arbitratorArgs(owner: string | undefined) {
+// With a deploy salt the constructor arguments must be the same on every chain, so the settings depending
+// on the chain are left out and set by the deploy scripts once deployed
+
+export function arbitratorArgs(owner: string | undefined, config: NerwoDeployConfig = loadConfig()) {
     return [
-        process.env.NERWO_OWNER_ADDRESS || owner,
-        constants.ARBITRATOR_PRICE
+        config.owner || owner,                      /* newOwner */
+        config.deploySalt ? 0n : config.arbitrationPrice /* arbitrationPrice, in the chain native token */
     ];
 }
 
@@ -11,19 +19,71 @@ export function escrowArgs(
     owner: string | undefined,
     proxy: string | undefined,
     feeRecipient: string | undefined,
-    usdt?: string | undefined) {
+    usdt?: string | undefined,
+    config: NerwoDeployConfig = loadConfig(),
+    forwarder?: string | undefined) {
 
-    const whitelist = constants.getTokenWhitelist(usdt);
+    const whitelist = constants.getTokenWhitelist(config.tokensWhitelist, usdt);
 
     return [
-        process.env.NERWO_OWNER_ADDRESS || owner,               /* newOwner */
+        config.owner || owner,                      /* newOwner */
         [
-            process.env.NERWO_ARBITRATOR_ADDRESS || proxy,      /* arbitrator */
-            process.env.NERWO_ARBITRATORPROXY_ADDRESS || proxy, /* arbitratorProxy */
+            config.arbitrator || proxy,             /* arbitrator */
+            config.arbitratorProxy || proxy,        /* arbitratorProxy */
         ],
-        process.env.NERWO_ARBITRATOR_METAEVIDENCEURI || '',     /* metaEvidenceURI */
-        process.env.NERWO_PLATFORM_ADDRESS || feeRecipient,     /* feeRecipient */
-        constants.FEE_RECIPIENT_BASISPOINT,                     /* feeRecipientBasisPoint */
-        whitelist                                               /* tokensWhitelist */
+        config.metaEvidenceURI,                     /* metaEvidenceURI */
+        config.platform || feeRecipient,            /* feeRecipient */
+        config.feeRecipientBasisPoint,              /* feeRecipientBasisPoint */
+        config.deploySalt ? [] : whitelist,         /* tokensWhitelist, addresses differ between chains */
+        config.trustedForwarder || forwarder || ZeroAddress /* trustedForwarder */
     ];
 }
+
+/**
+ * Resolve the escrow constructor arguments from the named accounts
+ * and the contracts already deployed on the network.
+ */
+export async function resolveEscrowArgs({ deployments: { getOrNull }, getNamedAccounts, network }: HardhatRuntimeEnvironment) {
+    let { deployer, platform } = await getNamedAccounts();
+    platform = platform || deployer;
+
+    const arbitrator = await getOrNull('NerwoCentralizedArbitrator');
+    const usdt = await getOrNull('NerwoTetherToken');
+    const forwarder = await getOrNull('NerwoForwarder');
+
+    return escrowArgs(platform, arbitrator?.address, platform, usdt?.address, loadConfig(network.name),
+        forwarder?.address);
+}
+
+/**
+ * Resolve the escrow token whitelist, part of the constructor arguments unless deployed with a salt.
+ */
+export async function resolveEscrowWhitelist({ deployments: { getOrNull }, network }: HardhatRuntimeEnvironment) {
+    const usdt = await getOrNull('NerwoTetherToken');
+    return constants.getTokenWhitelist(loadConfig(network.name).tokensWhitelist, usdt?.address);
+}
+
+/**
+ * Escrow contract deployed for `kind`, only the UUPS implementation can upgrade the proxy itself:
+ * a transparent proxy is upgraded through its admin alone.
+ */
+export function escrowContract(kind?: ProxyKind) {
+    return kind === 'uups' ? 'NerwoEscrowUUPS' : 'NerwoEscrow';
+}
+
+/**
+ * hardhat-deploy proxy options of the escrow, initialize gets the constructor arguments but the trusted forwarder,
+ * immutable in the implementation. The escrow owner upgrades a UUPS proxy and owns the admin of a transparent one.
+ */
+export function escrowProxy(kind: ProxyKind, args: ReturnType<typeof escrowArgs>): ProxyOptions {
+    return {
+        proxyContract: kind === 'uups' ? 'UUPS' : 'OpenZeppelinTransparentProxy',
+        owner: args[0] as string,
+        execute: {
+            init: {
+                methodName: 'initialize',
+                args: args.slice(0, -1)
+            }
+        }
+    };
+}
@@ -0,0 +1,26 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.0;
+
+/**
+ * @title USDT like test token with a blacklist
+ * @notice Transfers to a blacklisted address revert, like the USDT ones.
+ */
+
+import {NerwoTetherToken} from "./NerwoTetherToken.sol";
+
+contract NerwoBlacklistToken is NerwoTetherToken {
+    error BlackListed(address account);
+
+    mapping(address => bool) public isBlackListed;
+
+    function setBlackListed(address account, bool blackListed) external {
+        isBlackListed[account] = blackListed;
+    }
+
+    function _update(address from, address to, uint256 value) internal override {
+        if (isBlackListed[to]) {
+            revert BlackListed(to);
+        }
+        super._update(from, to, value);
+    }
+}
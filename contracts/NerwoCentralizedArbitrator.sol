@@ -20,8 +20,9 @@
  *                       ////////////             ////////////
  *                         ////////                 ////////
  *
- *  @notice This contract implement a simple not appealable Centralized Arbitrator
- *  and Arbitrator Proxy, mainly used for test units.
+ *  @notice This contract implement a simple Centralized Arbitrator and Arbitrator Proxy,
+ *  mainly used for test units. When an appeal window is set, the party losing a ruling
+ *  can appeal it once per ruling, the dispute then waits for a new ruling.
  */
 
 pragma solidity ^0.8.21;
@@ -52,6 +53,10 @@ contract NerwoCentralizedArbitrator is Ownable, ReentrancyGuard, IArbitrable, IA
         uint8 choices;
         uint8 ruling;
         DisputeStatus status;
+        uint8 appeals; // Number of appeals.
+        uint32 appealPeriodStart; // Set with an appealable ruling.
+        uint32 appealPeriodEnd;
+        address creator; // The only one allowed to appeal.
     }
 
     /* solhint-disable immutable-vars-naming */
@@ -64,6 +69,9 @@ contract NerwoCentralizedArbitrator is Ownable, ReentrancyGuard, IArbitrable, IA
     uint256 private constant NOT_PAYABLE_VALUE = type(uint256).max; // High value to be sure that the appeal is too expensive.
     uint256 public constant MAX_NUMBER_OF_CHOICES = 2;
 
+    uint32 public appealWindow; // Seconds a ruling can be appealed, 0 for final rulings.
+    address public appealArbitrator; // Can rule appealed disputes along with the owner.
+
     /**
      * @dev Emitted when the arbitration price is updated by the owner.
      * @param previousPrice The previous arbitration price.
@@ -71,6 +79,13 @@ contract NerwoCentralizedArbitrator is Ownable, ReentrancyGuard, IArbitrable, IA
      */
     event ArbitrationPriceChanged(uint256 previousPrice, uint256 newPrice);
 
+    /**
+     * @dev Emitted when the appeal settings are updated by the owner.
+     * @param appealWindow The new appeal window in seconds.
+     * @param appealArbitrator The new appeal arbitrator.
+     */
+    event AppealSettingsChanged(uint32 appealWindow, address appealArbitrator);
+
     modifier onlyValidDispute(uint256 _disputeID) {
         if (address(arbitratorDisputes[_disputeID].arbitrated) == address(0)) {
             revert InvalidDispute();
@@ -99,6 +114,16 @@ contract NerwoCentralizedArbitrator is Ownable, ReentrancyGuard, IArbitrable, IA
         emit ArbitrationPriceChanged(previousPrice, _arbitrationPrice);
     }
 
+    /** @dev Set the appeal settings, they apply to the next rulings. Only callable by the owner.
+     *  @param _appealWindow Seconds a ruling can be appealed, 0 to make rulings final.
+     *  @param _appealArbitrator Who can rule appealed disputes along with the owner, 0 for the owner only.
+     */
+    function setAppealSettings(uint32 _appealWindow, address _appealArbitrator) external onlyOwner {
+        appealWindow = _appealWindow;
+        appealArbitrator = _appealArbitrator;
+        emit AppealSettingsChanged(_appealWindow, _appealArbitrator);
+    }
+
     /* IArbitrator */
     function createDispute(
         uint256 _choices,
@@ -122,7 +147,11 @@ contract NerwoCentralizedArbitrator is Ownable, ReentrancyGuard, IArbitrable, IA
             arbitrated: this,
             choices: uint8(_choices),
             ruling: 0,
-            status: DisputeStatus.Waiting
+            status: DisputeStatus.Waiting,
+            appeals: 0,
+            appealPeriodStart: 0,
+            appealPeriodEnd: 0,
+            creator: msg.sender
         });
 
         emit DisputeCreation(disputeID, this);
@@ -137,45 +166,84 @@ contract NerwoCentralizedArbitrator is Ownable, ReentrancyGuard, IArbitrable, IA
     }
 
     /**
-     * @dev Appeal a ruling. Note that it has to be called before the arbitrator contract calls rule.
-     * _disputeID Not used by this contract.
+     * @dev Appeal a ruling during its appeal period, the dispute waits for a new ruling.
+     * Only the creator of the dispute can appeal, the arbitrable contract checks which party is appealing.
+     * @param _disputeID ID of the dispute to appeal.
      * _extraData Not used by this contract.
      */
-    function appeal(uint256 /*_disputeID*/, bytes calldata /*_extraData*/) external payable override {
-        revert InsufficientPayment();
+    function appeal(
+        uint256 _disputeID,
+        bytes calldata /*_extraData*/
+    ) external payable override onlyValidDispute(_disputeID) {
+        ArbitratorDispute storage dispute = arbitratorDisputes[_disputeID];
+
+        if (msg.sender != dispute.creator) {
+            revert InvalidCaller(dispute.creator);
+        }
+
+        if (!_isAppealable(dispute)) {
+            revert InvalidStatus(DisputeStatus.Appealable);
+        }
+
+        if (msg.value != arbitrationPrice) {
+            revert InsufficientPayment();
+        }
+
+        unchecked {
+            dispute.appeals++;
+        }
+        dispute.status = DisputeStatus.Waiting;
+        dispute.appealPeriodStart = 0;
+        dispute.appealPeriodEnd = 0;
+
+        emit AppealDecision(_disputeID, dispute.arbitrated);
     }
 
     /** @dev Cost of appeal. If appeal is not possible, it's a high value which can never be paid.
-     *  _disputeID Not used by this contract.
+     *  @param _disputeID ID of the dispute.
      *  _extraData Not used by this contract.
      *  @return cost Amount to be paid.
      */
     function appealCost(
-        uint256 /*_disputeID*/,
+        uint256 _disputeID,
         bytes calldata /*_extraData*/
-    ) external pure override returns (uint256 cost) {
-        return NOT_PAYABLE_VALUE;
+    ) external view override onlyValidDispute(_disputeID) returns (uint256 cost) {
+        return _isAppealable(arbitratorDisputes[_disputeID]) ? arbitrationPrice : NOT_PAYABLE_VALUE;
     }
 
     /**
      * @dev Compute the start and end of the dispute's current or next appeal period, if possible. If not known or appeal is impossible: should return (0, 0).
-     * _disputeID Not used by this contract.
+     * @param _disputeID ID of the dispute.
      * @return start The start of the period.
      * @return end The end of the period.
      */
-    function appealPeriod(uint256 /*_disputeID*/) external pure override returns (uint256 start, uint256 end) {
-        return (0, 0);
+    function appealPeriod(
+        uint256 _disputeID
+    ) external view override onlyValidDispute(_disputeID) returns (uint256 start, uint256 end) {
+        ArbitratorDispute storage dispute = arbitratorDisputes[_disputeID];
+        return (dispute.appealPeriodStart, dispute.appealPeriodEnd);
     }
 
     /**
-     * @dev Return the status of a dispute.
+     * @dev Return the status of a dispute, an appealable ruling is solved once its appeal period is over.
      * @param _disputeID ID of the dispute to rule.
      * @return status The status of the dispute.
      */
     function disputeStatus(
         uint256 _disputeID
     ) external view override onlyValidDispute(_disputeID) returns (DisputeStatus status) {
-        status = arbitratorDisputes[_disputeID].status;
+        ArbitratorDispute storage dispute = arbitratorDisputes[_disputeID];
+        status = _isSolved(dispute) ? DisputeStatus.Solved : dispute.status;
+    }
+
+    function _isSolved(ArbitratorDispute storage dispute) internal view returns (bool) {
+        return
+            dispute.status == DisputeStatus.Solved ||
+            (dispute.status == DisputeStatus.Appealable && block.timestamp >= dispute.appealPeriodEnd);
+    }
+
+    function _isAppealable(ArbitratorDispute storage dispute) internal view returns (bool) {
+        return dispute.status == DisputeStatus.Appealable && block.timestamp < dispute.appealPeriodEnd;
     }
 
     /**
@@ -188,6 +256,7 @@ contract NerwoCentralizedArbitrator is Ownable, ReentrancyGuard, IArbitrable, IA
     }
 
     /** @dev To be called by the arbitrator of the dispute, to declare winning ruling.
+     *  With an appeal window the ruling is appealable, `Ruling` is emitted for every ruling given.
      *  @param _disputeID ID of the dispute in arbitrator contract.
      *  @param _ruling The ruling choice of the arbitration.
      */
@@ -198,7 +267,7 @@ contract NerwoCentralizedArbitrator is Ownable, ReentrancyGuard, IArbitrable, IA
 
         ArbitratorDispute storage dispute = arbitratorDisputes[_disputeID];
 
-        if (dispute.status == DisputeStatus.Solved) {
+        if (dispute.status != DisputeStatus.Waiting) {
             revert AlreadyResolved();
         }
 
@@ -206,23 +275,31 @@ contract NerwoCentralizedArbitrator is Ownable, ReentrancyGuard, IArbitrable, IA
             revert InvalidRuling(_ruling, MAX_NUMBER_OF_CHOICES);
         }
 
-        dispute.status = DisputeStatus.Solved;
         dispute.ruling = uint8(_ruling);
+        if (appealWindow == 0) {
+            dispute.status = DisputeStatus.Solved;
+        } else {
+            dispute.status = DisputeStatus.Appealable;
+            dispute.appealPeriodStart = uint32(block.timestamp);
+            dispute.appealPeriodEnd = uint32(block.timestamp + appealWindow);
+            emit AppealPossible(_disputeID, dispute.arbitrated);
+        }
 
         emit Ruling(this, _disputeID, dispute.ruling);
     }
 
-    /** @dev Give a ruling.
+    /** @dev Give a ruling, appealed disputes can also be ruled by the appeal arbitrator.
      *  @param _disputeID ID of the dispute to rule.
      *  @param _ruling Ruling given by the arbitrator.
      *                 Note that 0 means "Not able/wanting to make a decision".
      */
-    function giveRuling(
-        uint256 _disputeID,
-        uint256 _ruling
-    ) external onlyOwner onlyValidDispute(_disputeID) nonReentrant {
+    function giveRuling(uint256 _disputeID, uint256 _ruling) external onlyValidDispute(_disputeID) nonReentrant {
         ArbitratorDispute storage dispute = arbitratorDisputes[_disputeID];
 
+        if (msg.sender != owner() && (dispute.appeals == 0 || msg.sender != appealArbitrator)) {
+            revert OwnableUnauthorizedAccount(msg.sender);
+        }
+
         if (_ruling > MAX_NUMBER_OF_CHOICES) {
             revert InvalidRuling(_ruling, MAX_NUMBER_OF_CHOICES);
         }
@@ -270,8 +347,7 @@ contract NerwoCentralizedArbitrator is Ownable, ReentrancyGuard, IArbitrable, IA
         uint256 _localDisputeID,
         string calldata _evidenceURI
     ) external override onlyValidDispute(_localDisputeID) {
-        ArbitratorDispute storage dispute = arbitratorDisputes[_localDisputeID];
-        if (dispute.status == DisputeStatus.Solved) {
+        if (_isSolved(arbitratorDisputes[_localDisputeID])) {
             revert AlreadyResolved();
         }
 
@@ -291,6 +367,6 @@ contract NerwoCentralizedArbitrator is Ownable, ReentrancyGuard, IArbitrable, IA
         returns (bytes memory extraData, bool isRuled, uint256 ruling, uint256 disputeIDOnArbitratorSide)
     {
         ArbitratorDispute storage dispute = arbitratorDisputes[_localID];
-        return ("", dispute.status == DisputeStatus.Solved, dispute.ruling, _localID);
+        return ("", _isSolved(dispute), dispute.ruling, _localID);
     }
 }
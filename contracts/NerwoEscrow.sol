@@ -28,14 +28,19 @@
 pragma solidity ^0.8.23;
 
 import {Ownable} from "@openzeppelin/contracts/access/Ownable.sol";
+import {Context} from "@openzeppelin/contracts/utils/Context.sol";
+import {ERC2771Context} from "@openzeppelin/contracts/metatx/ERC2771Context.sol";
 import {ReentrancyGuard} from "@openzeppelin/contracts/utils/ReentrancyGuard.sol";
+import {Initializable} from "@openzeppelin/contracts/proxy/utils/Initializable.sol";
 import {IERC20} from "@openzeppelin/contracts/token/ERC20/IERC20.sol";
+import {IERC20Permit} from "@openzeppelin/contracts/token/ERC20/extensions/IERC20Permit.sol";
 import {IArbitrator} from "@kleros/erc-792/contracts/IArbitrator.sol";
 
 import {IArbitrableProxy} from "./IArbitrableProxy.sol";
+import {IPermit2} from "./IPermit2.sol";
 import {SafeTransfer} from "./SafeTransfer.sol";
 
-contract NerwoEscrow is Ownable, ReentrancyGuard {
+contract NerwoEscrow is Ownable, ReentrancyGuard, ERC2771Context, Initializable {
     using SafeTransfer for address;
     using SafeTransfer for IERC20;
 
@@ -50,6 +55,8 @@ contract NerwoEscrow is Ownable, ReentrancyGuard {
     error InvalidToken();
     error InvalidFeeBasisPoint();
     error NotRuled();
+    error InvalidMilestone();
+    error InvalidDeadline();
 
     // **************************** //
     // *    Contract variables    * //
@@ -61,6 +68,8 @@ contract NerwoEscrow is Ownable, ReentrancyGuard {
     uint256 private constant MULTIPLIER_DIVISOR = 10_000; // Divisor parameter for multipliers.
     uint256 private constant MIN_AMOUNT = 10_000; // Minimal amount with non zero fee basis point for non zero fee
 
+    IPermit2 public constant PERMIT2 = IPermit2(0x000000000022D473030F116dDEE9F6B43aC78BA3); // Uniswap Permit2
+
     enum Status {
         NoDispute,
         WaitingClient,
@@ -73,6 +82,7 @@ contract NerwoEscrow is Ownable, ReentrancyGuard {
         Status status;
         uint8 ruling;
         uint32 lastInteraction; // Last interaction for the dispute procedure.
+        uint32 releaseTimeout; // Time in seconds after lastInteraction the freelancer can claim the amount, 0 for none.
         address client;
         address freelancer;
         IERC20 token;
@@ -114,6 +124,13 @@ contract NerwoEscrow is Ownable, ReentrancyGuard {
 
     mapping(uint256 => Transaction) private _transactions;
 
+    // Milestone amounts of milestone transactions, zeroed once paid or reimbursed.
+    // The transaction amount is always the sum of the open milestones.
+    mapping(uint256 => uint256[]) private _milestones;
+
+    // Amounts of the party transfers that failed, by recipient and token, to be pulled with withdraw.
+    mapping(address => mapping(IERC20 => uint256)) public pendingWithdrawals;
+
     // **************************** //
     // *          Events          * //
     // **************************** //
@@ -177,6 +194,25 @@ contract NerwoEscrow is Ownable, ReentrancyGuard {
         uint256 amount
     );
 
+    /** @dev Emitted when a milestone is paid or reimbursed.
+     *  @param transactionID The index of the transaction.
+     *  @param milestone The index of the milestone.
+     */
+    event MilestoneClosed(uint256 indexed transactionID, uint256 indexed milestone);
+
+    /** @dev Emitted for every transaction of a batch.
+     *  @param transactionID The index of the transaction.
+     *  @param success Whether the transaction was settled, ineligible ones are skipped.
+     */
+    event BatchResult(uint256 indexed transactionID, bool success);
+
+    /** @dev Emitted when a party submits evidence, the arbitrator proxy sees the escrow as the submitter.
+     *  @param transactionID The index of the transaction.
+     *  @param party The party who submitted the evidence.
+     *  @param evidenceURI Link to the evidence.
+     */
+    event EvidenceSubmitted(uint256 indexed transactionID, address indexed party, string evidenceURI);
+
     /** @dev To be emitted when a fee is received by the feeRecipient.
      *  @param transactionID The index of the transaction.
      *  @param recipient The fee recipient.
@@ -208,6 +244,13 @@ contract NerwoEscrow is Ownable, ReentrancyGuard {
      */
     event ContractFunded(address indexed funder, uint256 amount);
 
+    /** @dev To be emitted when a recipient withdraws the amounts of its failed transfers.
+     *  @param recipient The recipient of the failed transfers.
+     *  @param token The token address.
+     *  @param amount The amount withdrawn.
+     */
+    event Withdrawal(address indexed recipient, IERC20 indexed token, uint256 amount);
+
     function _requireValidTransaction(uint256 transactionID) internal view {
         if (_transactions[transactionID].freelancer == address(0)) {
             revert InvalidTransaction();
@@ -219,22 +262,49 @@ contract NerwoEscrow is Ownable, ReentrancyGuard {
         _;
     }
 
-    /** @dev contructor
+    /** @dev contructor, a proxy deployment runs initialize on the proxy storage with the same arguments
      *  @param newOwner The initial owner
      *  @param arbitrators arbitrator and arbitratorProxy addresses.
      *  @param metaEvidenceURI Meta Evidence json IPFS URI
      *  @param feeRecipient Address which receives a share of receiver payment.
      *  @param feeRecipientBasisPoint The share of fee to be received by the feeRecipient, down to 2 decimal places as 550 = 5.5%
      *  @param supportedTokens List of whitelisted ERC20 tokens
+     *  @param trustedForwarder ERC-2771 forwarder relaying gasless calls, the zero address to disable them
      */
     constructor(
+        address newOwner,
+        address[] memory arbitrators,
+        string memory metaEvidenceURI,
+        address feeRecipient,
+        uint256 feeRecipientBasisPoint,
+        TokenAllow[] memory supportedTokens,
+        address trustedForwarder
+    ) Ownable(msg.sender) ERC2771Context(trustedForwarder) {
+        initialize(newOwner, arbitrators, metaEvidenceURI, feeRecipient, feeRecipientBasisPoint, supportedTokens);
+    }
+
+    /** @dev Set up the contract state, run by the constructor or once by the proxy deployment.
+     *  The trusted forwarder is immutable, it's set by the constructor of the implementation.
+     *  @param newOwner The initial owner
+     *  @param arbitrators arbitrator and arbitratorProxy addresses.
+     *  @param metaEvidenceURI Meta Evidence json IPFS URI
+     *  @param feeRecipient Address which receives a share of receiver payment.
+     *  @param feeRecipientBasisPoint The share of fee to be received by the feeRecipient, down to 2 decimal places as 550 = 5.5%
+     *  @param supportedTokens List of whitelisted ERC20 tokens
+     */
+    function initialize(
         address newOwner,
         address[] memory arbitrators,
         string memory metaEvidenceURI,
         address feeRecipient,
         uint256 feeRecipientBasisPoint,
         TokenAllow[] memory supportedTokens
-    ) Ownable(msg.sender) {
+    ) public initializer {
+        // the proxy storage has no owner yet
+        if (owner() == address(0)) {
+            _transferOwnership(_msgSender());
+        }
+
         // cannot set newOwner here because it would break guarded calls
         setFeeRecipientAndBasisPoint(feeRecipient, feeRecipientBasisPoint);
         changeWhitelist(supportedTokens);
@@ -301,7 +371,7 @@ contract NerwoEscrow is Ownable, ReentrancyGuard {
     }
 
     /** @dev Admin function to fund the contract with ether, e.g. to unblock if the arbitrator cost changes in between (possible?)
-     *  @notice It's harmless and there is no withdraw function.
+     *  @notice It's harmless and cannot be withdrawn, withdraw only pays the failed party transfers.
      */
     // solhint-disable-next-line no-complex-fallback
     receive() external payable {
@@ -330,6 +400,148 @@ contract NerwoEscrow is Ownable, ReentrancyGuard {
         uint256 amount,
         address freelancer
     ) external payable returns (uint256 transactionID) {
+        transactionID = _createTransaction(token, amount, freelancer, 0);
+    }
+
+    /** @dev Create a transaction the freelancer can claim after a delivery deadline, if the client
+     *  neither pays nor raises a dispute in the meantime.
+     *  @param token The ERC20 token contract.
+     *  @param amount The amount of tokens in this transaction.
+     *  @param freelancer The recipient of the transaction.
+     *  @param releaseTimeout Time in seconds from now after which the freelancer can claim the amount.
+     *  @return transactionID The index of the transaction.
+     */
+    function createTransactionWithDeadline(
+        IERC20 token,
+        uint256 amount,
+        address freelancer,
+        uint32 releaseTimeout
+    ) external payable returns (uint256 transactionID) {
+        if (releaseTimeout == 0) {
+            revert InvalidDeadline();
+        }
+
+        transactionID = _createTransaction(token, amount, freelancer, releaseTimeout);
+    }
+
+    /** @dev Create a transaction pulling the tokens with an EIP-2612 permit instead of a prior approve.
+     *  @param token The ERC20 token contract, it must implement EIP-2612.
+     *  @param amount The amount of tokens in this transaction.
+     *  @param freelancer The recipient of the transaction.
+     *  @param deadline The permit deadline.
+     *  @param v The permit signature v.
+     *  @param r The permit signature r.
+     *  @param s The permit signature s.
+     *  @return transactionID The index of the transaction.
+     */
+    function createTransactionWithPermit(
+        IERC20 token,
+        uint256 amount,
+        address freelancer,
+        uint256 deadline,
+        uint8 v,
+        bytes32 r,
+        bytes32 s
+    ) external returns (uint256 transactionID) {
+        if (!tokens[token]) {
+            revert InvalidToken();
+        }
+
+        // A front-run permit would make this call fail, the allowance is checked by the transfer anyway
+        // solhint-disable-next-line no-empty-blocks
+        try IERC20Permit(address(token)).permit(_msgSender(), address(this), amount, deadline, v, r, s) {} catch {}
+
+        transactionID = _createTransaction(token, amount, freelancer, 0);
+    }
+
+    /** @dev Create a transaction pulling the tokens with a Permit2 signature transfer,
+     *  the client must have approved Permit2 on the token once.
+     *  @param token The ERC20 token contract.
+     *  @param amount The amount of tokens in this transaction.
+     *  @param freelancer The recipient of the transaction.
+     *  @param nonce The Permit2 unordered nonce.
+     *  @param deadline The Permit2 signature deadline.
+     *  @param signature The Permit2 PermitTransferFrom signature, with this contract as spender.
+     *  @return transactionID The index of the transaction.
+     */
+    function createTransactionWithPermit2(
+        IERC20 token,
+        uint256 amount,
+        address freelancer,
+        uint256 nonce,
+        uint256 deadline,
+        bytes calldata signature
+    ) external returns (uint256 transactionID) {
+        if (!tokens[token]) {
+            revert InvalidToken();
+        }
+
+        transactionID = _recordTransaction(token, amount, freelancer, 0);
+
+        PERMIT2.permitTransferFrom(
+            IPermit2.PermitTransferFrom({
+                permitted: IPermit2.TokenPermissions({token: address(token), amount: amount}),
+                nonce: nonce,
+                deadline: deadline
+            }),
+            IPermit2.SignatureTransferDetails({to: address(this), requestedAmount: amount}),
+            _msgSender(),
+            signature
+        );
+    }
+
+    /** @dev Create a transaction split in milestones, released or refunded one by one.
+     *  @param token The ERC20 token contract.
+     *  @param milestones The amount of each milestone, the transaction amount is their sum.
+     *  @param freelancer The recipient of the transaction.
+     *  @return transactionID The index of the transaction.
+     */
+    function createMilestoneTransaction(
+        IERC20 token,
+        uint256[] calldata milestones,
+        address freelancer
+    ) external payable returns (uint256 transactionID) {
+        if (milestones.length == 0) {
+            revert InvalidAmount();
+        }
+
+        uint256 amount;
+        for (uint256 i = 0; i < milestones.length; i++) {
+            // Every milestone pays its own fee
+            if (milestones[i] < MIN_AMOUNT) {
+                revert InvalidAmount();
+            }
+            amount += milestones[i];
+        }
+
+        transactionID = _createTransaction(token, amount, freelancer, 0);
+        _milestones[transactionID] = milestones;
+    }
+
+    function _createTransaction(
+        IERC20 token,
+        uint256 amount,
+        address freelancer,
+        uint32 releaseTimeout
+    ) internal returns (uint256 transactionID) {
+        transactionID = _recordTransaction(token, amount, freelancer, releaseTimeout);
+
+        if (token != SafeTransfer.NATIVE_TOKEN) {
+            // NOTE: user must have approved the allowance
+            if (!token.safeTransferFrom(_msgSender(), address(this), amount)) {
+                revert TokenTransferFailed();
+            }
+        }
+    }
+
+    /** @dev Validate and store a new transaction, ERC20 tokens are left to the caller to pull.
+     */
+    function _recordTransaction(
+        IERC20 token,
+        uint256 amount,
+        address freelancer,
+        uint32 releaseTimeout
+    ) internal returns (uint256 transactionID) {
         if (freelancer == address(0)) {
             revert NullAddress();
         }
@@ -339,7 +551,7 @@ contract NerwoEscrow is Ownable, ReentrancyGuard {
             revert InvalidAmount();
         }
 
-        if (msg.sender == freelancer) {
+        if (_msgSender() == freelancer) {
             revert InvalidCaller();
         }
 
@@ -353,11 +565,6 @@ contract NerwoEscrow is Ownable, ReentrancyGuard {
             if (!tokens[token] || (msg.value != 0)) {
                 revert InvalidToken();
             }
-            // first transfer tokens to the contract
-            // NOTE: user must have approved the allowance
-            if (!token.safeTransferFrom(msg.sender, address(this), amount)) {
-                revert TokenTransferFailed();
-            }
         }
 
         unchecked {
@@ -368,7 +575,8 @@ contract NerwoEscrow is Ownable, ReentrancyGuard {
             status: Status.NoDispute,
             ruling: 0,
             lastInteraction: uint32(block.timestamp),
-            client: msg.sender,
+            releaseTimeout: releaseTimeout,
+            client: _msgSender(),
             freelancer: freelancer,
             token: token,
             amount: amount,
@@ -377,16 +585,18 @@ contract NerwoEscrow is Ownable, ReentrancyGuard {
             freelancerFee: 0
         });
 
-        emit TransactionCreated(transactionID, msg.sender, freelancer, token, amount);
+        emit TransactionCreated(transactionID, _msgSender(), freelancer, token, amount);
     }
 
     /** @dev Pay receiver. To be called if the good or service is provided.
+     *  The transaction stays open while some amount is left.
      *  @param transactionID The index of the transaction
+     *  @param amount The amount to pay, up to the transaction amount.
      */
-    function pay(uint256 transactionID) external nonReentrant onlyValidTransaction(transactionID) {
+    function pay(uint256 transactionID, uint256 amount) external nonReentrant onlyValidTransaction(transactionID) {
         Transaction storage transaction = _transactions[transactionID];
 
-        if (msg.sender != transaction.client) {
+        if (_msgSender() != transaction.client) {
             revert InvalidCaller();
         }
 
@@ -394,30 +604,43 @@ contract NerwoEscrow is Ownable, ReentrancyGuard {
             revert InvalidStatus();
         }
 
-        if (transaction.amount == 0) {
-            revert InvalidAmount();
-        }
+        _takeAmount(transactionID, transaction, amount);
+        _sendPayment(transactionID, transaction, amount);
+    }
 
-        uint256 amount = transaction.amount;
-        transaction.amount = 0;
+    /** @dev Pay a single milestone to the receiver, the fee is taken on the milestone amount.
+     *  @param transactionID The index of the transaction.
+     *  @param milestone The index of the milestone.
+     */
+    function payMilestone(
+        uint256 transactionID,
+        uint256 milestone
+    ) external nonReentrant onlyValidTransaction(transactionID) {
+        Transaction storage transaction = _transactions[transactionID];
 
-        uint256 feeAmount = calculateFeeRecipientAmount(amount);
-        if (feeAmount != 0) {
-            feeRecipientData.feeRecipient.sendToken(transaction.token, feeAmount, true);
-            emit FeeRecipientPayment(transactionID, feeRecipientData.feeRecipient, transaction.token, feeAmount);
+        if (_msgSender() != transaction.client) {
+            revert InvalidCaller();
+        }
+
+        if (transaction.status != Status.NoDispute) {
+            revert InvalidStatus();
         }
 
-        transaction.freelancer.sendToken(transaction.token, amount - feeAmount, false);
-        emit Payment(transactionID, msg.sender, transaction.freelancer, transaction.token, amount - feeAmount);
+        _sendPayment(transactionID, transaction, _closeMilestone(transactionID, transaction, milestone));
     }
 
     /** @dev Reimburse sender. To be called if the good or service can't be fully provided.
+     *  The transaction stays open while some amount is left.
      *  @param transactionID The index of the transaction.
+     *  @param amountReimbursed The amount to reimburse, up to the transaction amount.
      */
-    function reimburse(uint256 transactionID) external nonReentrant onlyValidTransaction(transactionID) {
+    function reimburse(
+        uint256 transactionID,
+        uint256 amountReimbursed
+    ) external nonReentrant onlyValidTransaction(transactionID) {
         Transaction storage transaction = _transactions[transactionID];
 
-        if (msg.sender != transaction.freelancer) {
+        if (_msgSender() != transaction.freelancer) {
             revert InvalidCaller();
         }
 
@@ -425,15 +648,139 @@ contract NerwoEscrow is Ownable, ReentrancyGuard {
             revert InvalidStatus();
         }
 
-        if (transaction.amount == 0) {
+        _takeAmount(transactionID, transaction, amountReimbursed);
+
+        _sendOrCredit(transaction.client, transaction.token, amountReimbursed);
+        emit Reimburse(transactionID, _msgSender(), transaction.client, transaction.token, amountReimbursed);
+    }
+
+    /** @dev Reimburse a single milestone to the sender.
+     *  @param transactionID The index of the transaction.
+     *  @param milestone The index of the milestone.
+     */
+    function reimburseMilestone(
+        uint256 transactionID,
+        uint256 milestone
+    ) external nonReentrant onlyValidTransaction(transactionID) {
+        Transaction storage transaction = _transactions[transactionID];
+
+        if (_msgSender() != transaction.freelancer) {
+            revert InvalidCaller();
+        }
+
+        if (transaction.status != Status.NoDispute) {
+            revert InvalidStatus();
+        }
+
+        uint256 amountReimbursed = _closeMilestone(transactionID, transaction, milestone);
+
+        _sendOrCredit(transaction.client, transaction.token, amountReimbursed);
+        emit Reimburse(transactionID, _msgSender(), transaction.client, transaction.token, amountReimbursed);
+    }
+
+    /** @dev Claim what is left after the delivery deadline. To be called by the freelancer
+     *  when the client neither paid nor raised a dispute in time.
+     *  @param transactionID The index of the transaction.
+     */
+    function claim(uint256 transactionID) external nonReentrant onlyValidTransaction(transactionID) {
+        Transaction storage transaction = _transactions[transactionID];
+
+        if (_msgSender() != transaction.freelancer) {
+            revert InvalidCaller();
+        }
+
+        // a fee paid by either party moves the transaction to the dispute procedure
+        if (transaction.status != Status.NoDispute) {
+            revert InvalidStatus();
+        }
+
+        if (transaction.releaseTimeout == 0) {
+            revert InvalidDeadline();
+        }
+
+        if (block.timestamp - transaction.lastInteraction < transaction.releaseTimeout) {
+            revert NoTimeout();
+        }
+
+        uint256 amount = transaction.amount;
+        if (amount == 0) {
             revert InvalidAmount();
         }
 
-        uint256 amountReimbursed = transaction.amount;
         transaction.amount = 0;
+        _sendPayment(transactionID, transaction, amount);
+    }
+
+    /** @dev Take `amount` out of the transaction amount.
+     *  A partial amount and what is left must both be at least MIN_AMOUNT, so that every payment pays its fee.
+     *  Milestone transactions are only closed as a whole or one milestone at a time.
+     *  @param transactionID The index of the transaction.
+     *  @param transaction The transaction.
+     *  @param amount The amount to take.
+     */
+    function _takeAmount(uint256 transactionID, Transaction storage transaction, uint256 amount) internal {
+        if (amount == 0 || amount > transaction.amount) {
+            revert InvalidAmount();
+        }
 
-        transaction.client.sendToken(transaction.token, amountReimbursed, false);
-        emit Reimburse(transactionID, msg.sender, transaction.client, transaction.token, amountReimbursed);
+        if (amount != transaction.amount) {
+            if (
+                amount < MIN_AMOUNT ||
+                transaction.amount - amount < MIN_AMOUNT ||
+                _milestones[transactionID].length != 0
+            ) {
+                revert InvalidAmount();
+            }
+        }
+
+        unchecked {
+            transaction.amount -= amount;
+        }
+    }
+
+    /** @dev Take a milestone out of the transaction amount.
+     *  @param transactionID The index of the transaction.
+     *  @param transaction The transaction.
+     *  @param milestone The index of the milestone.
+     *  @return amount The milestone amount.
+     */
+    function _closeMilestone(
+        uint256 transactionID,
+        Transaction storage transaction,
+        uint256 milestone
+    ) internal returns (uint256 amount) {
+        uint256[] storage milestones = _milestones[transactionID];
+
+        if (milestone >= milestones.length) {
+            revert InvalidMilestone();
+        }
+
+        amount = milestones[milestone];
+
+        // Already closed, or the whole transaction was paid or reimbursed at once.
+        if (amount == 0 || transaction.amount == 0) {
+            revert InvalidMilestone();
+        }
+
+        milestones[milestone] = 0;
+        transaction.amount -= amount;
+        emit MilestoneClosed(transactionID, milestone);
+    }
+
+    /** @dev Send `amount` to the freelancer, minus the fee recipient share.
+     *  @param transactionID The index of the transaction.
+     *  @param transaction The transaction.
+     *  @param amount The amount to pay.
+     */
+    function _sendPayment(uint256 transactionID, Transaction storage transaction, uint256 amount) internal {
+        uint256 feeAmount = calculateFeeRecipientAmount(amount);
+        if (feeAmount != 0) {
+            feeRecipientData.feeRecipient.sendToken(transaction.token, feeAmount, true);
+            emit FeeRecipientPayment(transactionID, feeRecipientData.feeRecipient, transaction.token, feeAmount);
+        }
+
+        _sendOrCredit(transaction.freelancer, transaction.token, amount - feeAmount);
+        emit Payment(transactionID, transaction.client, transaction.freelancer, transaction.token, amount - feeAmount);
     }
 
     /** @dev Pay the arbitration fee to raise a dispute. To be called by the client or freelancer. UNTRUSTED.
@@ -450,7 +797,7 @@ contract NerwoEscrow is Ownable, ReentrancyGuard {
             revert InvalidStatus();
         }
 
-        if ((msg.sender != transaction.client) && (msg.sender != transaction.freelancer)) {
+        if ((_msgSender() != transaction.client) && (_msgSender() != transaction.freelancer)) {
             revert InvalidCaller();
         }
 
@@ -462,7 +809,7 @@ contract NerwoEscrow is Ownable, ReentrancyGuard {
 
         transaction.lastInteraction = uint32(block.timestamp);
 
-        if (msg.sender == transaction.client) {
+        if (_msgSender() == transaction.client) {
             if (transaction.clientFee != 0) {
                 revert AlreadyPaid();
             }
@@ -474,11 +821,11 @@ contract NerwoEscrow is Ownable, ReentrancyGuard {
             transaction.freelancerFee = msg.value;
         }
 
-        address other = msg.sender == transaction.client ? transaction.freelancer : transaction.client;
+        address other = _msgSender() == transaction.client ? transaction.freelancer : transaction.client;
 
         if (
-            ((msg.sender == transaction.client) && (transaction.freelancerFee != 0)) ||
-            ((msg.sender == transaction.freelancer) && (transaction.clientFee != 0))
+            ((_msgSender() == transaction.client) && (transaction.freelancerFee != 0)) ||
+            ((_msgSender() == transaction.freelancer) && (transaction.clientFee != 0))
         ) {
             transaction.status = Status.DisputeCreated;
             transaction.disputeID = arbitratorData.proxy.createDispute{value: arbitrationCost_}(
@@ -488,13 +835,14 @@ contract NerwoEscrow is Ownable, ReentrancyGuard {
             );
             emit DisputeCreated(transactionID, transaction.disputeID, other);
         } else {
-            transaction.status = msg.sender == transaction.client ? Status.WaitingFreelancer : Status.WaitingClient;
+            transaction.status = _msgSender() == transaction.client ? Status.WaitingFreelancer : Status.WaitingClient;
             emit HasToPayFee(transactionID, other);
         }
     }
 
     /** @dev A function to handle a scenario where a party fails to pay the fee within the defined time limit.
-     *  It allows for a timeout period and then reimburses the other party.
+     *  It allows for a timeout period and then rules in favor of the party that paid the fee.
+     *  Anyone can call it, like timeOuts, since the outcome only depends on which party paid.
      *  Only a valid transaction can call this function.
      *  @param transactionID The ID of the transaction where a party failed to pay the fee.
      */
@@ -505,16 +853,43 @@ contract NerwoEscrow is Ownable, ReentrancyGuard {
             revert NoTimeout();
         }
 
-        if (
-            ((msg.sender == transaction.client) && (transaction.status == Status.WaitingFreelancer)) ||
-            ((msg.sender == transaction.freelancer) && (transaction.status == Status.WaitingClient))
-        ) {
-            _executeRuling(transactionID, msg.sender == transaction.client ? CLIENT_WINS : FREELANCER_WINS);
+        if (transaction.status == Status.WaitingFreelancer) {
+            _executeRuling(transactionID, CLIENT_WINS);
+        } else if (transaction.status == Status.WaitingClient) {
+            _executeRuling(transactionID, FREELANCER_WINS);
         } else {
             revert InvalidStatus();
         }
     }
 
+    /** @dev Execute the expired fee timeouts of many transactions, in favor of the party that paid the fee.
+     *  Anyone can call it, as timeOut, but transactions not waiting for a fee or not yet expired are skipped
+     *  instead of reverting.
+     *  @param transactionIDs The transactions to settle.
+     */
+    function timeOuts(uint256[] calldata transactionIDs) external nonReentrant {
+        for (uint256 i = 0; i < transactionIDs.length; i++) {
+            uint256 transactionID = transactionIDs[i];
+            Transaction storage transaction = _transactions[transactionID];
+
+            // a missing transaction has status NoDispute and gets skipped as well
+            uint256 ruling;
+            if (block.timestamp - transaction.lastInteraction >= arbitratorData.feeTimeout) {
+                if (transaction.status == Status.WaitingFreelancer) {
+                    ruling = CLIENT_WINS;
+                } else if (transaction.status == Status.WaitingClient) {
+                    ruling = FREELANCER_WINS;
+                }
+            }
+
+            if (ruling != 0) {
+                _executeRuling(transactionID, ruling);
+            }
+
+            emit BatchResult(transactionID, ruling != 0);
+        }
+    }
+
     /** @dev Accept ruling for a dispute.
      *  @param transactionID the transaction the dispute was created from.
      */
@@ -525,8 +900,7 @@ contract NerwoEscrow is Ownable, ReentrancyGuard {
             revert InvalidStatus();
         }
 
-        uint256 localID = arbitratorData.proxy.externalIDtoLocalID(transaction.disputeID);
-        (, bool isRuled, uint256 ruling, ) = arbitratorData.proxy.disputes(localID);
+        (bool isRuled, uint256 ruling) = _fetchRuling(transaction);
 
         if (!isRuled) {
             revert NotRuled();
@@ -535,6 +909,80 @@ contract NerwoEscrow is Ownable, ReentrancyGuard {
         _executeRuling(transactionID, ruling);
     }
 
+    /** @dev Accept the rulings of many disputes, transactions without a ruled dispute are skipped.
+     *  @param transactionIDs The transactions the disputes were created from.
+     */
+    function acceptRulings(uint256[] calldata transactionIDs) external nonReentrant {
+        for (uint256 i = 0; i < transactionIDs.length; i++) {
+            uint256 transactionID = transactionIDs[i];
+            Transaction storage transaction = _transactions[transactionID];
+
+            bool success;
+            if (transaction.status == Status.DisputeCreated) {
+                uint256 ruling;
+                (success, ruling) = _fetchRuling(transaction);
+                if (success) {
+                    _executeRuling(transactionID, ruling);
+                }
+            }
+
+            emit BatchResult(transactionID, success);
+        }
+    }
+
+    /** @dev Appeal the ruling of the dispute of a transaction during its appeal period, paying the appeal cost.
+     *  Only the losing party can appeal, both parties can appeal a split. The appeal cost is not refunded.
+     *  @param transactionID The index of the transaction.
+     */
+    function appeal(uint256 transactionID) external payable nonReentrant onlyValidTransaction(transactionID) {
+        Transaction storage transaction = _transactions[transactionID];
+
+        if (transaction.status != Status.DisputeCreated) {
+            revert InvalidStatus();
+        }
+
+        uint256 ruling = arbitratorData.arbitrator.currentRuling(transaction.disputeID);
+        if (
+            (_msgSender() != transaction.client || ruling == CLIENT_WINS) &&
+            (_msgSender() != transaction.freelancer || ruling == FREELANCER_WINS)
+        ) {
+            revert InvalidCaller();
+        }
+
+        arbitratorData.arbitrator.appeal{value: msg.value}(transaction.disputeID, arbitratorData.extraData);
+    }
+
+    /** @dev Submit a reference to evidence for the dispute of a transaction, through the arbitrator proxy.
+     *  Only the client and the freelancer can submit evidence, until the dispute is resolved.
+     *  @param transactionID The index of the transaction.
+     *  @param evidenceURI Link to the ERC-1497 evidence JSON.
+     */
+    function submitEvidence(
+        uint256 transactionID,
+        string calldata evidenceURI
+    ) external nonReentrant onlyValidTransaction(transactionID) {
+        Transaction storage transaction = _transactions[transactionID];
+
+        if (_msgSender() != transaction.client && _msgSender() != transaction.freelancer) {
+            revert InvalidCaller();
+        }
+
+        if (transaction.status != Status.DisputeCreated) {
+            revert InvalidStatus();
+        }
+
+        arbitratorData.proxy.submitEvidence(_localDisputeID(transaction), evidenceURI);
+        emit EvidenceSubmitted(transactionID, _msgSender(), evidenceURI);
+    }
+
+    function _localDisputeID(Transaction storage transaction) internal view returns (uint256) {
+        return arbitratorData.proxy.externalIDtoLocalID(transaction.disputeID);
+    }
+
+    function _fetchRuling(Transaction storage transaction) internal view returns (bool isRuled, uint256 ruling) {
+        (, isRuled, ruling, ) = arbitratorData.proxy.disputes(_localDisputeID(transaction));
+    }
+
     /** @dev A function to execute the ruling provided by the arbitrator. It distributes the funds based on the ruling.
      *  The ruling is executed in a way that it prevents reentrancy attacks.
      *  After executing the ruling, the status of the transaction is set to Resolved.
@@ -559,10 +1007,10 @@ contract NerwoEscrow is Ownable, ReentrancyGuard {
         address freelancer = transaction.freelancer;
 
         // Give the arbitration fee back.
-        // Note that we use send to prevent a party from blocking the execution.
+        // Note that failed transfers are credited to prevent a party from blocking the execution.
         if (ruling == CLIENT_WINS) {
-            client.sendToken(transaction.token, amount, false);
-            client.sendETH(clientArbitrationFee, false);
+            _sendOrCredit(client, transaction.token, amount);
+            _sendOrCredit(client, SafeTransfer.NATIVE_TOKEN, clientArbitrationFee);
         } else if (ruling == FREELANCER_WINS) {
             feeAmount = calculateFeeRecipientAmount(amount);
             if (feeAmount != 0) {
@@ -570,8 +1018,8 @@ contract NerwoEscrow is Ownable, ReentrancyGuard {
                 emit FeeRecipientPayment(transactionID, feeRecipientData.feeRecipient, transaction.token, feeAmount);
             }
 
-            freelancer.sendToken(transaction.token, amount - feeAmount, false);
-            freelancer.sendETH(freelancerArbitrationFee, false);
+            _sendOrCredit(freelancer, transaction.token, amount - feeAmount);
+            _sendOrCredit(freelancer, SafeTransfer.NATIVE_TOKEN, freelancerArbitrationFee);
         } else {
             uint256 splitArbitration = clientArbitrationFee / 2;
             uint256 splitAmount = amount / 2;
@@ -583,14 +1031,60 @@ contract NerwoEscrow is Ownable, ReentrancyGuard {
             }
 
             // In the case of an uneven token amount, one basic token unit can be burnt.
-            client.sendToken(transaction.token, splitAmount, false);
-            freelancer.sendToken(transaction.token, splitAmount - feeAmount, false);
+            _sendOrCredit(client, transaction.token, splitAmount);
+            _sendOrCredit(freelancer, transaction.token, splitAmount - feeAmount);
+
+            _sendOrCredit(client, SafeTransfer.NATIVE_TOKEN, splitArbitration);
+            _sendOrCredit(freelancer, SafeTransfer.NATIVE_TOKEN, splitArbitration);
+        }
+    }
 
-            client.sendETH(splitArbitration, false);
-            freelancer.sendETH(splitArbitration, false);
+    /** @dev Send `amount` to a party, crediting it to pendingWithdrawals when the transfer fails,
+     *  e.g. a contract wallet rejecting ether or a token blacklisting the party.
+     *  @param to The party.
+     *  @param token The token address.
+     *  @param amount The amount to send.
+     */
+    function _sendOrCredit(address to, IERC20 token, uint256 amount) internal {
+        if (!to.sendToken(token, amount, false)) {
+            pendingWithdrawals[to][token] += amount;
         }
     }
 
+    /** @dev Withdraw the amounts of the failed transfers to the caller, it reverts if the transfer fails again.
+     *  @param token The token address, the zero address for ether.
+     */
+    function withdraw(IERC20 token) external nonReentrant {
+        address recipient = _msgSender();
+        uint256 amount = pendingWithdrawals[recipient][token];
+
+        if (amount == 0) {
+            revert InvalidAmount();
+        }
+
+        pendingWithdrawals[recipient][token] = 0;
+        recipient.sendToken(token, amount, true);
+        emit Withdrawal(recipient, token, amount);
+    }
+
+    // **************************** //
+    // *         ERC-2771         * //
+    // **************************** //
+
+    /** @dev The signer of a request relayed by the trusted forwarder, else the caller.
+     */
+    function _msgSender() internal view override(Context, ERC2771Context) returns (address) {
+        return ERC2771Context._msgSender();
+    }
+
+    function _msgData() internal view override(Context, ERC2771Context) returns (bytes calldata) {
+        return ERC2771Context._msgData();
+    }
+
+    function _contextSuffixLength() internal view override(Context, ERC2771Context) returns (uint256) {
+        return ERC2771Context._contextSuffixLength();
+    }
+
     // **************************** //
     // *   Utils for frontends    * //
     // **************************** //
@@ -606,6 +1100,18 @@ contract NerwoEscrow is Ownable, ReentrancyGuard {
         return _transactions[transactionID];
     }
 
+    /**
+     * @dev Get the milestones of a transaction, closed ones are zero.
+     *  Only meaningful while the transaction amount is not zero, a plain transaction has none.
+     *  @param transactionID The index of the transaction.
+     *  @return The milestone amounts.
+     */
+    function getMilestones(
+        uint256 transactionID
+    ) external view onlyValidTransaction(transactionID) returns (uint256[] memory) {
+        return _milestones[transactionID];
+    }
+
     /**
      * @dev Ask arbitrator for abitration cost
      * @return Amount to be paid.
@@ -614,6 +1120,21 @@ contract NerwoEscrow is Ownable, ReentrancyGuard {
         return arbitratorData.arbitrator.arbitrationCost(arbitratorData.extraData);
     }
 
+    /**
+     * @dev Ask arbitrator for the cost to appeal the dispute of a transaction
+     * @param transactionID The index of the transaction.
+     * @return Amount to be paid, a huge value when the ruling cannot be appealed.
+     */
+    function getAppealCost(uint256 transactionID) external view onlyValidTransaction(transactionID) returns (uint256) {
+        Transaction storage transaction = _transactions[transactionID];
+
+        if (transaction.status < Status.DisputeCreated) {
+            revert InvalidStatus();
+        }
+
+        return arbitratorData.arbitrator.appealCost(transaction.disputeID, arbitratorData.extraData);
+    }
+
     /** @dev Get the ruling for the dispute of given transaction
      *  @param transactionID the transaction the dispute was created from.
      */
@@ -626,7 +1147,6 @@ contract NerwoEscrow is Ownable, ReentrancyGuard {
             revert InvalidStatus();
         }
 
-        uint256 localID = arbitratorData.proxy.externalIDtoLocalID(transaction.disputeID);
-        (, isRuled, ruling, ) = arbitratorData.proxy.disputes(localID);
+        (isRuled, ruling) = _fetchRuling(transaction);
     }
 }
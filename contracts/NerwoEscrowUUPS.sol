@@ -0,0 +1,39 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.23;
+
+/**
+ * @title NerwoEscrow implementation of a UUPS proxy deployment
+ * @notice The escrow owner upgrades the proxy through the implementation. Immutable and transparent proxy
+ * deployments use NerwoEscrow, which has no upgrade function of its own.
+ */
+
+import {UUPSUpgradeable} from "@openzeppelin/contracts/proxy/utils/UUPSUpgradeable.sol";
+
+import {NerwoEscrow} from "./NerwoEscrow.sol";
+
+contract NerwoEscrowUUPS is NerwoEscrow, UUPSUpgradeable {
+    constructor(
+        address newOwner,
+        address[] memory arbitrators,
+        string memory metaEvidenceURI,
+        address feeRecipient,
+        uint256 feeRecipientBasisPoint,
+        TokenAllow[] memory supportedTokens,
+        address trustedForwarder
+    )
+        NerwoEscrow(
+            newOwner,
+            arbitrators,
+            metaEvidenceURI,
+            feeRecipient,
+            feeRecipientBasisPoint,
+            supportedTokens,
+            trustedForwarder
+        )
+    {}
+
+    /** @dev Only the owner can upgrade the proxy.
+     */
+    // solhint-disable-next-line no-empty-blocks
+    function _authorizeUpgrade(address) internal override onlyOwner {}
+}
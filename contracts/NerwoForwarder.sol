@@ -0,0 +1,13 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.21;
+
+/**
+ * @title ERC-2771 forwarder relaying the gasless NerwoEscrow calls
+ * @notice Deployed by deploy-test, other networks configure NERWO_TRUSTED_FORWARDER_ADDRESS.
+ */
+
+import {ERC2771Forwarder} from "@openzeppelin/contracts/metatx/ERC2771Forwarder.sol";
+
+contract NerwoForwarder is ERC2771Forwarder {
+    constructor() ERC2771Forwarder("NerwoForwarder") {}
+}
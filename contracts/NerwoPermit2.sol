@@ -0,0 +1,79 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.21;
+
+/**
+ * @title Permit2 like SignatureTransfer for test units
+ * @notice Same typed data, nonces and errors of Uniswap Permit2, without EIP-1271 signers.
+ *  Installed at the canonical Permit2 address on the hardhat network.
+ */
+
+import {ECDSA} from "@openzeppelin/contracts/utils/cryptography/ECDSA.sol";
+import {IERC20} from "@openzeppelin/contracts/token/ERC20/IERC20.sol";
+
+import {IPermit2} from "./IPermit2.sol";
+import {SafeTransfer} from "./SafeTransfer.sol";
+
+contract NerwoPermit2 is IPermit2 {
+    using SafeTransfer for IERC20;
+
+    error SignatureExpired(uint256 signatureDeadline);
+    error InvalidAmount(uint256 maxAmount);
+    error InvalidNonce();
+    error InvalidSigner();
+
+    bytes32 private constant _TYPE_HASH = keccak256("EIP712Domain(string name,uint256 chainId,address verifyingContract)");
+    bytes32 private constant _TOKEN_PERMISSIONS_TYPEHASH = keccak256("TokenPermissions(address token,uint256 amount)");
+    bytes32 private constant _PERMIT_TRANSFER_FROM_TYPEHASH =
+        keccak256(
+            "PermitTransferFrom(TokenPermissions permitted,address spender,uint256 nonce,uint256 deadline)TokenPermissions(address token,uint256 amount)"
+        );
+
+    mapping(address => mapping(uint256 => uint256)) public nonceBitmap;
+
+    // no immutables, the runtime code is copied to the canonical address
+    // solhint-disable-next-line func-name-mixedcase
+    function DOMAIN_SEPARATOR() public view returns (bytes32) {
+        return keccak256(abi.encode(_TYPE_HASH, keccak256("Permit2"), block.chainid, address(this)));
+    }
+
+    function permitTransferFrom(
+        PermitTransferFrom calldata permit,
+        SignatureTransferDetails calldata transferDetails,
+        address owner,
+        bytes calldata signature
+    ) external {
+        if (block.timestamp > permit.deadline) {
+            revert SignatureExpired(permit.deadline);
+        }
+
+        if (transferDetails.requestedAmount > permit.permitted.amount) {
+            revert InvalidAmount(permit.permitted.amount);
+        }
+
+        uint256 bit = 1 << (permit.nonce & 0xff);
+        uint256 flipped = (nonceBitmap[owner][permit.nonce >> 8] ^= bit);
+        if (flipped & bit == 0) {
+            revert InvalidNonce();
+        }
+
+        bytes32 structHash = keccak256(
+            abi.encode(
+                _PERMIT_TRANSFER_FROM_TYPEHASH,
+                keccak256(abi.encode(_TOKEN_PERMISSIONS_TYPEHASH, permit.permitted)),
+                msg.sender,
+                permit.nonce,
+                permit.deadline
+            )
+        );
+        bytes32 digest = keccak256(abi.encodePacked("\x19\x01", DOMAIN_SEPARATOR(), structHash));
+
+        if (ECDSA.recover(digest, signature) != owner) {
+            revert InvalidSigner();
+        }
+
+        IERC20 token = IERC20(permit.permitted.token);
+        if (!token.safeTransferFrom(owner, transferDetails.to, transferDetails.requestedAmount)) {
+            revert SafeTransfer.TransferFailed(transferDetails.to, token, transferDetails.requestedAmount);
+        }
+    }
+}
@@ -0,0 +1,33 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.21;
+
+/**
+ * @title Contract wallet for test units
+ * @notice Rejects ether while `rejecting` is set, and relays calls so it can act as an escrow party.
+ */
+contract NerwoRejectingReceiver {
+    error Rejected();
+
+    bool public rejecting = true;
+
+    function setRejecting(bool rejecting_) external {
+        rejecting = rejecting_;
+    }
+
+    function execute(address target, bytes calldata data) external payable returns (bytes memory) {
+        (bool success, bytes memory result) = target.call{value: msg.value}(data);
+        if (!success) {
+            /// @solidity memory-safe-assembly
+            assembly {
+                revert(add(result, 0x20), mload(result))
+            }
+        }
+        return result;
+    }
+
+    receive() external payable {
+        if (rejecting) {
+            revert Rejected();
+        }
+    }
+}
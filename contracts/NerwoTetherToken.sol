@@ -9,9 +9,10 @@ pragma solidity ^0.8.0;
  */
 
 import {ERC20} from "@openzeppelin/contracts/token/ERC20/ERC20.sol";
+import {ERC20Permit} from "@openzeppelin/contracts/token/ERC20/extensions/ERC20Permit.sol";
 
-contract NerwoTetherToken is ERC20 {
-    constructor() ERC20("Nerwo Test USDT", "USDT.n") {}
+contract NerwoTetherToken is ERC20, ERC20Permit {
+    constructor() ERC20("Nerwo Test USDT", "USDT.n") ERC20Permit("Nerwo Test USDT") {}
 
     function decimals() public pure override returns (uint8) {
         return 6;
@@ -25,17 +25,16 @@ library SafeTransfer {
      *  @param to To address to send to.
      *  @param amount Transaction amount.
      *  @param revertOnError Whether the operation should revert on error.
+     *  @return success Whether the transfer succeeded.
      */
-    function sendETH(address to, uint256 amount, bool revertOnError) internal {
-        bool success;
-
+    function sendETH(address to, uint256 amount, bool revertOnError) internal returns (bool success) {
         /// @solidity memory-safe-assembly
         assembly {
             success := call(gas(), to, amount, 0, 0, 0, 0)
         }
 
         if (success) {
-            return;
+            return true;
         }
 
         if (revertOnError) {
@@ -50,10 +49,9 @@ library SafeTransfer {
      *  @param token The token address.
      *  @param amount The amount to be transferred.
      *  @param revertOnError Whether the operation should revert on error.
+     *  @return success Whether the transfer succeeded.
      */
-    function sendToken(address to, IERC20 token, uint256 amount, bool revertOnError) internal {
-        bool success;
-
+    function sendToken(address to, IERC20 token, uint256 amount, bool revertOnError) internal returns (bool success) {
         /// @solidity memory-safe-assembly
         assembly {
             switch token
@@ -92,7 +90,7 @@ library SafeTransfer {
         }
 
         if (success) {
-            return;
+            return true;
         }
 
         if (revertOnError) {
@@ -0,0 +1,16 @@
+import { DeployFunction } from 'hardhat-deploy/types';
+
+import { loadConfig } from '../config';
+
+const func: DeployFunction = async function ({ deployments: { deploy }, getNamedAccounts, network }) {
+  const { deployer } = await getNamedAccounts();
+
+  await deploy('NerwoForwarder', {
+    from: deployer,
+    log: true,
+    deterministicDeployment: loadConfig(network.name).deploySalt
+  });
+};
+
+export default func;
+func.tags = ['NerwoForwarder'];
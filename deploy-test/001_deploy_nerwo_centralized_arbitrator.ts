@@ -1,16 +1,28 @@
+import { formatEther } from 'ethers';
 import { DeployFunction } from 'hardhat-deploy/types';
 
+import { loadConfig } from '../config';
 import { arbitratorArgs } from '../constructors';
+import { executeAsOwner } from '../deterministic';
 
-const func: DeployFunction = async function ({ deployments: { deploy }, getNamedAccounts }) {
+const func: DeployFunction = async function (hre) {
+  const { deployments: { deploy }, getNamedAccounts, network } = hre;
   const { deployer, court } = await getNamedAccounts();
 
-  const args = arbitratorArgs(court);
-  await deploy('NerwoCentralizedArbitrator', {
+  const config = loadConfig(network.name);
+  const args = arbitratorArgs(court, config);
+  const { newlyDeployed } = await deploy('NerwoCentralizedArbitrator', {
     args: args,
     from: deployer,
-    log: true
+    log: true,
+    deterministicDeployment: config.deploySalt
   });
+
+  // the price is not a constructor argument of a deterministic deployment
+  if (newlyDeployed && config.deploySalt && config.arbitrationPrice) {
+    await executeAsOwner(hre, 'NerwoCentralizedArbitrator', 'setArbitrationPrice', [config.arbitrationPrice],
+      `nerwo:set-arbitration-price --price ${formatEther(config.arbitrationPrice)}`);
+  }
 };
 
 export default func;
@@ -0,0 +1,22 @@
+import { DeployFunction } from 'hardhat-deploy/types';
+
+import { loadSeedConfig, seedEscrows, writeSeedManifest } from '../seed';
+
+const func: DeployFunction = async function (hre) {
+  const config = loadSeedConfig(hre.network.name)!;
+  const manifest = await seedEscrows(hre, config);
+
+  const path = await writeSeedManifest(hre, manifest, config.manifest);
+  console.log(`seeded ${manifest.transactions.length} escrows, manifest written to ${path}`);
+
+  // recorded as done, a second deploy does not seed again
+  return true;
+};
+
+export default func;
+func.id = 'seed_escrows';
+func.tags = ['Seed'];
+func.dependencies = ['NerwoTetherToken', 'NerwoEscrow'];
+// opt-in, NERWO_SEED_COUNT sets how many escrows per state and token; only the hardhat network runs
+// deploy-test, the other networks are seeded by nerwo:seed
+func.skip = async ({ network }) => !loadSeedConfig(network.name);
@@ -1,11 +1,14 @@
 import { DeployFunction } from 'hardhat-deploy/types';
 
-const func: DeployFunction = async function ({ deployments: { deploy }, getNamedAccounts }) {
+import { loadConfig } from '../config';
+
+const func: DeployFunction = async function ({ deployments: { deploy }, getNamedAccounts, network }) {
     const { deployer } = await getNamedAccounts();
 
     await deploy('NerwoTetherToken', {
         from: deployer,
-        log: true
+        log: true,
+        deterministicDeployment: loadConfig(network.name).deploySalt
     })
 }
 
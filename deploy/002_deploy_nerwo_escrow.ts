@@ -1,28 +1,43 @@
 import { DeployFunction } from 'hardhat-deploy/types';
-import { escrowArgs } from '../constructors';
+import { loadConfig } from '../config';
+import { escrowContract, escrowProxy, resolveEscrowArgs, resolveEscrowWhitelist } from '../constructors';
+import { executeAsOwner } from '../deterministic';
+import { checkUpgrade } from '../storage';
 
-const func: DeployFunction = async function ({ deployments: { get, deploy }, getNamedAccounts }) {
-  let { deployer, platform } = await getNamedAccounts();
-  platform = platform || deployer;
+const func: DeployFunction = async function (hre) {
+  const { deployer } = await hre.getNamedAccounts();
+  const { proxy, deploySalt } = loadConfig(hre.network.name);
 
-  let arbitrator;
-  try {
-    arbitrator = await get('NerwoCentralizedArbitrator');
-  } catch (_) { }
+  // hardhat-deploy would replace an immutable escrow with a proxy and the other way around
+  const existing = await hre.deployments.getOrNull('NerwoEscrow');
+  if (existing && !!existing.implementation !== !!proxy) {
+    throw new Error(`NerwoEscrow is deployed ${existing.implementation ? 'behind a proxy' : 'immutably'} ` +
+      `on ${hre.network.name}, NERWO_PROXY does not match`);
+  }
 
-  let usdt;
-  try {
-    usdt = await get('NerwoTetherToken');
-  } catch (_) { }
+  if (proxy) {
+    // fails before deploying an implementation that would corrupt the proxy storage
+    await checkUpgrade(hre, 'NerwoEscrow', escrowContract(proxy));
+  }
 
-  const args = escrowArgs(platform, arbitrator?.address, platform, usdt?.address);
-  await deploy('NerwoEscrow', {
+  const args = await resolveEscrowArgs(hre);
+  const { newlyDeployed } = await hre.deployments.deploy('NerwoEscrow', {
+    contract: escrowContract(proxy),
     args: args,
     from: deployer,
-    log: true
+    log: true,
+    proxy: proxy && escrowProxy(proxy, args),
+    deterministicDeployment: deploySalt
   });
+
+  // the token addresses are not constructor arguments of a deterministic deployment
+  const whitelist = await resolveEscrowWhitelist(hre);
+  if (newlyDeployed && !existing && deploySalt && whitelist.length) {
+    await executeAsOwner(hre, 'NerwoEscrow', 'changeWhitelist', [whitelist],
+      `nerwo:change-whitelist ${whitelist.map(({ token }) => token).join(' ')}`);
+  }
 };
 
 export default func;
 func.tags = ['NerwoEscrow'];
-func.dependencies = ['NerwoCentralizedArbitrator'];
+func.dependencies = ['NerwoCentralizedArbitrator', 'NerwoForwarder'];
@@ -0,0 +1,99 @@
+import { promises as fs } from 'node:fs';
+import { ContractFactory, ContractTransactionResponse, InterfaceAbi, getCreate2Address, keccak256 } from 'ethers';
+import { HardhatRuntimeEnvironment } from 'hardhat/types';
+
+import { NerwoDeployConfig, loadConfig } from './config';
+import { arbitratorArgs, escrowArgs, escrowContract } from './constructors';
+import { OwnableContract } from './tasks/utils';
+
+/** Deterministic deployment proxy used by hardhat-deploy, at the same address on every chain */
+export const CREATE2_FACTORY = '0x4e59b44847b379578588920ca78fbf26c0b4956c';
+
+interface Bytecode {
+    abi: InterfaceAbi;
+    bytecode: string;
+}
+
+// the proxies deployed by hardhat-deploy come with its own artifacts
+async function proxyArtifact(name: string): Promise<Bytecode> {
+    return JSON.parse(await fs.readFile(require.resolve(`hardhat-deploy/extendedArtifacts/${name}.json`), 'utf8'));
+}
+
+/**
+ * Address of `artifact` deployed with `args` by the CREATE2 factory, computed offline.
+ */
+export async function create2Address({ abi, bytecode }: Bytecode, args: unknown[], salt: string): Promise<string> {
+    const { data } = await new ContractFactory(abi, bytecode).getDeployTransaction(...args);
+    return getCreate2Address(CREATE2_FACTORY, salt, keccak256(data));
+}
+
+/**
+ * Addresses the deploy scripts of the network give to the contracts with the configured salt,
+ * computed offline from the compiled artifacts, the named accounts and the configuration.
+ * Only the contracts of the deploy folders of the network are included, the proxy ones when NERWO_PROXY is set.
+ */
+export async function predictAddresses(hre: HardhatRuntimeEnvironment,
+    config: NerwoDeployConfig = loadConfig(hre.network.name)): Promise<Record<string, string>> {
+    const { artifacts, network } = hre;
+    const salt = config.deploySalt;
+    if (!salt) {
+        throw new Error(`NERWO_DEPLOY_SALT is not set for ${network.name}`);
+    }
+
+    const predict = async (name: string, args: unknown[]) => create2Address(await artifacts.readArtifact(name), args, salt);
+
+    let { deployer, platform, court } = await hre.getNamedAccounts();
+    platform = platform || deployer;
+
+    const addresses: Record<string, string> = {};
+    if (network.deploy.includes('deploy-test')) {
+        addresses.NerwoForwarder = await predict('NerwoForwarder', []);
+        addresses.NerwoCentralizedArbitrator = await predict('NerwoCentralizedArbitrator', arbitratorArgs(court, config));
+    }
+    if (network.deploy.includes('deploy-token')) {
+        addresses.NerwoTetherToken = await predict('NerwoTetherToken', []);
+    }
+
+    const args = escrowArgs(platform, addresses.NerwoCentralizedArbitrator, platform, undefined, config,
+        addresses.NerwoForwarder);
+    addresses.NerwoEscrow = await predict(escrowContract(config.proxy), args);
+
+    if (config.proxy) {
+        const implementation = addresses.NerwoEscrow_Implementation = addresses.NerwoEscrow;
+        const { abi } = await artifacts.readArtifact('NerwoEscrow');
+        const data = new ContractFactory(abi, '0x').interface.encodeFunctionData('initialize', args.slice(0, -1));
+
+        if (config.proxy === 'uups') {
+            addresses.NerwoEscrow = await create2Address(await proxyArtifact('ERC1967Proxy'), [implementation, data], salt);
+        } else {
+            const admin = addresses.DefaultProxyAdmin = await create2Address(await proxyArtifact('ProxyAdmin'), [args[0]], salt);
+            addresses.NerwoEscrow = await create2Address(await proxyArtifact('TransparentUpgradeableProxy'),
+                [implementation, admin, data], salt);
+        }
+    }
+
+    return addresses;
+}
+
+/**
+ * Send an owner call setting up a deterministic deployment,
+ * when the owner is not among the configured accounts print the task it has to run instead.
+ * @returns Whether the call was sent.
+ */
+export async function executeAsOwner(hre: HardhatRuntimeEnvironment, contractName: string, method: string,
+    args: unknown[], instead: string): Promise<boolean> {
+    const { abi, address } = await hre.deployments.get(contractName);
+    const contract = await hre.ethers.getContractAt(abi, address) as unknown as OwnableContract;
+
+    const owner = await contract.owner();
+    const signer = (await hre.ethers.getSigners()).find((signer) => signer.address === owner);
+    if (!signer) {
+        console.log(`${contractName} owner ${owner} is not among the configured accounts, it must run: ${instead}`);
+        return false;
+    }
+
+    const tx = await contract.connect(signer).getFunction(method)(...args) as ContractTransactionResponse;
+    await tx.wait();
+    console.log(`${contractName}.${method} sent by the owner ${signer.address} (tx: ${tx.hash})`);
+    return true;
+}
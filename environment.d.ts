@@ -9,10 +9,17 @@ declare global {
             NERWO_PLATFORM_ADDRESS?: string;
             NERWO_ARBITRATOR_ADDRESS?: string;
             NERWO_ARBITRATORPROXY_ADDRESS?: string;
+            NERWO_TRUSTED_FORWARDER_ADDRESS?: string;
             NERWO_ARBITRATOR_METAEVIDENCEURI?: string;
-            NERWO_ARBITRATION_PRICE: string;
-            NERWO_FEE_RECIPIENT_BASISPOINT: string;
+            NERWO_ARBITRATION_PRICE?: string;
+            NERWO_FEE_RECIPIENT_BASISPOINT?: string;
             NERWO_TOKENS_WHITELIST?: string;
+            NERWO_PROXY?: string;
+            NERWO_DEPLOY_SALT?: string;
+            NERWO_SEED_COUNT?: string;
+            NERWO_SEED_STATES?: string;
+            NERWO_SEED_TOKENS?: string;
+            NERWO_SEED_MANIFEST?: string;
         }
     }
 }
@@ -7,6 +7,8 @@ import '@truffle/dashboard-hardhat-plugin';
 import 'hardhat-gas-reporter';
 import 'hardhat-deploy';
 
+import './tasks';
+
 import * as dotenv from 'dotenv';
 dotenv.config();
 
@@ -35,12 +37,14 @@ const config: HardhatUserConfig = {
   namedAccounts: {
     deployer: 0,
     platform: 1,
-    court: 2
+    court: 2,
+    client: 3,
+    freelancer: 4
   },
   gasReporter: {
     enabled: (process.env.REPORT_GAS) ? true : false,
     coinmarketcap: process.env.COINMARKETCAP_API_KEY,
-    excludeContracts: ['NerwoTetherToken']
+    excludeContracts: ['NerwoTetherToken', 'NerwoPermit2', 'NerwoBlacklistToken', 'NerwoRejectingReceiver']
   },
   /* - for token only deploy
   paths: {
@@ -0,0 +1,166 @@
+import type { NerwoEscrow } from '../typechain-types';
+
+import { decodeEscrowError } from './errors';
+import { Status } from './types';
+
+/** Gas limit of a single batch transaction when not given, well below the block gas limit */
+export const MAX_BATCH_GAS = 10_000_000n;
+
+export type BatchMethod = 'acceptRulings' | 'timeOuts';
+
+export interface SettlementPlan {
+    acceptRulings: bigint[];    /* transactions with a ruled dispute */
+    timeOuts: bigint[];         /* transactions with an expired fee timeout */
+}
+
+/** Transaction IDs of a plan split by `chunkPlan`, one batch transaction per chunk */
+export type SettlementChunks = Record<BatchMethod, bigint[][]>;
+
+export interface BatchResult {
+    method: BatchMethod;
+    transactionID: bigint;
+    success: boolean;           /* false when it was no longer eligible once mined */
+    hash: string;
+}
+
+export interface PlannerOptions {
+    maxGas?: bigint;            /* MAX_BATCH_GAS when omitted */
+}
+
+/**
+ * Picks the transactions that can be settled by anyone, ruled disputes and expired fee timeouts,
+ * and submits them through `acceptRulings` and `timeOuts` in gas bounded chunks.
+ */
+export class SettlementPlanner {
+    private readonly maxGas: bigint;
+
+    /**
+     * @param escrow NerwoEscrow instance, connected to the signer paying the gas to `submit`.
+     */
+    constructor(public readonly escrow: NerwoEscrow, options: PlannerOptions = {}) {
+        this.maxGas = options.maxGas ?? MAX_BATCH_GAS;
+    }
+
+    /**
+     * Read the chain state of `transactionIDs`, every transaction when omitted.
+     */
+    async plan(transactionIDs?: bigint[]): Promise<SettlementPlan> {
+        const { escrow } = this;
+
+        const lastTransaction = await escrow.lastTransaction();
+        if (!transactionIDs) {
+            transactionIDs = Array.from({ length: Number(lastTransaction) }, (_, i) => BigInt(i + 1));
+        }
+
+        const block = await escrow.runner?.provider?.getBlock('latest');
+        if (!block) {
+            throw new Error('Cannot read the latest block');
+        }
+        const { feeTimeout } = await escrow.arbitratorData();
+
+        const plan: SettlementPlan = { acceptRulings: [], timeOuts: [] };
+        // transaction IDs are sequential
+        for (const transactionID of transactionIDs.filter((id) => id > 0n && id <= lastTransaction)) {
+            const { status, lastInteraction } = await escrow.getTransaction(transactionID);
+
+            switch (Number(status)) {
+                case Status.DisputeCreated:
+                    if ((await escrow.fetchRuling(transactionID)).isRuled) {
+                        plan.acceptRulings.push(transactionID);
+                    }
+                    break;
+                case Status.WaitingClient:
+                case Status.WaitingFreelancer:
+                    if (BigInt(block.timestamp) - lastInteraction >= feeTimeout) {
+                        plan.timeOuts.push(transactionID);
+                    }
+                    break;
+            }
+        }
+
+        return plan;
+    }
+
+    /**
+     * Split `transactionIDs` in chunks whose estimated gas fits `maxGas`,
+     * each transaction is estimated alone on top of the cost of an empty batch.
+     */
+    async chunk(method: BatchMethod, transactionIDs: bigint[]): Promise<bigint[][]> {
+        const batch = this.escrow[method];
+        const base = await batch.estimateGas([]);
+
+        const chunks: bigint[][] = [];
+        let current: bigint[] = [];
+        let gas = base;
+        for (const transactionID of transactionIDs) {
+            const cost = await batch.estimateGas([transactionID]) - base;
+            if (current.length && gas + cost > this.maxGas) {
+                chunks.push(current);
+                current = [];
+                gas = base;
+            }
+            current.push(transactionID);
+            gas += cost;
+        }
+
+        if (current.length) {
+            chunks.push(current);
+        }
+        return chunks;
+    }
+
+    /**
+     * Split both methods of `plan` in chunks, see `chunk`.
+     */
+    async chunkPlan(plan: SettlementPlan): Promise<SettlementChunks> {
+        return {
+            acceptRulings: await this.chunk('acceptRulings', plan.acceptRulings),
+            timeOuts: await this.chunk('timeOuts', plan.timeOuts)
+        };
+    }
+
+    /**
+     * Submit `plan` one chunk at a time.
+     * @returns The outcome of every transaction, from the `BatchResult` events.
+     */
+    async submit(plan: SettlementPlan): Promise<BatchResult[]> {
+        return this.submitChunks(await this.chunkPlan(plan));
+    }
+
+    /**
+     * Submit chunks already computed by `chunkPlan`, one transaction each, without estimating them again.
+     * @returns The outcome of every transaction, from the `BatchResult` events.
+     */
+    async submitChunks(chunks: SettlementChunks): Promise<BatchResult[]> {
+        const results: BatchResult[] = [];
+
+        for (const method of ['acceptRulings', 'timeOuts'] as const) {
+            for (const chunk of chunks[method]) {
+                let receipt;
+                try {
+                    const tx = await this.escrow[method](chunk);
+                    receipt = await tx.wait();
+                } catch (error) {
+                    throw decodeEscrowError(this.escrow.interface, error);
+                }
+                if (!receipt) {
+                    throw new Error(`${method} transaction was dropped`);
+                }
+
+                for (const log of receipt.logs) {
+                    const parsed = this.escrow.interface.parseLog({ topics: [...log.topics], data: log.data });
+                    if (parsed?.name === 'BatchResult') {
+                        results.push({
+                            method,
+                            transactionID: parsed.args.transactionID,
+                            success: parsed.args.success,
+                            hash: receipt.hash
+                        });
+                    }
+                }
+            }
+        }
+
+        return results;
+    }
+}
@@ -0,0 +1,291 @@
+import { Contract, ContractTransactionReceipt, ContractTransactionResponse, MaxUint256, Signer } from 'ethers';
+
+import type { NerwoEscrow } from '../typechain-types';
+
+import { decodeEscrowError } from './errors';
+import { EvidenceDocument } from './evidence';
+import { Outcome, previewPayout } from './payout';
+import { signPermit, signPermit2 } from './permit';
+import { NativeToken } from './types';
+
+const ERC20_ABI = [
+    'function allowance(address owner, address spender) view returns (uint256)',
+    'function approve(address spender, uint256 amount) returns (bool)'
+];
+
+export interface CreateTransactionParams {
+    token?: string; // NativeToken when omitted
+    amount: bigint;
+    freelancer: string;
+    releaseTimeout?: number; // seconds after which the freelancer can claim the amount
+}
+
+export interface CreatePermitTransactionParams {
+    token: string;
+    amount: bigint;
+    freelancer: string;
+    validity?: number; // seconds the signature stays valid, PERMIT_VALIDITY when omitted
+}
+
+export const PERMIT_VALIDITY = 3600;
+
+export interface CreateMilestoneTransactionParams {
+    token?: string; // NativeToken when omitted
+    milestones: bigint[];
+    freelancer: string;
+}
+
+export class EscrowClient {
+    /**
+     * @param escrow NerwoEscrow instance connected to the signer acting on behalf of the user.
+     */
+    constructor(public readonly escrow: NerwoEscrow) { }
+
+    get signer(): Signer {
+        const runner = this.escrow.runner as Signer | null;
+        if (!runner || typeof runner.getAddress !== 'function') {
+            throw new Error('EscrowClient requires a contract connected to a Signer');
+        }
+        return runner;
+    }
+
+    /**
+     * Create an escrow, for ERC20 tokens the allowance is checked and raised if needed.
+     * @returns The transactionID of the new escrow.
+     */
+    async createTransaction(
+        { token = NativeToken, amount, freelancer, releaseTimeout }: CreateTransactionParams): Promise<bigint> {
+        const create = (overrides: { value?: bigint }) => releaseTimeout === undefined ?
+            this.escrow.createTransaction(token, amount, freelancer, overrides) :
+            this.escrow.createTransactionWithDeadline(token, amount, freelancer, releaseTimeout, overrides);
+
+        const receipt = await this._send(async () => {
+            if (token === NativeToken) {
+                return create({ value: amount });
+            }
+
+            await this.approve(token, amount);
+            return create({});
+        });
+
+        return this._transactionID(receipt);
+    }
+
+    /**
+     * Create an ERC20 escrow in a single transaction, the allowance is given by a signed EIP-2612 permit.
+     * @returns The transactionID of the new escrow.
+     */
+    async createTransactionWithPermit(
+        { token, amount, freelancer, validity = PERMIT_VALIDITY }: CreatePermitTransactionParams): Promise<bigint> {
+        const receipt = await this._send(async () => {
+            const { deadline, v, r, s } = await signPermit(
+                this.signer, token, await this.escrow.getAddress(), amount, await this._deadline(validity));
+            return this.escrow.createTransactionWithPermit(token, amount, freelancer, deadline, v, r, s);
+        });
+
+        return this._transactionID(receipt);
+    }
+
+    /**
+     * Create an ERC20 escrow in a single transaction signing a Permit2 transfer,
+     * Permit2 itself is approved once for all on the first use of `token`.
+     * @returns The transactionID of the new escrow.
+     */
+    async createTransactionWithPermit2(
+        { token, amount, freelancer, validity = PERMIT_VALIDITY }: CreatePermitTransactionParams): Promise<bigint> {
+        const receipt = await this._send(async () => {
+            const permit2 = await this.escrow.PERMIT2();
+            await this._approve(token, permit2, amount, MaxUint256);
+
+            const { nonce, deadline, signature } = await signPermit2(
+                this.signer, token, await this.escrow.getAddress(), amount, await this._deadline(validity),
+                undefined, permit2);
+            return this.escrow.createTransactionWithPermit2(token, amount, freelancer, nonce, deadline, signature);
+        });
+
+        return this._transactionID(receipt);
+    }
+
+    /**
+     * Create an escrow released or refunded one milestone at a time.
+     * @returns The transactionID of the new escrow.
+     */
+    async createMilestoneTransaction(
+        { token = NativeToken, milestones, freelancer }: CreateMilestoneTransactionParams): Promise<bigint> {
+        const amount = milestones.reduce((a, b) => a + b, 0n);
+
+        const receipt = await this._send(async () => {
+            if (token === NativeToken) {
+                return this.escrow.createMilestoneTransaction(NativeToken, milestones, freelancer, { value: amount });
+            }
+
+            await this.approve(token, amount);
+            return this.escrow.createMilestoneTransaction(token, milestones, freelancer);
+        });
+
+        return this._transactionID(receipt);
+    }
+
+    /**
+     * Make sure the escrow is allowed to pull `amount` of `token` from the signer.
+     */
+    async approve(token: string, amount: bigint) {
+        await this._approve(token, await this.escrow.getAddress(), amount, amount);
+    }
+
+    /**
+     * Pay the freelancer, the whole transaction amount when `amount` is omitted.
+     */
+    async pay(transactionID: bigint, amount?: bigint) {
+        const value = amount ?? (await this.getTransaction(transactionID)).amount;
+        return this._send(() => this.escrow.pay(transactionID, value));
+    }
+
+    /**
+     * Reimburse the client, the whole transaction amount when `amount` is omitted.
+     */
+    async reimburse(transactionID: bigint, amount?: bigint) {
+        const value = amount ?? (await this.getTransaction(transactionID)).amount;
+        return this._send(() => this.escrow.reimburse(transactionID, value));
+    }
+
+    async claim(transactionID: bigint) {
+        return this._send(() => this.escrow.claim(transactionID));
+    }
+
+    async payMilestone(transactionID: bigint, milestone: number) {
+        return this._send(() => this.escrow.payMilestone(transactionID, milestone));
+    }
+
+    async reimburseMilestone(transactionID: bigint, milestone: number) {
+        return this._send(() => this.escrow.reimburseMilestone(transactionID, milestone));
+    }
+
+    async payArbitrationFee(transactionID: bigint) {
+        return this._send(async () => {
+            const value = await this.escrow.getArbitrationCost();
+            return this.escrow.payArbitrationFee(transactionID, { value });
+        });
+    }
+
+    async timeOut(transactionID: bigint) {
+        return this._send(() => this.escrow.timeOut(transactionID));
+    }
+
+    async acceptRuling(transactionID: bigint) {
+        return this._send(() => this.escrow.acceptRuling(transactionID));
+    }
+
+    /**
+     * Appeal the ruling of the dispute during its appeal period, paying the appeal cost.
+     */
+    async appeal(transactionID: bigint) {
+        return this._send(async () => {
+            const value = await this.escrow.getAppealCost(transactionID);
+            return this.escrow.appeal(transactionID, { value });
+        });
+    }
+
+    /**
+     * Submit evidence for the dispute of the transaction, built with `buildEvidence`
+     * or any already published evidence URI.
+     */
+    async submitEvidence(transactionID: bigint, evidence: EvidenceDocument | string) {
+        const uri = typeof evidence === 'string' ? evidence : evidence.uri;
+        return this._send(() => this.escrow.submitEvidence(transactionID, uri));
+    }
+
+    /**
+     * Withdraw the amounts of the payouts to the signer that failed, e.g. ether rejected by a contract wallet.
+     */
+    async withdraw(token: string = NativeToken) {
+        return this._send(() => this.escrow.withdraw(token));
+    }
+
+    /**
+     * The amount of the failed payouts to `recipient` waiting to be withdrawn, the signer when omitted.
+     */
+    async getPendingWithdrawal(token: string = NativeToken, recipient?: string) {
+        const account = recipient ?? await this.signer.getAddress();
+        return this._call(() => this.escrow.pendingWithdrawals(account, token));
+    }
+
+    async fetchRuling(transactionID: bigint) {
+        return this._call(() => this.escrow.fetchRuling(transactionID));
+    }
+
+    async getTransaction(transactionID: bigint) {
+        return this._call(() => this.escrow.getTransaction(transactionID));
+    }
+
+    async getMilestones(transactionID: bigint) {
+        return this._call(() => this.escrow.getMilestones(transactionID));
+    }
+
+    async getArbitrationCost() {
+        return this._call(() => this.escrow.getArbitrationCost());
+    }
+
+    async getAppealCost(transactionID: bigint) {
+        return this._call(() => this.escrow.getAppealCost(transactionID));
+    }
+
+    /**
+     * Preview the payouts of closing the transaction with `outcome` at the current fee basis point.
+     * @param amount The partial amount of `pay` or `reimburse`, the whole transaction amount when omitted.
+     */
+    async previewPayout(transactionID: bigint, outcome: Outcome, amount?: bigint) {
+        const transaction = await this.getTransaction(transactionID);
+        const { feeRecipientBasisPoint } = await this._call(() => this.escrow.feeRecipientData());
+        return previewPayout(transaction, feeRecipientBasisPoint, outcome, amount);
+    }
+
+    private async _call<T>(fn: () => Promise<T>): Promise<T> {
+        try {
+            return await fn();
+        } catch (error) {
+            throw decodeEscrowError(this.escrow.interface, error);
+        }
+    }
+
+    private async _send(fn: () => Promise<ContractTransactionResponse>): Promise<ContractTransactionReceipt> {
+        return this._call(async () => {
+            const tx = await fn();
+            const receipt = await tx.wait();
+            if (!receipt) {
+                throw new Error(`Transaction ${tx.hash} was dropped`);
+            }
+            return receipt;
+        });
+    }
+
+    private async _approve(token: string, spender: string, amount: bigint, value: bigint) {
+        const erc20 = new Contract(token, ERC20_ABI, this.signer);
+        const allowance: bigint = await erc20.allowance(await this.signer.getAddress(), spender);
+
+        if (allowance < amount) {
+            const tx: ContractTransactionResponse = await erc20.approve(spender, value);
+            await tx.wait();
+        }
+    }
+
+    // chain time rather than the local clock, they differ on test networks
+    private async _deadline(validity: number): Promise<bigint> {
+        const block = await this.signer.provider?.getBlock('latest');
+        if (!block) {
+            throw new Error('Cannot read the latest block');
+        }
+        return BigInt(block.timestamp + validity);
+    }
+
+    private _transactionID(receipt: ContractTransactionReceipt): bigint {
+        for (const log of receipt.logs) {
+            const parsed = this.escrow.interface.parseLog({ topics: [...log.topics], data: log.data });
+            if (parsed?.name === 'TransactionCreated') {
+                return parsed.args.transactionID;
+            }
+        }
+
+        throw new Error('TransactionCreated event not found');
+    }
+}
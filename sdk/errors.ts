@@ -0,0 +1,99 @@
+import { Interface, isHexString } from 'ethers';
+
+/**
+ * Base class for every decoded NerwoEscrow revert.
+ * `errorName` is the solidity custom error name, `args` its decoded arguments.
+ */
+export class EscrowError extends Error {
+    constructor(
+        public readonly errorName: string,
+        public readonly args: readonly unknown[] = [],
+        public readonly cause?: unknown) {
+        super(args.length ? `${errorName}(${args.join(', ')})` : errorName);
+        this.name = new.target.name;
+    }
+}
+
+export class NullAddressError extends EscrowError { }
+export class NoTimeoutError extends EscrowError { }
+export class InvalidCallerError extends EscrowError { }
+export class InvalidStatusError extends EscrowError { }
+export class InvalidAmountError extends EscrowError { }
+export class TokenTransferFailedError extends EscrowError { }
+export class AlreadyPaidError extends EscrowError { }
+export class InvalidTransactionError extends EscrowError { }
+export class InvalidTokenError extends EscrowError { }
+export class InvalidFeeBasisPointError extends EscrowError { }
+export class NotRuledError extends EscrowError { }
+export class InvalidMilestoneError extends EscrowError { }
+export class InvalidDeadlineError extends EscrowError { }
+export class TransferFailedError extends EscrowError { }
+export class UnauthorizedAccountError extends EscrowError { }
+export class InvalidOwnerError extends EscrowError { }
+export class ReentrantCallError extends EscrowError { }
+
+const ERRORS: Record<string, typeof EscrowError> = {
+    NullAddress: NullAddressError,
+    NoTimeout: NoTimeoutError,
+    InvalidCaller: InvalidCallerError,
+    InvalidStatus: InvalidStatusError,
+    InvalidAmount: InvalidAmountError,
+    TokenTransferFailed: TokenTransferFailedError,
+    AlreadyPaid: AlreadyPaidError,
+    InvalidTransaction: InvalidTransactionError,
+    InvalidToken: InvalidTokenError,
+    InvalidFeeBasisPoint: InvalidFeeBasisPointError,
+    NotRuled: NotRuledError,
+    InvalidMilestone: InvalidMilestoneError,
+    InvalidDeadline: InvalidDeadlineError,
+    TransferFailed: TransferFailedError,
+    OwnableUnauthorizedAccount: UnauthorizedAccountError,
+    OwnableInvalidOwner: InvalidOwnerError,
+    ReentrancyGuardReentrantCall: ReentrantCallError
+};
+
+// ethers and the various providers nest the revert payload differently
+function findRevertData(error: unknown, depth = 0): string | undefined {
+    if (!error || typeof error !== 'object' || depth > 5) {
+        return undefined;
+    }
+
+    const nested = error as Record<string, unknown>;
+    if (isHexString(nested.data) && nested.data.length >= 10) {
+        return nested.data;
+    }
+
+    for (const key of ['error', 'info', 'cause']) {
+        const data = findRevertData(nested[key], depth + 1);
+        if (data) {
+            return data;
+        }
+    }
+
+    return undefined;
+}
+
+/**
+ * Decode a revert raised by a call to NerwoEscrow into a typed exception.
+ * @param iface The contract interface, usually `escrow.interface`.
+ * @param error The error thrown by ethers.
+ * @returns The matching EscrowError subclass, or the original error if it cannot be decoded.
+ */
+export function decodeEscrowError(iface: Interface, error: unknown): unknown {
+    if (error instanceof EscrowError) {
+        return error;
+    }
+
+    const data = findRevertData(error);
+    if (!data) {
+        return error;
+    }
+
+    const parsed = iface.parseError(data);
+    if (!parsed) {
+        return error;
+    }
+
+    const ErrorClass = ERRORS[parsed.name] || EscrowError;
+    return new ErrorClass(parsed.name, parsed.args.toArray(), error);
+}
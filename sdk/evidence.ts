@@ -0,0 +1,61 @@
+import { keccak256, toUtf8Bytes } from 'ethers';
+
+/** Prefix of the content addressed URIs, the files are served by hash */
+export const EVIDENCE_PATH = '/evidence/';
+
+/** ERC-1497 evidence JSON */
+export interface Evidence {
+    name: string;
+    description?: string;
+    fileURI?: string;
+    fileHash?: string;          /* keccak256 of the file */
+    fileTypeExtension?: string;
+}
+
+export interface EvidenceParams {
+    name: string;
+    description?: string;
+    file?: Uint8Array;          /* attachment, hashed into fileHash */
+    fileURI?: string;           /* where the attachment is served, content addressed when omitted */
+    fileTypeExtension?: string;
+}
+
+export interface EvidenceDocument {
+    evidence: Evidence;
+    json: string;               /* exact bytes to serve at `uri` */
+    hash: string;               /* keccak256 of `json` */
+    uri: string;                /* to pass to `submitEvidence` */
+}
+
+/**
+ * Content addressed URI of `hash`, e.g. `/evidence/<hash>.json`.
+ */
+export function evidenceURI(hash: string, extension?: string) {
+    return `${EVIDENCE_PATH}${hash.slice(2)}${extension ? `.${extension}` : ''}`;
+}
+
+/**
+ * Build the ERC-1497 evidence JSON of a submission and its content addressed URI.
+ * Keys are always in the same order, so the same evidence always gets the same URI.
+ */
+export function buildEvidence(
+    { name, description, file, fileURI, fileTypeExtension }: EvidenceParams): EvidenceDocument {
+    const fileHash = file ? keccak256(file) : undefined;
+    if (fileHash && !fileURI) {
+        fileURI = evidenceURI(fileHash, fileTypeExtension);
+    }
+
+    // JSON.stringify drops the undefined values
+    const evidence: Evidence = { name, description, fileURI, fileHash, fileTypeExtension };
+    const json = JSON.stringify(evidence);
+    const hash = keccak256(toUtf8Bytes(json));
+
+    return { evidence: JSON.parse(json), json, hash, uri: evidenceURI(hash, 'json') };
+}
+
+/**
+ * Check that `json` is the document addressed by `uri`.
+ */
+export function verifyEvidence(uri: string, json: string) {
+    return uri === evidenceURI(keccak256(toUtf8Bytes(json)), 'json');
+}
@@ -0,0 +1,16 @@
+export * from './batch';
+export * from './client';
+export * from './errors';
+export * from './evidence';
+export * from './metaevidence';
+export * from './payout';
+export * from './permit';
+export * from './relayer';
+export * from './report';
+export * from './types';
+
+// runtime imports of the generated typechain types, the hardhat tasks import the sdk modules they use instead
+export type { NerwoCentralizedArbitrator, NerwoEscrow, NerwoForwarder } from '../typechain-types';
+export {
+    NerwoCentralizedArbitrator__factory, NerwoEscrow__factory, NerwoForwarder__factory
+} from '../typechain-types';
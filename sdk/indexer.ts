@@ -0,0 +1,299 @@
+import { promises as fs } from 'node:fs';
+import { BaseContract, EventLog, Provider } from 'ethers';
+
+import type { NerwoEscrow } from '../typechain-types';
+
+import { Outcome, previewPayout } from './payout';
+import { Ruling, Status } from './types';
+
+export interface EscrowRecord {
+    transactionID: bigint;
+    client: string;
+    freelancer: string;
+    token: string;
+    amount: bigint; // amount still held in escrow
+    status: Status;
+    ruling: number;
+    disputeID?: bigint;
+    paid: bigint; // sent to the freelancer, net of fees, by payments, rulings and timeouts
+    reimbursed: bigint; // sent back to the client by reimbursements, rulings and timeouts
+    fees: bigint; // sent to the fee recipient
+    createdAt: number; // block number
+    updatedAt: number; // block number
+}
+
+export interface IndexerState {
+    chainId: bigint;
+    escrow: string;
+    lastBlock: number;
+    lastBlockHash?: string;
+    transactions: Record<string, EscrowRecord>;
+}
+
+export interface IndexerStore<T = IndexerState> {
+    load(): Promise<T | undefined>;
+    save(state: T): Promise<void>;
+}
+
+export interface IndexerOptions {
+    fromBlock?: number; // usually the deployment block
+    chunkSize?: number; // blocks per eth_getLogs request
+    confirmations?: number; // blocks to trail the head, reorgs within this depth are never seen
+}
+
+const replacer = (_: string, value: unknown) => typeof value === 'bigint' ? `${value}n` : value;
+const reviver = (_: string, value: unknown) =>
+    (typeof value === 'string' && /^\d+n$/.test(value)) ? BigInt(value.slice(0, -1)) : value;
+
+/** Persists the indexer state in a JSON file. */
+export class JsonStore<T = IndexerState> implements IndexerStore<T> {
+    constructor(public readonly path: string) { }
+
+    async load() {
+        try {
+            return JSON.parse(await fs.readFile(this.path, 'utf8'), reviver) as T;
+        } catch (error: unknown) {
+            if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+                return undefined;
+            }
+            throw error;
+        }
+    }
+
+    async save(state: T) {
+        const tmp = `${this.path}.tmp`;
+        await fs.writeFile(tmp, JSON.stringify(state, replacer, 2));
+        await fs.rename(tmp, this.path);
+    }
+}
+
+/** Keeps the indexer state in memory, mainly for tests. */
+export class MemoryStore<T = IndexerState> implements IndexerStore<T> {
+    private state?: string;
+
+    async load() {
+        return this.state ? JSON.parse(this.state, reviver) as T : undefined;
+    }
+
+    async save(state: T) {
+        this.state = JSON.stringify(state, replacer);
+    }
+}
+
+// statuses left only by a ruling or a timeout, see _resolve()
+const IN_DISPUTE = [Status.WaitingClient, Status.WaitingFreelancer, Status.DisputeCreated];
+
+/**
+ * Rebuilds the NerwoEscrow transaction history from its events.
+ * Rulings and timeouts have no dedicated event: they are recognized by the fee recipient payment or the
+ * batch result they emit, else by the state of the last indexed block, so no historical state is read.
+ */
+export class EscrowIndexer {
+    private state?: IndexerState;
+
+    private readonly fromBlock: number;
+    private readonly chunkSize: number;
+    private readonly confirmations: number;
+
+    constructor(public readonly escrow: NerwoEscrow, private readonly store: IndexerStore, options: IndexerOptions = {}) {
+        this.fromBlock = options.fromBlock ?? 0;
+        this.chunkSize = options.chunkSize ?? 2_000;
+        this.confirmations = options.confirmations ?? 12;
+    }
+
+    private get provider(): Provider {
+        const provider = this.escrow.runner?.provider;
+        if (!provider) {
+            throw new Error('EscrowIndexer requires a contract connected to a Provider');
+        }
+        return provider;
+    }
+
+    private async _initialState(): Promise<IndexerState> {
+        const { chainId } = await this.provider.getNetwork();
+        return {
+            chainId,
+            escrow: await this.escrow.getAddress(),
+            lastBlock: this.fromBlock - 1,
+            transactions: {}
+        };
+    }
+
+    private async _loadState() {
+        if (this.state) {
+            return this.state;
+        }
+
+        const state = await this.store.load();
+        const { chainId } = await this.provider.getNetwork();
+        if (state && (state.chainId !== chainId || state.escrow !== await this.escrow.getAddress())) {
+            throw new Error(`Stored state belongs to ${state.escrow} on chain ${state.chainId}`);
+        }
+
+        this.state = state || await this._initialState();
+        return this.state;
+    }
+
+    /**
+     * Index up to the last confirmed block, resuming from the stored state.
+     * If the last indexed block is no longer part of the chain, the index is rebuilt from scratch.
+     * @returns The last indexed block.
+     */
+    async sync(): Promise<number> {
+        let state = await this._loadState();
+
+        if (state.lastBlockHash !== undefined) {
+            const block = await this.provider.getBlock(state.lastBlock);
+            if (block?.hash !== state.lastBlockHash) {
+                state = this.state = await this._initialState();
+            }
+        }
+
+        const head = await this.provider.getBlockNumber() - this.confirmations;
+
+        while (state.lastBlock < head) {
+            const fromBlock = state.lastBlock + 1;
+            const toBlock = Math.min(fromBlock + this.chunkSize - 1, head);
+
+            const events = await (this.escrow as BaseContract).queryFilter('*', fromBlock, toBlock);
+            events.sort((a, b) => (a.blockNumber - b.blockNumber) || (a.index - b.index));
+            for (const event of events) {
+                if (event instanceof EventLog) {
+                    await this._reduce(state, event);
+                }
+            }
+
+            if (toBlock === head) {
+                await this._reconcile(state, toBlock);
+            }
+
+            state.lastBlock = toBlock;
+            state.lastBlockHash = (await this.provider.getBlock(toBlock))!.hash!;
+            await this.store.save(state);
+        }
+
+        return state.lastBlock;
+    }
+
+    private async _reduce(state: IndexerState, event: EventLog) {
+        const id = event.args[0] as bigint;
+
+        if (event.eventName === 'TransactionCreated') {
+            const [, client, freelancer, token, amount] = event.args;
+            state.transactions[id.toString()] = {
+                transactionID: id,
+                client,
+                freelancer,
+                token,
+                amount,
+                status: Status.NoDispute,
+                ruling: 0,
+                paid: 0n,
+                reimbursed: 0n,
+                fees: 0n,
+                createdAt: event.blockNumber,
+                updatedAt: event.blockNumber
+            };
+            return;
+        }
+
+        const record = state.transactions[id.toString()];
+        if (!record) {
+            return; // admin events or unknown transaction
+        }
+
+        switch (event.eventName) {
+            case 'Payment':
+                record.paid += event.args.amount;
+                record.amount -= event.args.amount;
+                break;
+            case 'Reimburse':
+                record.reimbursed += event.args.amount;
+                record.amount -= event.args.amount;
+                break;
+            case 'FeeRecipientPayment':
+                if (IN_DISPUTE.includes(record.status)) {
+                    await this._resolve(record, event.args.amount, event.blockNumber);
+                    return;
+                }
+                record.fees += event.args.amount;
+                record.amount -= event.args.amount;
+                break;
+            case 'BatchResult':
+                // after the FeeRecipientPayment of the same item, if any
+                if (event.args.success && IN_DISPUTE.includes(record.status)) {
+                    await this._resolve(record, 0n, event.blockNumber);
+                }
+                return;
+            case 'HasToPayFee':
+                record.status = event.args.party === record.client ? Status.WaitingClient : Status.WaitingFreelancer;
+                break;
+            case 'DisputeCreated':
+                record.status = Status.DisputeCreated;
+                record.disputeID = event.args.disputeID;
+                break;
+            default:
+                return;
+        }
+
+        record.updatedAt = event.blockNumber;
+    }
+
+    /**
+     * Close `record` with the payout of its ruling or timeout.
+     * @param fee The FeeRecipientPayment of the resolution, the basis point may have changed since the creation.
+     * @param ruling The executed ruling, read from the escrow when the record was in dispute.
+     */
+    private async _resolve(record: EscrowRecord, fee: bigint, blockNumber: number, ruling?: number) {
+        let outcome: Outcome = 'timeout';
+        if (record.status === Status.DisputeCreated) {
+            // a resolved transaction never changes again, the latest state has the executed ruling
+            ruling ??= Number((await this.escrow.getTransaction(record.transactionID)).ruling);
+            outcome = ruling as Ruling;
+        } else {
+            ruling = record.status === Status.WaitingClient ? Ruling.FreelancerWins : Ruling.ClientWins;
+        }
+
+        // no fee deducted here, the one actually paid comes from the event
+        const payout = previewPayout({ status: record.status, amount: record.amount, clientFee: 0n, freelancerFee: 0n },
+            0n, outcome);
+        record.paid += payout.freelancer - fee;
+        record.reimbursed += payout.client;
+        record.fees += fee;
+        record.amount = 0n;
+        record.status = Status.Resolved;
+        record.ruling = ruling;
+        record.updatedAt = blockNumber;
+    }
+
+    /**
+     * Rulings and timeouts without fee, executed one at a time, emit no event at all,
+     * so the transactions still in dispute are checked at `blockTag`, the last indexed block.
+     * It trails the head by the confirmations only, any full node serves its state.
+     */
+    private async _reconcile(state: IndexerState, blockTag: number) {
+        for (const record of Object.values(state.transactions)) {
+            if (!IN_DISPUTE.includes(record.status)) {
+                continue;
+            }
+
+            const transaction = await this.escrow.getTransaction(record.transactionID, { blockTag });
+            if (Number(transaction.status) === Status.Resolved) {
+                await this._resolve(record, 0n, blockTag, Number(transaction.ruling));
+            }
+        }
+    }
+
+    /** Indexed transaction, if any */
+    async getTransaction(transactionID: bigint): Promise<EscrowRecord | undefined> {
+        return (await this._loadState()).transactions[transactionID.toString()];
+    }
+
+    /** All indexed transactions where `address` is either the client or the freelancer */
+    async getTransactionsOf(address: string): Promise<EscrowRecord[]> {
+        const { transactions } = await this._loadState();
+        const party = address.toLowerCase();
+        return Object.values(transactions).filter((record) =>
+            record.client.toLowerCase() === party || record.freelancer.toLowerCase() === party);
+    }
+}
@@ -0,0 +1,402 @@
+import { BaseContract, EventLog, Provider, Signer, TransactionReceipt } from 'ethers';
+
+import type { NerwoCentralizedArbitrator, NerwoEscrow } from '../typechain-types';
+
+import { BatchMethod, SettlementPlanner } from './batch';
+import { decodeEscrowError } from './errors';
+import { IndexerStore } from './indexer';
+import { Status } from './types';
+
+export type JobStatus =
+    'pending' |     /* waiting for `notBefore` or for its batch to be mined */
+    'done' |        /* settled by the keeper */
+    'stale' |       /* settled by someone else or no longer eligible */
+    'failed';       /* gave up after `maxAttempts` */
+
+export interface KeeperJob {
+    transactionID: bigint;
+    action: BatchMethod;
+    notBefore: number;          /* unix time the job becomes eligible */
+    status: JobStatus;
+    attempts: number;
+    hash?: string;              /* transaction that settled it */
+    error?: string;             /* last failure */
+}
+
+export interface InflightBatch {
+    method: BatchMethod;
+    transactionIDs: bigint[];
+    nonce: number;
+    gasLimit: bigint;
+    maxFeePerGas?: bigint;      /* EIP-1559 fees, when the chain reports them */
+    maxPriorityFeePerGas?: bigint;
+    gasPrice?: bigint;          /* legacy transaction otherwise */
+    hashes: string[];           /* every fee bump sent so far, same nonce */
+}
+
+export interface KeeperState {
+    chainId: bigint;
+    escrow: string;
+    lastBlock: number;
+    disputes: Record<string, bigint>;   /* disputeID => transactionID */
+    jobs: Record<string, KeeperJob>;    /* `${action}:${transactionID}` => job */
+    inflight?: InflightBatch;           /* batch sent and not yet mined, resumed after a restart */
+}
+
+export interface KeeperOptions {
+    fromBlock?: number;         /* usually the deployment block */
+    chunkSize?: number;         /* blocks per eth_getLogs request */
+    confirmations?: number;     /* blocks to trail the head */
+    maxGas?: bigint;            /* gas limit of each batch, see SettlementPlanner */
+    bumpAfter?: number;         /* ms to wait for a batch to be mined before bumping its fees */
+    bumpPercent?: bigint;       /* fee increase of each bump */
+    maxBumps?: number;          /* bumps before giving up on a batch */
+    pollInterval?: number;      /* ms between receipt lookups */
+    retryDelay?: number;        /* seconds before retrying a failed job */
+    maxAttempts?: number;       /* failures before a job is marked as failed */
+}
+
+export interface KeeperResult {
+    action: BatchMethod;
+    transactionID: bigint;
+    status: JobStatus;
+    hash?: string;
+}
+
+// a job is stale once its transaction leaves these statuses
+const ELIGIBLE: Record<BatchMethod, Status[]> = {
+    acceptRulings: [Status.DisputeCreated],
+    timeOuts: [Status.WaitingClient, Status.WaitingFreelancer]
+};
+
+const jobKey = (action: BatchMethod, transactionID: bigint) => `${action}:${transactionID}`;
+
+const sleep = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+/**
+ * Finalizes the ruled disputes and the expired fee timeouts without waiting for the parties.
+ *
+ * `sync()` schedules a job for every `Ruling` of the arbitrator, due at the end of its appeal period,
+ * and for every `HasToPayFee` of the escrow; `run()` settles the due jobs through `acceptRulings`
+ * and `timeOuts`, bumping the fees of the batches that are not mined in time.
+ * Jobs and in-flight batches are persisted, so a restarted keeper neither loses a job
+ * nor sends the same batch twice.
+ */
+export class Keeper {
+    private state?: KeeperState;
+    private readonly planner: SettlementPlanner;
+
+    private readonly fromBlock: number;
+    private readonly chunkSize: number;
+    private readonly confirmations: number;
+    private readonly bumpAfter: number;
+    private readonly bumpPercent: bigint;
+    private readonly maxBumps: number;
+    private readonly pollInterval: number;
+    private readonly retryDelay: number;
+    private readonly maxAttempts: number;
+
+    /**
+     * @param escrow NerwoEscrow instance, connected to the signer paying the gas.
+     * @param arbitrator The contract emitting the `Ruling` events, the arbitrator proxy of the escrow.
+     */
+    constructor(
+        public readonly escrow: NerwoEscrow,
+        public readonly arbitrator: NerwoCentralizedArbitrator,
+        private readonly store: IndexerStore<KeeperState>,
+        options: KeeperOptions = {}) {
+        this.planner = new SettlementPlanner(escrow, { maxGas: options.maxGas });
+        this.fromBlock = options.fromBlock ?? 0;
+        this.chunkSize = options.chunkSize ?? 2_000;
+        this.confirmations = options.confirmations ?? 12;
+        this.bumpAfter = options.bumpAfter ?? 60_000;
+        this.bumpPercent = options.bumpPercent ?? 20n;
+        this.maxBumps = options.maxBumps ?? 5;
+        this.pollInterval = options.pollInterval ?? 4_000;
+        this.retryDelay = options.retryDelay ?? 300;
+        this.maxAttempts = options.maxAttempts ?? 5;
+    }
+
+    private get provider(): Provider {
+        const provider = this.escrow.runner?.provider;
+        if (!provider) {
+            throw new Error('Keeper requires a contract connected to a Signer');
+        }
+        return provider;
+    }
+
+    private get signer(): Signer {
+        return this.escrow.runner as Signer;
+    }
+
+    private async _loadState() {
+        if (this.state) {
+            return this.state;
+        }
+
+        const state = await this.store.load();
+        const { chainId } = await this.provider.getNetwork();
+        const escrow = await this.escrow.getAddress();
+        if (state && (state.chainId !== chainId || state.escrow !== escrow)) {
+            throw new Error(`Stored state belongs to ${state.escrow} on chain ${state.chainId}`);
+        }
+
+        this.state = state || { chainId, escrow, lastBlock: this.fromBlock - 1, disputes: {}, jobs: {} };
+        return this.state;
+    }
+
+    private async _now() {
+        const block = await this.provider.getBlock('latest');
+        if (!block) {
+            throw new Error('Cannot read the latest block');
+        }
+        return block.timestamp;
+    }
+
+    /**
+     * Schedule the jobs of the events up to the last confirmed block.
+     * @returns The last scanned block.
+     */
+    async sync(): Promise<number> {
+        const state = await this._loadState();
+        const head = await this.provider.getBlockNumber() - this.confirmations;
+        const { feeTimeout } = await this.escrow.arbitratorData();
+
+        while (state.lastBlock < head) {
+            const fromBlock = state.lastBlock + 1;
+            const toBlock = Math.min(fromBlock + this.chunkSize - 1, head);
+
+            const escrow = this.escrow as BaseContract;
+            const events = [
+                ...await escrow.queryFilter('HasToPayFee', fromBlock, toBlock),
+                ...await escrow.queryFilter('DisputeCreated', fromBlock, toBlock),
+                ...await (this.arbitrator as BaseContract).queryFilter('Ruling', fromBlock, toBlock)
+            ].filter((event): event is EventLog => event instanceof EventLog);
+            events.sort((a, b) => (a.blockNumber - b.blockNumber) || (a.index - b.index));
+
+            for (const event of events) {
+                switch (event.eventName) {
+                    case 'HasToPayFee': {
+                        const { timestamp } = await event.getBlock();
+                        this._schedule(state, 'timeOuts', event.args.transactionID, timestamp + Number(feeTimeout));
+                        break;
+                    }
+                    case 'DisputeCreated': {
+                        const { transactionID, disputeID } = event.args;
+                        state.disputes[disputeID.toString()] = transactionID;
+                        // both fees are paid, nothing left to time out
+                        const job = state.jobs[jobKey('timeOuts', transactionID)];
+                        if (job?.status === 'pending') {
+                            job.status = 'stale';
+                        }
+                        break;
+                    }
+                    case 'Ruling': {
+                        // disputes of other arbitrables are unknown
+                        const transactionID = state.disputes[event.args._disputeID.toString()];
+                        if (transactionID !== undefined) {
+                            // an appealable ruling is final at the end of its appeal period
+                            const { timestamp } = await event.getBlock();
+                            const [, end] = await this.arbitrator.appealPeriod(event.args._disputeID,
+                                { blockTag: event.blockNumber });
+                            this._schedule(state, 'acceptRulings', transactionID, Math.max(timestamp, Number(end)));
+                        }
+                        break;
+                    }
+                }
+            }
+
+            state.lastBlock = toBlock;
+            await this.store.save(state);
+        }
+
+        return state.lastBlock;
+    }
+
+    private _schedule(state: KeeperState, action: BatchMethod, transactionID: bigint, notBefore: number) {
+        const key = jobKey(action, transactionID);
+        const job = state.jobs[key];
+        if (!job) {
+            state.jobs[key] = { transactionID, action, notBefore, status: 'pending', attempts: 0 };
+        } else if (job.status === 'pending') {
+            // e.g. a new ruling after an appeal
+            job.notBefore = Math.max(job.notBefore, notBefore);
+        }
+    }
+
+    /** Pending jobs, sorted by due time */
+    async pendingJobs(): Promise<KeeperJob[]> {
+        const { jobs } = await this._loadState();
+        return Object.values(jobs).filter((job) => job.status === 'pending')
+            .sort((a, b) => a.notBefore - b.notBefore);
+    }
+
+    /** Stored job, if any */
+    async getJob(action: BatchMethod, transactionID: bigint): Promise<KeeperJob | undefined> {
+        return (await this._loadState()).jobs[jobKey(action, transactionID)];
+    }
+
+    /**
+     * Settle the due jobs, after resuming the batch left in flight by a previous run.
+     * @returns The jobs updated by this run.
+     */
+    async run(): Promise<KeeperResult[]> {
+        const state = await this._loadState();
+        const results: KeeperResult[] = [];
+
+        if (state.inflight) {
+            results.push(...await this._execute(state, state.inflight));
+        }
+
+        const now = await this._now();
+        const due = Object.values(state.jobs).filter((job) => job.status === 'pending' && job.notBefore <= now);
+
+        for (const method of ['acceptRulings', 'timeOuts'] as const) {
+            const jobs = due.filter((job) => job.action === method);
+            if (!jobs.length) {
+                continue;
+            }
+
+            const plan = await this.planner.plan(jobs.map((job) => job.transactionID));
+            for (const job of jobs) {
+                if (plan[method].includes(job.transactionID)) {
+                    continue;
+                }
+                // e.g. accepted by a party, otherwise it's retried on the next run
+                const { status } = await this.escrow.getTransaction(job.transactionID);
+                if (!ELIGIBLE[method].includes(Number(status))) {
+                    job.status = 'stale';
+                    results.push(this._result(job));
+                }
+            }
+
+            for (const chunk of await this.planner.chunk(method, plan[method])) {
+                state.inflight = {
+                    method,
+                    transactionIDs: chunk,
+                    nonce: await this.signer.getNonce('pending'),
+                    gasLimit: await this.escrow[method].estimateGas(chunk),
+                    ...await this._fees(),
+                    hashes: []
+                };
+                results.push(...await this._execute(state, state.inflight));
+            }
+        }
+
+        await this.store.save(state);
+        return results;
+    }
+
+    private _result({ action, transactionID, status, hash }: KeeperJob): KeeperResult {
+        return { action, transactionID, status, hash };
+    }
+
+    /**
+     * Send `batch` until mined and update its jobs from the `BatchResult` events.
+     * On failure the jobs are rescheduled after `retryDelay`.
+     */
+    private async _execute(state: KeeperState, batch: InflightBatch): Promise<KeeperResult[]> {
+        const jobs = batch.transactionIDs.map((transactionID) => state.jobs[jobKey(batch.method, transactionID)]);
+
+        try {
+            const receipt = await this._send(state, batch);
+            if (receipt.status !== 1) {
+                throw new Error(`${batch.method} transaction ${receipt.hash} reverted`);
+            }
+
+            const settled = new Set<bigint>();
+            for (const log of receipt.logs) {
+                const parsed = this.escrow.interface.parseLog({ topics: [...log.topics], data: log.data });
+                if (parsed?.name === 'BatchResult' && parsed.args.success) {
+                    settled.add(parsed.args.transactionID);
+                }
+            }
+
+            for (const job of jobs) {
+                job.status = settled.has(job.transactionID) ? 'done' : 'stale';
+                job.hash = receipt.hash;
+            }
+        } catch (error) {
+            const { message } = decodeEscrowError(this.escrow.interface, error) as Error;
+            const now = await this._now();
+            for (const job of jobs) {
+                job.attempts++;
+                job.error = message;
+                job.notBefore = now + this.retryDelay;
+                if (job.attempts >= this.maxAttempts) {
+                    job.status = 'failed';
+                }
+            }
+        }
+
+        state.inflight = undefined;
+        await this.store.save(state);
+        return jobs.map((job) => this._result(job));
+    }
+
+    /**
+     * EIP-1559 fees when the chain reports them, else the legacy gas price.
+     */
+    private async _fees(): Promise<Pick<InflightBatch, 'maxFeePerGas' | 'maxPriorityFeePerGas' | 'gasPrice'>> {
+        const { maxFeePerGas, maxPriorityFeePerGas, gasPrice } = await this.provider.getFeeData();
+        if (maxFeePerGas !== null && maxPriorityFeePerGas !== null) {
+            return { maxFeePerGas, maxPriorityFeePerGas };
+        }
+        if (gasPrice !== null) {
+            return { gasPrice };
+        }
+        throw new Error('The provider reports neither EIP-1559 fees nor a gas price');
+    }
+
+    /**
+     * Send `batch` with the same nonce and higher fees every `bumpAfter` ms, until one of the attempts is mined.
+     * Every attempt is saved before waiting, a restarted keeper looks them up before sending a new one.
+     */
+    private async _send(state: KeeperState, batch: InflightBatch): Promise<TransactionReceipt> {
+        const { provider } = this;
+        const from = await this.signer.getAddress();
+
+        for (;;) {
+            // the nonce is used once an attempt is mined
+            if (await provider.getTransactionCount(from, 'latest') > batch.nonce) {
+                for (const hash of batch.hashes) {
+                    const receipt = await provider.getTransactionReceipt(hash);
+                    if (receipt) {
+                        return receipt;
+                    }
+                }
+                throw new Error(`Nonce ${batch.nonce} was used by another transaction`);
+            }
+
+            if (batch.hashes.length > this.maxBumps) {
+                throw new Error(`${batch.method} not mined after ${this.maxBumps} fee bumps`);
+            }
+
+            if (batch.hashes.length) {
+                const bump = (fee?: bigint) => fee === undefined ? undefined : fee * (100n + this.bumpPercent) / 100n;
+                batch.maxFeePerGas = bump(batch.maxFeePerGas);
+                batch.maxPriorityFeePerGas = bump(batch.maxPriorityFeePerGas);
+                batch.gasPrice = bump(batch.gasPrice);
+            }
+
+            const tx = await this.signer.sendTransaction({
+                ...await this.escrow[batch.method].populateTransaction(batch.transactionIDs),
+                nonce: batch.nonce,
+                gasLimit: batch.gasLimit,
+                maxFeePerGas: batch.maxFeePerGas,
+                maxPriorityFeePerGas: batch.maxPriorityFeePerGas,
+                gasPrice: batch.gasPrice
+            });
+            batch.hashes.push(tx.hash);
+            await this.store.save(state);
+
+            for (let waited = 0; waited < this.bumpAfter; waited += this.pollInterval) {
+                const receipt = await provider.getTransactionReceipt(tx.hash);
+                if (receipt) {
+                    return receipt;
+                }
+                await sleep(this.pollInterval);
+            }
+        }
+    }
+}
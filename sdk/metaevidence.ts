@@ -0,0 +1,164 @@
+import { isHexString, keccak256, toUtf8Bytes } from 'ethers';
+
+import { evidenceURI } from './evidence';
+
+/** Rulings besides 0, mirrors MAX_NUMBER_OF_CHOICES of the arbitrator */
+export const RULING_OPTIONS = 2;
+
+export interface RulingOption {
+    title: string;
+    description: string;
+}
+
+export interface MetaEvidenceTemplate {
+    title: string;
+    description: string;
+    question?: string;
+    category?: string;          /* METAEVIDENCE_CATEGORY when omitted */
+    split?: RulingOption;       /* Ruling.SplitAmount */
+    clientWins?: RulingOption;  /* Ruling.ClientWins */
+    freelancerWins?: RulingOption; /* Ruling.FreelancerWins */
+    terms?: Uint8Array;         /* agreement file, hashed into fileHash */
+    fileURI?: string;           /* where the agreement is served, content addressed when omitted */
+    fileTypeExtension?: string;
+}
+
+/** ERC-1497 MetaEvidence JSON */
+export interface MetaEvidence {
+    title: string;
+    description: string;
+    question: string;
+    category: string;
+    rulingOptions: {
+        type: 'single-select';
+        titles: string[];       /* rulings 1..RULING_OPTIONS */
+        descriptions: string[];
+    };
+    fileURI?: string;
+    fileHash?: string;          /* keccak256 of the file */
+    fileTypeExtension?: string;
+}
+
+export interface MetaEvidenceDocument {
+    metaEvidence: MetaEvidence;
+    json: string;               /* exact bytes to serve at `uri` */
+    hash: string;               /* keccak256 of `json` */
+    uri: string;                /* to pass to `setMetaEvidenceURI` */
+}
+
+export const METAEVIDENCE_CATEGORY = 'Escrow';
+
+export const DEFAULT_QUESTION = 'Which party abided by the terms of the contract?';
+
+export const DEFAULT_RULINGS = {
+    split: {
+        title: 'Split the amount',
+        description: 'Refuse to arbitrate: the amount and the arbitration fees are split between the parties.'
+    },
+    clientWins: {
+        title: 'Refund the client',
+        description: 'The freelancer did not deliver: the amount is reimbursed to the client.'
+    },
+    freelancerWins: {
+        title: 'Pay the freelancer',
+        description: 'The freelancer delivered: the amount is paid to the freelancer, minus the platform fee.'
+    }
+};
+
+/**
+ * Build the ERC-1497 MetaEvidence of the escrow disputes and its content addressed URI.
+ * ERC-1497 reserves ruling 0 to the arbitrator refusing to arbitrate, which the escrow executes as a split:
+ * it has no entry in `rulingOptions` and is described at the end of `description`.
+ */
+export function buildMetaEvidence({
+    title,
+    description,
+    question = DEFAULT_QUESTION,
+    category = METAEVIDENCE_CATEGORY,
+    split = DEFAULT_RULINGS.split,
+    clientWins = DEFAULT_RULINGS.clientWins,
+    freelancerWins = DEFAULT_RULINGS.freelancerWins,
+    terms,
+    fileURI,
+    fileTypeExtension
+}: MetaEvidenceTemplate): MetaEvidenceDocument {
+    const fileHash = terms ? keccak256(terms) : undefined;
+    if (fileHash && !fileURI) {
+        fileURI = evidenceURI(fileHash, fileTypeExtension);
+    }
+
+    // JSON.stringify drops the undefined values
+    const metaEvidence: MetaEvidence = {
+        title,
+        description: `${description}\n\n${split.title}: ${split.description}`,
+        question,
+        category,
+        rulingOptions: {
+            type: 'single-select',
+            titles: [clientWins.title, freelancerWins.title],
+            descriptions: [clientWins.description, freelancerWins.description]
+        },
+        fileURI,
+        fileHash,
+        fileTypeExtension
+    };
+    const json = JSON.stringify(metaEvidence);
+    const hash = keccak256(toUtf8Bytes(json));
+
+    return { metaEvidence: JSON.parse(json), json, hash, uri: evidenceURI(hash, 'json') };
+}
+
+const isText = (value: unknown): value is string => typeof value === 'string' && value.trim() !== '';
+
+/**
+ * Validate a MetaEvidence document against the ERC-1497 schema and the escrow rulings.
+ * @param terms The agreement file, checked against `fileHash` when given.
+ * @returns The validation errors, empty when the document is valid.
+ */
+export function validateMetaEvidence(document: unknown, terms?: Uint8Array): string[] {
+    if (!document || typeof document !== 'object' || Array.isArray(document)) {
+        return ['not a JSON object'];
+    }
+
+    const errors: string[] = [];
+    const { title, description, question, category, rulingOptions, fileURI, fileHash, fileTypeExtension } =
+        document as Record<string, unknown>;
+
+    for (const [name, value] of Object.entries({ title, description, question, category })) {
+        if (!isText(value)) {
+            errors.push(`${name}: expected a non empty string`);
+        }
+    }
+
+    if (!rulingOptions || typeof rulingOptions !== 'object') {
+        errors.push('rulingOptions: missing');
+    } else {
+        const options = rulingOptions as Record<string, unknown>;
+        if (options.type !== 'single-select') {
+            errors.push(`rulingOptions.type: expected single-select, got ${options.type}`);
+        }
+        for (const name of ['titles', 'descriptions']) {
+            const values = options[name];
+            if (!Array.isArray(values) || values.length !== RULING_OPTIONS || !values.every(isText)) {
+                errors.push(
+                    `rulingOptions.${name}: expected ${RULING_OPTIONS} non empty strings, client then freelancer`);
+            }
+        }
+    }
+
+    if (fileURI !== undefined || fileHash !== undefined) {
+        if (!isText(fileURI)) {
+            errors.push('fileURI: expected a non empty string');
+        }
+        if (!isHexString(fileHash, 32)) {
+            errors.push('fileHash: expected a 32 bytes hex string');
+        } else if (terms && keccak256(terms) !== fileHash.toLowerCase()) {
+            errors.push('fileHash: does not match the file');
+        }
+        if (fileTypeExtension !== undefined && !isText(fileTypeExtension)) {
+            errors.push('fileTypeExtension: expected a non empty string');
+        }
+    }
+
+    return errors;
+}
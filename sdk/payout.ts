@@ -0,0 +1,121 @@
+import { InvalidAmountError, InvalidStatusError } from './errors';
+import { Ruling, Status } from './types';
+
+/** Mirrors the NerwoEscrow private constants */
+export const MULTIPLIER_DIVISOR = 10_000n;
+export const MIN_AMOUNT = 10_000n;
+
+/** How the transaction gets closed, a timeout is won by the party that paid the arbitration fee */
+export type Outcome = 'pay' | 'reimburse' | 'claim' | 'timeout' | Ruling;
+
+/** The fields of `NerwoEscrow.getTransaction()` involved in the payout */
+export interface PayoutTransaction {
+    status: Status | bigint | number;
+    amount: bigint;
+    clientFee: bigint;
+    freelancerFee: bigint;
+}
+
+export interface Payout {
+    client: bigint;                     /* transaction token */
+    freelancer: bigint;                 /* transaction token */
+    feeRecipient: bigint;               /* transaction token */
+    burnt: bigint;                      /* transaction token left in the escrow by an uneven split */
+    clientArbitrationFee: bigint;       /* ether refunded to the client */
+    freelancerArbitrationFee: bigint;   /* ether refunded to the freelancer */
+}
+
+/** Mirrors `NerwoEscrow.calculateFeeRecipientAmount()` */
+export function calculateFeeRecipientAmount(amount: bigint, feeRecipientBasisPoint: bigint | number) {
+    return (amount * BigInt(feeRecipientBasisPoint)) / MULTIPLIER_DIVISOR;
+}
+
+/**
+ * Mirrors the `pay` and `reimburse` amount checks: a partial amount and what is left must
+ * both be at least MIN_AMOUNT. Milestone transactions only accept the whole amount, which is not checked here.
+ */
+export function isValidAmount(transactionAmount: bigint, amount: bigint) {
+    if (amount === 0n || amount > transactionAmount) {
+        return false;
+    }
+    return amount === transactionAmount || (amount >= MIN_AMOUNT && transactionAmount - amount >= MIN_AMOUNT);
+}
+
+function executeRuling({ amount, clientFee, freelancerFee }: PayoutTransaction,
+    feeRecipientBasisPoint: bigint | number, ruling: Ruling): Payout {
+    const payout: Payout = {
+        client: 0n, freelancer: 0n, feeRecipient: 0n, burnt: 0n, clientArbitrationFee: 0n, freelancerArbitrationFee: 0n
+    };
+
+    switch (ruling) {
+        case Ruling.ClientWins:
+            payout.client = amount;
+            payout.clientArbitrationFee = clientFee;
+            break;
+        case Ruling.FreelancerWins:
+            payout.feeRecipient = calculateFeeRecipientAmount(amount, feeRecipientBasisPoint);
+            payout.freelancer = amount - payout.feeRecipient;
+            payout.freelancerArbitrationFee = freelancerFee;
+            break;
+        default: {
+            // the fee is taken from the freelancer half, the client fee is split since the other one paid the arbitrator
+            const splitAmount = amount / 2n;
+            payout.feeRecipient = calculateFeeRecipientAmount(splitAmount, feeRecipientBasisPoint);
+            payout.client = splitAmount;
+            payout.freelancer = splitAmount - payout.feeRecipient;
+            payout.burnt = amount - 2n * splitAmount;
+            payout.clientArbitrationFee = clientFee / 2n;
+            payout.freelancerArbitrationFee = clientFee / 2n;
+        }
+    }
+
+    return payout;
+}
+
+/**
+ * Compute what each party receives when `transaction` is closed with `outcome`,
+ * with the same integer math of NerwoEscrow.
+ * @param amount The partial amount of `pay` or `reimburse`, the whole transaction amount when omitted.
+ * @throws InvalidStatusError or InvalidAmountError when the contract would revert.
+ */
+export function previewPayout(transaction: PayoutTransaction, feeRecipientBasisPoint: bigint | number,
+    outcome: Outcome, amount: bigint = transaction.amount): Payout {
+    const status = Number(transaction.status);
+
+    switch (outcome) {
+        case 'pay':
+        case 'reimburse': {
+            if (status !== Status.NoDispute) {
+                throw new InvalidStatusError('InvalidStatus');
+            }
+            if (!isValidAmount(transaction.amount, amount)) {
+                throw new InvalidAmountError('InvalidAmount');
+            }
+            // no arbitration fee can be paid without leaving NoDispute
+            const ruling = outcome === 'pay' ? Ruling.FreelancerWins : Ruling.ClientWins;
+            return executeRuling({ status, amount, clientFee: 0n, freelancerFee: 0n }, feeRecipientBasisPoint, ruling);
+        }
+        case 'claim':
+            // the deadline is not checked
+            if (status !== Status.NoDispute) {
+                throw new InvalidStatusError('InvalidStatus');
+            }
+            if (transaction.amount === 0n) {
+                throw new InvalidAmountError('InvalidAmount');
+            }
+            return executeRuling(transaction, feeRecipientBasisPoint, Ruling.FreelancerWins);
+        case 'timeout':
+            if (status === Status.WaitingFreelancer) {
+                return executeRuling(transaction, feeRecipientBasisPoint, Ruling.ClientWins);
+            }
+            if (status === Status.WaitingClient) {
+                return executeRuling(transaction, feeRecipientBasisPoint, Ruling.FreelancerWins);
+            }
+            throw new InvalidStatusError('InvalidStatus');
+        default:
+            if (status !== Status.DisputeCreated) {
+                throw new InvalidStatusError('InvalidStatus');
+            }
+            return executeRuling(transaction, feeRecipientBasisPoint, outcome);
+    }
+}
@@ -0,0 +1,93 @@
+import { Contract, Signature, Signer, TypedDataDomain, randomBytes, toBigInt } from 'ethers';
+
+/** Uniswap Permit2, deployed at the same address on every chain */
+export const PERMIT2_ADDRESS = '0x000000000022D473030F116dDEE9F6B43aC78BA3';
+
+const ERC20_PERMIT_ABI = [
+    'function name() view returns (string)',
+    'function nonces(address owner) view returns (uint256)',
+    'function eip712Domain() view returns (bytes1 fields, string name, string version, uint256 chainId, address verifyingContract, bytes32 salt, uint256[] extensions)'
+];
+
+const PERMIT_TYPES = {
+    Permit: [
+        { name: 'owner', type: 'address' },
+        { name: 'spender', type: 'address' },
+        { name: 'value', type: 'uint256' },
+        { name: 'nonce', type: 'uint256' },
+        { name: 'deadline', type: 'uint256' }
+    ]
+};
+
+const PERMIT2_TYPES = {
+    PermitTransferFrom: [
+        { name: 'permitted', type: 'TokenPermissions' },
+        { name: 'spender', type: 'address' },
+        { name: 'nonce', type: 'uint256' },
+        { name: 'deadline', type: 'uint256' }
+    ],
+    TokenPermissions: [
+        { name: 'token', type: 'address' },
+        { name: 'amount', type: 'uint256' }
+    ]
+};
+
+export interface PermitSignature {
+    deadline: bigint;
+    v: number;
+    r: string;
+    s: string;
+}
+
+export interface Permit2Signature {
+    nonce: bigint;
+    deadline: bigint;
+    signature: string;
+}
+
+async function chainId(signer: Signer) {
+    if (!signer.provider) {
+        throw new Error('Signing a permit requires a Signer connected to a provider');
+    }
+    return (await signer.provider.getNetwork()).chainId;
+}
+
+/**
+ * Sign an EIP-2612 permit allowing `spender` to pull `amount` of `token` from the signer.
+ * The domain is read through EIP-5267 when the token supports it, else version '1' is assumed.
+ */
+export async function signPermit(
+    signer: Signer, token: string, spender: string, amount: bigint, deadline: bigint): Promise<PermitSignature> {
+    const erc20 = new Contract(token, ERC20_PERMIT_ABI, signer);
+    const owner = await signer.getAddress();
+
+    let domain: TypedDataDomain;
+    try {
+        const { name, version, chainId, verifyingContract } = await erc20.eip712Domain();
+        domain = { name, version, chainId, verifyingContract };
+    } catch (_) {
+        domain = { name: await erc20.name(), version: '1', chainId: await chainId(signer), verifyingContract: token };
+    }
+
+    const nonce: bigint = await erc20.nonces(owner);
+    const signature = await signer.signTypedData(domain, PERMIT_TYPES,
+        { owner, spender, value: amount, nonce, deadline });
+
+    const { v, r, s } = Signature.from(signature);
+    return { deadline, v, r, s };
+}
+
+/**
+ * Sign a Permit2 `PermitTransferFrom` allowing `spender` to pull `amount` of `token` from the signer once.
+ * The signer must have approved Permit2 on `token`.
+ * @param nonce Permit2 nonces are unordered, a random one is used when omitted.
+ */
+export async function signPermit2(
+    signer: Signer, token: string, spender: string, amount: bigint, deadline: bigint,
+    nonce: bigint = toBigInt(randomBytes(32)), permit2: string = PERMIT2_ADDRESS): Promise<Permit2Signature> {
+    const domain = { name: 'Permit2', chainId: await chainId(signer), verifyingContract: permit2 };
+    const signature = await signer.signTypedData(domain, PERMIT2_TYPES,
+        { permitted: { token, amount }, spender, nonce, deadline });
+
+    return { nonce, deadline, signature };
+}
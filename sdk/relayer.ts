@@ -0,0 +1,129 @@
+import { ContractTransactionReceipt, Signer, concat } from 'ethers';
+
+import type { NerwoEscrow, NerwoForwarder } from '../typechain-types';
+
+import { EscrowError, decodeEscrowError } from './errors';
+
+/** Gas forwarded to the escrow when not given, enough for a dispute creation */
+export const FORWARD_GAS = 500_000n;
+
+/** Seconds a signed request stays valid when not given */
+export const FORWARD_VALIDITY = 3600;
+
+const FORWARD_REQUEST_TYPES = {
+    ForwardRequest: [
+        { name: 'from', type: 'address' },
+        { name: 'to', type: 'address' },
+        { name: 'value', type: 'uint256' },
+        { name: 'gas', type: 'uint256' },
+        { name: 'nonce', type: 'uint256' },
+        { name: 'deadline', type: 'uint48' },
+        { name: 'data', type: 'bytes' }
+    ]
+};
+
+/** Mirrors `ERC2771Forwarder.ForwardRequestData` */
+export interface ForwardRequestData {
+    from: string;
+    to: string;
+    value: bigint;
+    gas: bigint;
+    deadline: bigint;
+    data: string;
+    signature: string;
+}
+
+export interface ForwardRequestOptions {
+    value?: bigint;     // ether the relayer attaches, e.g. the arbitration fee
+    gas?: bigint;       // FORWARD_GAS when omitted
+    validity?: number;  // FORWARD_VALIDITY when omitted
+}
+
+/**
+ * Sign a forward request calling `to` with `data` on behalf of `signer`,
+ * the request is then handed to a relayer which pays the gas.
+ * @param forwarder The trusted forwarder of `to`, connected to any provider.
+ * @param data The encoded call, e.g. `escrow.interface.encodeFunctionData('reimburse', [transactionID, amount])`.
+ */
+export async function signForwardRequest(
+    signer: Signer, forwarder: NerwoForwarder, to: string, data: string,
+    { value = 0n, gas = FORWARD_GAS, validity = FORWARD_VALIDITY }: ForwardRequestOptions = {}
+): Promise<ForwardRequestData> {
+    const from = await signer.getAddress();
+    const { name, version, chainId, verifyingContract } = await forwarder.eip712Domain();
+    const nonce = await forwarder.nonces(from);
+
+    const block = await forwarder.runner?.provider?.getBlock('latest');
+    if (!block) {
+        throw new Error('Cannot read the latest block');
+    }
+    const deadline = BigInt(block.timestamp + validity);
+
+    const request = { from, to, value, gas, nonce, deadline, data };
+    const signature = await signer.signTypedData({ name, version, chainId, verifyingContract },
+        FORWARD_REQUEST_TYPES, request);
+
+    return { from, to, value, gas, deadline, data, signature };
+}
+
+/**
+ * Submit signed forward requests paying their gas and value.
+ * Requests are checked before sending, only calls to `escrow` are relayed.
+ */
+export class Relayer {
+    /**
+     * @param forwarder The escrow trusted forwarder, connected to the signer paying the gas.
+     * @param escrow The only contract requests may target.
+     */
+    constructor(public readonly forwarder: NerwoForwarder, public readonly escrow: NerwoEscrow) { }
+
+    /**
+     * @throws Error when the request is not for the escrow, is expired or badly signed,
+     * or the escrow error the forwarded call would revert with.
+     */
+    async relay(request: ForwardRequestData): Promise<ContractTransactionReceipt> {
+        if (request.to.toLowerCase() !== (await this.escrow.getAddress()).toLowerCase()) {
+            throw new Error(`Refusing to relay a request to ${request.to}`);
+        }
+
+        // simulated from the relayer, which attaches the value: checks the signature, the deadline and the call
+        try {
+            await this.forwarder.execute.staticCall(request, { value: request.value });
+        } catch (error) {
+            const decoded = decodeEscrowError(this.forwarder.interface, error);
+            if (decoded instanceof EscrowError && decoded.errorName.startsWith('ERC2771')) {
+                throw new Error(`Invalid forward request from ${request.from}: ${decoded.message}`);
+            }
+            throw await this._innerError(request) ?? error;
+        }
+
+        const tx = await this.forwarder.execute(request, { value: request.value });
+        const receipt = await tx.wait();
+        if (!receipt) {
+            throw new Error(`Transaction ${tx.hash} was dropped`);
+        }
+        return receipt;
+    }
+
+    /**
+     * The forwarder reverts with FailedInnerCall whatever the escrow error,
+     * the inner call is simulated again from the forwarder to decode it.
+     * Nodes refusing a call with value from the forwarder, which holds no ether, leave it undecoded.
+     */
+    private async _innerError(request: ForwardRequestData): Promise<EscrowError | undefined> {
+        const provider = this.forwarder.runner?.provider;
+        if (!provider) {
+            return undefined;
+        }
+        try {
+            await provider.call({
+                from: await this.forwarder.getAddress(), to: request.to, value: request.value,
+                data: concat([request.data, request.from])
+            });
+        } catch (error) {
+            const decoded = decodeEscrowError(this.escrow.interface, error);
+            return decoded instanceof EscrowError ? decoded : undefined;
+        }
+        return undefined;
+    }
+}
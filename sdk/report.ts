@@ -0,0 +1,254 @@
+import { BaseContract, Contract, EventLog, Provider, formatUnits } from 'ethers';
+
+import type { NerwoEscrow } from '../typechain-types';
+
+import { Outcome, previewPayout } from './payout';
+import { NativeToken, Ruling, Status } from './types';
+
+const ERC20_ABI = [
+    'function decimals() view returns (uint8)',
+    'function symbol() view returns (string)'
+];
+
+export const NATIVE_SYMBOL = 'ETH';
+export const NATIVE_DECIMALS = 18;
+
+export interface ReportOptions {
+    fromBlock: number;
+    toBlock: number;            /* included */
+    sinceBlock?: number;        /* first block searched for the fees of the disputes resolved in the range */
+    chunkSize?: number;         /* blocks per eth_getLogs request */
+}
+
+/** Totals of a token over the report range, amounts in token base units */
+export interface TokenReport {
+    token: string;
+    symbol: string;
+    decimals: number;
+    transactions: number;       /* escrows created */
+    volume: bigint;             /* amount of the escrows created */
+    paid: bigint;               /* sent to the freelancers, net of fees, by payments, rulings and timeouts */
+    fees: bigint;               /* sent to the fee recipient */
+    refunds: bigint;            /* sent back to the clients by reimbursements, rulings and timeouts */
+    disputes: number;           /* disputes created */
+    split: number;              /* disputes resolved by each ruling */
+    clientWins: number;
+    freelancerWins: number;
+    timeouts: number;           /* fee timeouts executed */
+}
+
+export interface AccountingReport {
+    chainId: bigint;
+    escrow: string;
+    fromBlock: number;
+    toBlock: number;
+    fromTime: number;           /* timestamp of fromBlock */
+    toTime: number;             /* timestamp of toBlock */
+    tokens: TokenReport[];      /* sorted by token address */
+}
+
+export const REPORT_COLUMNS = [
+    'token', 'symbol', 'decimals', 'transactions', 'volume', 'paid', 'fees', 'refunds',
+    'disputes', 'split', 'clientWins', 'freelancerWins', 'timeouts'
+] as const;
+
+export type ReportRow = Record<typeof REPORT_COLUMNS[number], string>;
+
+const RULING_COUNTERS = {
+    [Ruling.SplitAmount]: 'split',
+    [Ruling.ClientWins]: 'clientWins',
+    [Ruling.FreelancerWins]: 'freelancerWins'
+} as const;
+
+function providerOf(escrow: NerwoEscrow): Provider {
+    const provider = escrow.runner?.provider;
+    if (!provider) {
+        throw new Error('buildReport requires a contract connected to a Provider');
+    }
+    return provider;
+}
+
+/**
+ * First block mined at or after `timestamp`, the next block number when there is none yet.
+ */
+export async function findBlock(provider: Provider, timestamp: number): Promise<number> {
+    let low = 0;
+    let high = await provider.getBlockNumber() + 1;
+    while (low < high) {
+        const middle = Math.floor((low + high) / 2);
+        if ((await provider.getBlock(middle))!.timestamp < timestamp) {
+            low = middle + 1;
+        } else {
+            high = middle;
+        }
+    }
+    return low;
+}
+
+/**
+ * Aggregate the escrow activity of a block range per token: created volume, payments, fees and refunds,
+ * disputes and how they were resolved.
+ * Rulings and timeouts have no dedicated event, their payouts are computed from the transaction state
+ * before the resolution, which requires a node serving historical state. Only the transactions with a fee paid
+ * since `sinceBlock`, 0 when omitted, are looked up.
+ */
+export async function buildReport(
+    escrow: NerwoEscrow,
+    { fromBlock, toBlock, sinceBlock = 0, chunkSize = 2_000 }: ReportOptions): Promise<AccountingReport> {
+    const provider = providerOf(escrow);
+    const tokens = new Map<string, TokenReport>();
+
+    // the first fee paid emits HasToPayFee, every transaction resolved by a ruling or a timeout has one
+    const candidates = new Set<bigint>();
+    for (let from = sinceBlock; from < fromBlock; from += chunkSize) {
+        const to = Math.min(from + chunkSize, fromBlock) - 1;
+        for (const event of await escrow.queryFilter(escrow.filters.HasToPayFee(), from, to)) {
+            candidates.add(event.args.transactionID);
+        }
+    }
+
+    const entry = async (token: string) => {
+        if (!tokens.has(token)) {
+            const [symbol, decimals] = token === NativeToken ? [NATIVE_SYMBOL, NATIVE_DECIMALS] : await (async () => {
+                const erc20 = new Contract(token, ERC20_ABI, provider);
+                return [await erc20.symbol() as string, Number(await erc20.decimals())] as const;
+            })();
+            tokens.set(token, {
+                token, symbol, decimals, transactions: 0, volume: 0n, paid: 0n, fees: 0n, refunds: 0n,
+                disputes: 0, split: 0, clientWins: 0, freelancerWins: 0, timeouts: 0
+            });
+        }
+        return tokens.get(token)!;
+    };
+
+    for (let from = fromBlock; from <= toBlock; from += chunkSize) {
+        const to = Math.min(from + chunkSize - 1, toBlock);
+        const events = await (escrow as BaseContract).queryFilter('*', from, to);
+        for (const event of events) {
+            if (!(event instanceof EventLog)) {
+                continue;
+            }
+            switch (event.eventName) {
+                case 'TransactionCreated': {
+                    const report = await entry(event.args.token);
+                    report.transactions++;
+                    report.volume += event.args.amount;
+                    break;
+                }
+                case 'Payment':
+                    (await entry(event.args.token)).paid += event.args.amount;
+                    break;
+                case 'Reimburse':
+                    (await entry(event.args.token)).refunds += event.args.amount;
+                    break;
+                case 'FeeRecipientPayment':
+                    (await entry(event.args.token)).fees += event.args.amount;
+                    break;
+                case 'HasToPayFee':
+                    candidates.add(event.args.transactionID);
+                    break;
+                case 'DisputeCreated': {
+                    const { token } = await escrow.getTransaction(event.args.transactionID);
+                    (await entry(token)).disputes++;
+                    break;
+                }
+            }
+        }
+    }
+
+    // only rulings and timeouts resolve a transaction
+    const isResolved = async (transactionID: bigint, blockTag: number) =>
+        blockTag >= 0 && await escrow.lastTransaction({ blockTag }) >= transactionID &&
+        Number((await escrow.getTransaction(transactionID, { blockTag })).status) === Status.Resolved;
+
+    if (candidates.size && fromBlock > 0) {
+        try {
+            await escrow.lastTransaction({ blockTag: fromBlock - 1 });
+        } catch (error) {
+            throw new Error(`Cannot read the escrow state at block ${fromBlock - 1}: ${(error as Error).message}. ` +
+                'Rulings and timeouts are reported from historical state, it requires an archive node');
+        }
+    }
+
+    for (const transactionID of candidates) {
+        if (!await isResolved(transactionID, toBlock) || await isResolved(transactionID, fromBlock - 1)) {
+            continue;
+        }
+
+        // first block where the transaction is resolved
+        let low = fromBlock;
+        let high = toBlock;
+        while (low < high) {
+            const middle = Math.floor((low + high) / 2);
+            if (await isResolved(transactionID, middle)) {
+                high = middle;
+            } else {
+                low = middle + 1;
+            }
+        }
+
+        const blockTag = low - 1;
+        const transaction = await escrow.getTransaction(transactionID, { blockTag });
+        const { feeRecipientBasisPoint } = await escrow.feeRecipientData({ blockTag });
+        const report = await entry(transaction.token);
+
+        let outcome: Outcome = 'timeout';
+        if (Number(transaction.status) === Status.DisputeCreated) {
+            const ruling = Number((await escrow.getTransaction(transactionID, { blockTag: low })).ruling) as Ruling;
+            report[RULING_COUNTERS[ruling]]++;
+            outcome = ruling;
+        } else {
+            report.timeouts++;
+        }
+
+        const payout = previewPayout(transaction, feeRecipientBasisPoint, outcome);
+        report.paid += payout.freelancer;
+        report.refunds += payout.client;
+    }
+
+    const [{ chainId }, first, last] = await Promise.all([
+        provider.getNetwork(), provider.getBlock(fromBlock), provider.getBlock(toBlock)
+    ]);
+
+    return {
+        chainId,
+        escrow: await escrow.getAddress(),
+        fromBlock,
+        toBlock,
+        fromTime: first!.timestamp,
+        toTime: last!.timestamp,
+        tokens: [...tokens.values()].sort((a, b) => a.token.localeCompare(b.token))
+    };
+}
+
+/**
+ * The token totals with the amounts normalized by the token decimals.
+ */
+export function reportRows({ tokens }: AccountingReport): ReportRow[] {
+    return tokens.map((report) => Object.fromEntries(REPORT_COLUMNS.map((column) => {
+        const value = report[column];
+        return [column, typeof value === 'bigint' ? formatUnits(value, report.decimals) : String(value)];
+    })) as ReportRow);
+}
+
+export function reportToCSV(report: AccountingReport): string {
+    // token symbols are the only free text
+    const quote = (value: string) => /[",\n]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value;
+    return [
+        REPORT_COLUMNS.join(','),
+        ...reportRows(report).map((row) => REPORT_COLUMNS.map((column) => quote(row[column])).join(','))
+    ].join('\n') + '\n';
+}
+
+export function reportToJSON(report: AccountingReport): string {
+    const { chainId, escrow, fromBlock, toBlock, fromTime, toTime } = report;
+    return JSON.stringify({
+        chainId: chainId.toString(),
+        escrow,
+        fromBlock,
+        toBlock,
+        from: new Date(fromTime * 1000).toISOString(),
+        to: new Date(toTime * 1000).toISOString(),
+        tokens: reportRows(report)
+    }, null, 2) + '\n';
+}
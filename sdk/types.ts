@@ -0,0 +1,19 @@
+import { ZeroAddress } from 'ethers';
+
+export const NativeToken = ZeroAddress;
+
+/** Mirrors `NerwoEscrow.Status` */
+export enum Status {
+    NoDispute = 0,
+    WaitingClient = 1,
+    WaitingFreelancer = 2,
+    DisputeCreated = 3,
+    Resolved = 4
+}
+
+/** Mirrors the NerwoEscrow ruling options */
+export enum Ruling {
+    SplitAmount = 0,
+    ClientWins = 1,
+    FreelancerWins = 2
+}
@@ -0,0 +1,193 @@
+import { promises as fs } from 'node:fs';
+import { dirname, join } from 'node:path';
+import { Signer, parseEther, parseUnits } from 'ethers';
+import { HardhatRuntimeEnvironment } from 'hardhat/types';
+
+import type { NerwoCentralizedArbitrator, NerwoEscrow, NerwoTetherToken } from './typechain-types';
+
+import { ConfigError } from './config';
+import { EscrowClient } from './sdk/client';
+import { NativeToken, Ruling, Status } from './sdk/types';
+import { getOwnerSigner } from './tasks/utils';
+
+/** Final state of the seeded escrows, the ruling ones end up Resolved with that ruling */
+export const SEED_STATES = [
+    'NoDispute', 'WaitingClient', 'WaitingFreelancer', 'DisputeCreated', 'SplitAmount', 'ClientWins', 'FreelancerWins'
+] as const;
+
+export type SeedState = typeof SEED_STATES[number];
+
+export type SeedToken = 'native' | 'usdt';
+
+export interface SeedConfig {
+    count: number;              /* NERWO_SEED_COUNT, escrows per state and token */
+    states: SeedState[];        /* NERWO_SEED_STATES, all when unset */
+    tokens: SeedToken[];        /* NERWO_SEED_TOKENS, native and usdt when unset */
+    manifest?: string;          /* NERWO_SEED_MANIFEST, deployments/<network>/seed.json when unset */
+}
+
+export interface SeedEntry {
+    transactionID: string;
+    state: SeedState;
+    token: string;
+    amount: string;             /* base units */
+}
+
+export interface SeedManifest {
+    network: string;
+    chainId: string;
+    escrow: string;
+    client: string;
+    freelancer: string;
+    transactions: SeedEntry[];
+}
+
+const RULINGS: Partial<Record<SeedState, Ruling>> = {
+    SplitAmount: Ruling.SplitAmount,
+    ClientWins: Ruling.ClientWins,
+    FreelancerWins: Ruling.FreelancerWins
+};
+
+// the amounts only depend on the position, so every run seeds the same population
+const AMOUNTS: Record<SeedToken, bigint> = {
+    native: parseEther('0.01'),
+    usdt: parseUnits('100', 6)
+};
+
+/**
+ * Load and validate the NERWO_SEED_* variables.
+ * @returns undefined when NERWO_SEED_COUNT is unset, seeding is opt-in.
+ * @throws ConfigError listing every problem found.
+ */
+export function loadSeedConfig(network: string = global.network,
+    env: Record<string, string | undefined> = process.env): SeedConfig | undefined {
+    if (!env.NERWO_SEED_COUNT) {
+        return undefined;
+    }
+
+    const problems: string[] = [];
+
+    const list = <T extends string>(name: string, allowed: readonly T[]) => {
+        const values = env[name] ? env[name]!.split(',').map((value) => value.trim()) : [...allowed];
+        for (const value of values.filter((value) => !allowed.includes(value as T))) {
+            problems.push(`${name}: ${value} is not one of ${allowed.join(', ')}`);
+        }
+        return values as T[];
+    };
+
+    const count = Number(env.NERWO_SEED_COUNT);
+    if (!/^\d+$/.test(env.NERWO_SEED_COUNT) || count < 1) {
+        problems.push(`NERWO_SEED_COUNT: ${env.NERWO_SEED_COUNT} is not a positive integer`);
+    }
+
+    const config: SeedConfig = {
+        count,
+        states: list('NERWO_SEED_STATES', SEED_STATES),
+        tokens: list<SeedToken>('NERWO_SEED_TOKENS', ['native', 'usdt']),
+        manifest: env.NERWO_SEED_MANIFEST || undefined
+    };
+
+    if (problems.length) {
+        throw new ConfigError(network, problems);
+    }
+
+    return config;
+}
+
+/**
+ * Create `count` escrows for every state and token with the `client` and `freelancer` named accounts,
+ * the rulings are given by the arbitrator owner among the configured accounts.
+ * The arbitrator must have no appeal window, else the rulings cannot be accepted right away.
+ */
+export async function seedEscrows(hre: HardhatRuntimeEnvironment, { count, states, tokens }: SeedConfig) {
+    const { deployments, ethers, network } = hre;
+
+    const { client, freelancer } = await hre.getNamedAccounts();
+    if (!client || !freelancer) {
+        throw new Error(`The client and freelancer named accounts are not configured on ${network.name}`);
+    }
+
+    const escrow = await ethers.getContractAt('NerwoEscrow',
+        (await deployments.get('NerwoEscrow')).address) as unknown as NerwoEscrow;
+    const proxy = await ethers.getContractAt('NerwoCentralizedArbitrator',
+        (await escrow.arbitratorData()).proxy) as unknown as NerwoCentralizedArbitrator;
+
+    const usdtDeployment = await deployments.getOrNull('NerwoTetherToken');
+    if (tokens.includes('usdt') && (!usdtDeployment || !await escrow.tokens(usdtDeployment.address))) {
+        throw new Error(`NerwoTetherToken is not deployed or not whitelisted by the escrow on ${network.name}`);
+    }
+    const usdt = usdtDeployment && await ethers.getContractAt('NerwoTetherToken',
+        usdtDeployment.address, await ethers.getSigner(client)) as unknown as NerwoTetherToken;
+
+    let court: Signer | undefined;
+    if (states.some((state) => RULINGS[state] !== undefined)) {
+        if (await proxy.appealWindow() !== 0n) {
+            throw new Error('Rulings cannot be seeded while the arbitrator has an appeal window');
+        }
+        court = await getOwnerSigner(hre, proxy);
+    }
+
+    const asClient = new EscrowClient(escrow.connect(await ethers.getSigner(client)));
+    const asFreelancer = new EscrowClient(escrow.connect(await ethers.getSigner(freelancer)));
+
+    const transactions: SeedEntry[] = [];
+    for (const token of tokens) {
+        const address = token === 'usdt' ? usdtDeployment!.address : NativeToken;
+        for (const state of states) {
+            for (let i = 0; i < count; i++) {
+                const amount = AMOUNTS[token] * BigInt(i + 1);
+                if (token === 'usdt') {
+                    await (await usdt!.mint(amount)).wait();
+                }
+
+                const transactionID = await asClient.createTransaction({ token: address, amount, freelancer });
+
+                if (state === 'WaitingClient') {
+                    await asFreelancer.payArbitrationFee(transactionID);
+                } else if (state === 'WaitingFreelancer') {
+                    await asClient.payArbitrationFee(transactionID);
+                } else if (state !== 'NoDispute') {
+                    await asClient.payArbitrationFee(transactionID);
+                    await asFreelancer.payArbitrationFee(transactionID);
+                }
+
+                const ruling = RULINGS[state];
+                if (ruling !== undefined) {
+                    const { disputeID } = await asClient.getTransaction(transactionID);
+                    await (await proxy.connect(court).giveRuling(disputeID, ruling)).wait();
+                    await asClient.acceptRuling(transactionID);
+                }
+
+                transactions.push({
+                    transactionID: transactionID.toString(), state, token: address, amount: amount.toString()
+                });
+            }
+        }
+    }
+
+    const manifest: SeedManifest = {
+        network: network.name,
+        chainId: (await ethers.provider.getNetwork()).chainId.toString(),
+        escrow: await escrow.getAddress(),
+        client,
+        freelancer,
+        transactions
+    };
+    return manifest;
+}
+
+/**
+ * Write `manifest` as JSON, to `deployments/<network>/seed.json` when no path is given.
+ * @returns The path written.
+ */
+export async function writeSeedManifest(hre: HardhatRuntimeEnvironment, manifest: SeedManifest,
+    path: string = join(hre.config.paths.deployments, hre.network.name, 'seed.json')): Promise<string> {
+    await fs.mkdir(dirname(path), { recursive: true });
+    await fs.writeFile(path, JSON.stringify(manifest, null, 2) + '\n');
+    return path;
+}
+
+/** The escrow status each seeded state ends up in */
+export function seedStatus(state: SeedState): Status {
+    return RULINGS[state] !== undefined ? Status.Resolved : Status[state as keyof typeof Status];
+}
@@ -0,0 +1,171 @@
+import { promises as fs } from 'node:fs';
+import { HardhatRuntimeEnvironment } from 'hardhat/types';
+
+/** solc storageLayout output, see https://docs.soliditylang.org/en/latest/internals/layout_in_storage.html */
+export interface StorageItem {
+    contract: string;
+    label: string;
+    offset: number;
+    slot: string;
+    type: string;
+}
+
+export interface StorageType {
+    encoding: 'inplace' | 'mapping' | 'dynamic_array' | 'bytes';
+    label: string;
+    numberOfBytes: string;
+    key?: string;               /* mappings */
+    value?: string;             /* mappings */
+    base?: string;              /* arrays */
+    members?: StorageItem[];    /* structs, slots relative to the struct */
+}
+
+export interface StorageLayout {
+    storage: StorageItem[];
+    types: Record<string, StorageType> | null;
+}
+
+export class StorageLayoutError extends Error {
+    constructor(public readonly contract: string, public readonly problems: string[]) {
+        super(`Incompatible storage layout for ${contract}:\n${problems.map((problem) => `  - ${problem}`).join('\n')}`);
+        this.name = 'StorageLayoutError';
+    }
+}
+
+/**
+ * Storage layout of a contract of the current compilation.
+ */
+export async function getStorageLayout({ artifacts }: HardhatRuntimeEnvironment, name: string): Promise<StorageLayout> {
+    const { sourceName, contractName } = await artifacts.readArtifact(name);
+    const buildInfo = await artifacts.getBuildInfo(`${sourceName}:${contractName}`);
+    const layout = (buildInfo?.output.contracts[sourceName][contractName] as { storageLayout?: StorageLayout })
+        ?.storageLayout;
+    if (!layout) {
+        throw new Error(`No storage layout compiled for ${name}, storageLayout must be in the solc outputSelection`);
+    }
+    return layout;
+}
+
+/**
+ * Storage layout of a contract from a hardhat-deploy deployment, a hardhat build-info
+ * or a plain storageLayout json file.
+ */
+export async function readStorageLayout(path: string, name: string): Promise<StorageLayout> {
+    const json = JSON.parse(await fs.readFile(path, 'utf8'));
+
+    if (json.storageLayout) {
+        return json.storageLayout;
+    }
+    if (json.output?.contracts) {
+        for (const contracts of Object.values<Record<string, { storageLayout?: StorageLayout }>>(json.output.contracts)) {
+            if (contracts[name]?.storageLayout) {
+                return contracts[name].storageLayout!;
+            }
+        }
+        throw new Error(`${path}: no storage layout for ${name}`);
+    }
+    if (Array.isArray(json.storage)) {
+        return json;
+    }
+    throw new Error(`${path}: not a deployment, build-info or storage layout file`);
+}
+
+// contracts and interfaces are stored as addresses
+const elementary = (type: StorageType) => type.label.replace(/^contract .+$/, 'address');
+
+/**
+ * Check that `next` can take over the storage written by `previous`: every variable keeps its slot, offset and name,
+ * and its type is encoded the same way. New variables can only use storage `previous` did not,
+ * structs can only grow when nothing follows them, e.g. as mapping values.
+ * @returns The problems found, empty when the upgrade is safe.
+ */
+export function compareStorageLayouts(previous: StorageLayout, next: StorageLayout): string[] {
+    const problems: string[] = [];
+
+    const compareType = (where: string, previousId: string, nextId: string, growable: boolean) => {
+        const a = previous.types?.[previousId];
+        const b = next.types?.[nextId];
+        if (!a || !b) {
+            problems.push(`${where}: unknown type ${a ? nextId : previousId}`);
+            return;
+        }
+
+        if (a.encoding !== b.encoding) {
+            problems.push(`${where}: ${a.label} changed to ${b.label}`);
+            return;
+        }
+
+        switch (a.encoding) {
+            case 'mapping':
+                if (elementary(previous.types![a.key!]) !== elementary(next.types![b.key!])) {
+                    problems.push(`${where}: ${a.label} changed to ${b.label}`);
+                    return;
+                }
+                // mapping values are spread by hashing, they can grow
+                compareType(`${where}[]`, a.value!, b.value!, true);
+                return;
+            case 'dynamic_array':
+                compareType(`${where}[]`, a.base!, b.base!, false);
+                return;
+            case 'bytes':
+                return;
+        }
+
+        if (a.members && b.members) {
+            compareItems(`${where}.`, a.members, b.members);
+        } else if (a.base && b.base) {
+            compareType(`${where}[]`, a.base, b.base, false);
+        } else if (!a.label.startsWith('enum ') && elementary(a) !== elementary(b)) {
+            problems.push(`${where}: ${a.label} changed to ${b.label}`);
+            return;
+        } else if (!!a.members !== !!b.members || !!a.base !== !!b.base) {
+            problems.push(`${where}: ${a.label} changed to ${b.label}`);
+            return;
+        }
+
+        const [before, after] = [BigInt(a.numberOfBytes), BigInt(b.numberOfBytes)];
+        if (after < before || (after > before && !growable)) {
+            problems.push(`${where}: ${a.label} size changed from ${before} to ${after} bytes`);
+        }
+    };
+
+    const compareItems = (prefix: string, previousItems: StorageItem[], nextItems: StorageItem[]) => {
+        for (const item of previousItems) {
+            const where = `${prefix}${item.label}`;
+            const found = nextItems.find(({ slot, offset }) => slot === item.slot && offset === item.offset);
+            if (!found) {
+                problems.push(`${where}: removed or moved from slot ${item.slot} offset ${item.offset}`);
+            } else if (found.label !== item.label) {
+                problems.push(`${where}: replaced by ${prefix}${found.label} in slot ${item.slot} offset ${item.offset}`);
+            } else {
+                // a variable growing over the next one is reported as moving it
+                compareType(where, item.type, found.type, prefix === '');
+            }
+        }
+    };
+
+    compareItems('', previous.storage, next.storage);
+    return problems;
+}
+
+/**
+ * Fail when the compiled `contract` cannot upgrade the implementation of the `name` deployment on the network.
+ * @returns The address of the deployed implementation, undefined when there is none yet.
+ * @throws StorageLayoutError listing every incompatibility found.
+ */
+export async function checkUpgrade(hre: HardhatRuntimeEnvironment, name: string,
+    contract: string = name): Promise<string | undefined> {
+    const implementation = await hre.deployments.getOrNull(`${name}_Implementation`);
+    if (!implementation) {
+        return undefined;
+    }
+    if (!implementation.storageLayout) {
+        throw new Error(`${name}_Implementation on ${hre.network.name} has no recorded storage layout`);
+    }
+
+    const problems = compareStorageLayouts(implementation.storageLayout, await getStorageLayout(hre, contract));
+    if (problems.length) {
+        throw new StorageLayoutError(contract, problems);
+    }
+    return implementation.address;
+}
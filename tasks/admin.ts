@@ -0,0 +1,176 @@
+import { task, types } from 'hardhat/config';
+import { ZeroAddress, formatEther, parseEther } from 'ethers';
+
+import type { NerwoCentralizedArbitrator, NerwoEscrow } from '../typechain-types';
+
+import { MAX_FEE_BASISPOINT } from '../constants';
+
+import { IPFS_GATEWAY, loadMetaEvidence } from './metaevidence';
+import { execute, getDeployment, validateAddress, validateContract, validateHex } from './utils';
+
+task('nerwo:set-fee-recipient', 'Change the escrow fee recipient and basis point')
+    .addParam('recipient', 'The fee recipient address')
+    .addParam('basisPoint', 'Fee in basis points, e.g. 550 = 5.5%', undefined, types.int)
+    .addFlag('dryRun', 'Print calldata and state diff without sending')
+    .addOptionalParam('safe', 'Append to this Safe transaction-builder batch file instead of sending')
+    .setAction(async ({ recipient, basisPoint, dryRun, safe }, hre) => {
+        recipient = validateAddress('recipient', recipient);
+        if (!Number.isInteger(basisPoint) || basisPoint < 0 || basisPoint > MAX_FEE_BASISPOINT) {
+            throw new Error(`basisPoint: ${basisPoint} is not in range 0-${MAX_FEE_BASISPOINT}`);
+        }
+
+        const escrow = await getDeployment<NerwoEscrow>(hre, 'NerwoEscrow');
+        const current = await escrow.feeRecipientData();
+
+        return execute(hre, {
+            contractName: 'NerwoEscrow',
+            contract: escrow,
+            method: 'setFeeRecipientAndBasisPoint',
+            args: [recipient, basisPoint],
+            diff: {
+                feeRecipient: [current.feeRecipient, recipient],
+                feeRecipientBasisPoint: [current.feeRecipientBasisPoint, basisPoint]
+            }
+        }, { dryRun, safe });
+    });
+
+task('nerwo:change-whitelist', 'Add or remove ERC20 tokens from the escrow whitelist')
+    .addVariadicPositionalParam('tokens', 'The ERC20 token addresses')
+    .addFlag('remove', 'Remove the tokens instead of adding them')
+    .addFlag('dryRun', 'Print calldata and state diff without sending')
+    .addOptionalParam('safe', 'Append to this Safe transaction-builder batch file instead of sending')
+    .setAction(async ({ tokens, remove, dryRun, safe }, hre) => {
+        const allow = !remove;
+        const escrow = await getDeployment<NerwoEscrow>(hre, 'NerwoEscrow');
+
+        const diff: Record<string, [boolean, boolean]> = {};
+        const whitelist = [];
+        for (const address of tokens as string[]) {
+            const token = await validateContract(hre, 'token', address);
+            diff[`tokens(${token})`] = [await escrow.tokens(token), allow];
+            whitelist.push({ token, allow });
+        }
+
+        return execute(hre, {
+            contractName: 'NerwoEscrow',
+            contract: escrow,
+            method: 'changeWhitelist',
+            args: [whitelist.map(({ token, allow }) => [token, allow])],
+            diff
+        }, { dryRun, safe });
+    });
+
+task('nerwo:set-metaevidence-uri', 'Change the MetaEvidence URI used for new disputes')
+    .addParam('uri', 'The MetaEvidence URI')
+    .addOptionalParam('document', 'Local copy of the document to validate, otherwise fetched from the URI')
+    .addOptionalParam('gateway', 'IPFS gateway for /ipfs/ URIs', IPFS_GATEWAY)
+    .addFlag('dryRun', 'Print calldata and state diff without sending')
+    .addOptionalParam('safe', 'Append to this Safe transaction-builder batch file instead of sending')
+    .setAction(async ({ uri, document, gateway, dryRun, safe }, hre) => {
+        await loadMetaEvidence(uri, { document, gateway });
+
+        const escrow = await getDeployment<NerwoEscrow>(hre, 'NerwoEscrow');
+        const { metaEvidenceURI } = await escrow.arbitratorData();
+
+        return execute(hre, {
+            contractName: 'NerwoEscrow',
+            contract: escrow,
+            method: 'setMetaEvidenceURI',
+            args: [uri],
+            diff: { metaEvidenceURI: [metaEvidenceURI, uri] }
+        }, { dryRun, safe });
+    });
+
+task('nerwo:set-extra-data', 'Change the arbitrator extra data used for new disputes')
+    .addParam('data', 'The extra data as hex string')
+    .addFlag('dryRun', 'Print calldata and state diff without sending')
+    .addOptionalParam('safe', 'Append to this Safe transaction-builder batch file instead of sending')
+    .setAction(async ({ data, dryRun, safe }, hre) => {
+        data = validateHex('data', data);
+
+        const escrow = await getDeployment<NerwoEscrow>(hre, 'NerwoEscrow');
+        const { extraData } = await escrow.arbitratorData();
+
+        return execute(hre, {
+            contractName: 'NerwoEscrow',
+            contract: escrow,
+            method: 'setExtraData',
+            args: [data],
+            diff: { extraData: [extraData, data] }
+        }, { dryRun, safe });
+    });
+
+task('nerwo:set-arbitration-price', 'Change the NerwoCentralizedArbitrator arbitration price')
+    .addParam('price', 'The arbitration price in ether, e.g. 0.02')
+    .addFlag('dryRun', 'Print calldata and state diff without sending')
+    .addOptionalParam('safe', 'Append to this Safe transaction-builder batch file instead of sending')
+    .setAction(async ({ price, dryRun, safe }, hre) => {
+        let arbitrationPrice: bigint;
+        try {
+            arbitrationPrice = parseEther(price);
+        } catch (_) {
+            throw new Error(`price: invalid amount ${price}`);
+        }
+
+        const proxy = await getDeployment<NerwoCentralizedArbitrator>(hre, 'NerwoCentralizedArbitrator');
+        const previousPrice = await proxy.arbitrationCost('0x');
+
+        return execute(hre, {
+            contractName: 'NerwoCentralizedArbitrator',
+            contract: proxy,
+            method: 'setArbitrationPrice',
+            args: [arbitrationPrice],
+            diff: { arbitrationPrice: [formatEther(previousPrice), formatEther(arbitrationPrice)] }
+        }, { dryRun, safe });
+    });
+
+task('nerwo:set-appeal-settings', 'Change the NerwoCentralizedArbitrator appeal window and appeal arbitrator')
+    .addParam('window', 'Seconds a ruling can be appealed, 0 to make rulings final', undefined, types.int)
+    .addOptionalParam('appealArbitrator', 'Who can rule appealed disputes along with the owner', ZeroAddress)
+    .addFlag('dryRun', 'Print calldata and state diff without sending')
+    .addOptionalParam('safe', 'Append to this Safe transaction-builder batch file instead of sending')
+    .setAction(async ({ window, appealArbitrator, dryRun, safe }, hre) => {
+        if (window < 0 || window > 0xffffffff) {
+            throw new Error(`window: ${window} is not in range 0-${0xffffffff}`);
+        }
+        if (appealArbitrator !== ZeroAddress) {
+            appealArbitrator = validateAddress('appealArbitrator', appealArbitrator);
+        }
+
+        const proxy = await getDeployment<NerwoCentralizedArbitrator>(hre, 'NerwoCentralizedArbitrator');
+
+        return execute(hre, {
+            contractName: 'NerwoCentralizedArbitrator',
+            contract: proxy,
+            method: 'setAppealSettings',
+            args: [window, appealArbitrator],
+            diff: {
+                appealWindow: [await proxy.appealWindow(), window],
+                appealArbitrator: [await proxy.appealArbitrator(), appealArbitrator]
+            }
+        }, { dryRun, safe });
+    });
+
+const OWNABLE_CONTRACTS = ['NerwoEscrow', 'NerwoCentralizedArbitrator'];
+
+task('nerwo:transfer-ownership', 'Transfer the ownership of NerwoEscrow or NerwoCentralizedArbitrator')
+    .addParam('contract', OWNABLE_CONTRACTS.join(' | '))
+    .addParam('newOwner', 'The new owner address, e.g. a Safe multisig')
+    .addFlag('dryRun', 'Print calldata and state diff without sending')
+    .addOptionalParam('safe', 'Append to this Safe transaction-builder batch file instead of sending')
+    .setAction(async ({ contract: contractName, newOwner, dryRun, safe }, hre) => {
+        if (!OWNABLE_CONTRACTS.includes(contractName)) {
+            throw new Error(`contract: ${contractName} is not one of ${OWNABLE_CONTRACTS.join(', ')}`);
+        }
+        newOwner = validateAddress('newOwner', newOwner);
+
+        const contract = await getDeployment<NerwoEscrow | NerwoCentralizedArbitrator>(hre, contractName);
+
+        return execute(hre, {
+            contractName,
+            contract,
+            method: 'transferOwnership',
+            args: [newOwner],
+            diff: { owner: [await contract.owner(), newOwner] }
+        }, { dryRun, safe });
+    });
@@ -0,0 +1,159 @@
+import { scope, types } from 'hardhat/config';
+import { ZeroAddress } from 'ethers';
+import { HardhatRuntimeEnvironment } from 'hardhat/types';
+
+import type { NerwoCentralizedArbitrator, NerwoEscrow } from '../typechain-types';
+
+import { Ruling } from '../constants';
+
+import { execute, findSigner, getDeployment, getDeploymentBlock } from './utils';
+
+/** Mirrors `IArbitrator.DisputeStatus` */
+export enum DisputeStatus {
+    Waiting = 0,
+    Appealable = 1,
+    Solved = 2
+}
+
+const RULINGS = ['split', 'client', 'freelancer'];
+
+const rulings: Record<string, Ruling> = {
+    split: Ruling.SplitAmount,
+    client: Ruling.ClientWins,
+    freelancer: Ruling.FreelancerWins
+};
+
+export async function getDisputeInfo(hre: HardhatRuntimeEnvironment, disputeID: bigint) {
+    const escrow = await getDeployment<NerwoEscrow>(hre, 'NerwoEscrow');
+    const proxy = await getDeployment<NerwoCentralizedArbitrator>(hre, 'NerwoCentralizedArbitrator');
+    const fromBlock = await getDeploymentBlock(hre, 'NerwoEscrow');
+
+    const dispute = await proxy.getDispute(disputeID);
+    // an appealable ruling is solved once its appeal period is over
+    const status = await proxy.disputeStatus(disputeID);
+
+    const [created] = await escrow.queryFilter(escrow.filters.DisputeCreated(undefined, disputeID), fromBlock);
+    const transactionID = created?.args.transactionID;
+    const transaction = transactionID !== undefined ? await escrow.getTransaction(transactionID) : undefined;
+
+    const [linked] = await proxy.queryFilter(proxy.filters.Dispute(undefined, disputeID), fromBlock);
+    const metaEvidence = linked ?
+        await proxy.queryFilter(proxy.filters.MetaEvidence(linked.args._metaEvidenceID), fromBlock) : [];
+    const evidence = linked ?
+        await proxy.queryFilter(proxy.filters.Evidence(undefined, linked.args._evidenceGroupID), fromBlock) : [];
+
+    // evidence submitted through the escrow has the escrow as party
+    const submitted = new Map(transactionID === undefined ? [] :
+        (await escrow.queryFilter(escrow.filters.EvidenceSubmitted(transactionID), fromBlock))
+            .map((event) => [event.transactionHash, event.args.party]));
+
+    return {
+        disputeID,
+        status: Number(status) as DisputeStatus,
+        ruling: Number(dispute.ruling),
+        choices: Number(dispute.choices),
+        appeals: Number(dispute.appeals),
+        appealPeriodEnd: Number(dispute.appealPeriodEnd),
+        transactionID,
+        transaction,
+        metaEvidenceURI: metaEvidence.at(-1)?.args._evidence,
+        evidence: evidence.map((event) => ({
+            party: submitted.get(event.transactionHash) ?? event.args._party,
+            uri: event.args._evidence
+        }))
+    };
+}
+
+export type DisputeInfo = Awaited<ReturnType<typeof getDisputeInfo>>;
+
+function printDispute(info: DisputeInfo) {
+    console.log(`Dispute ${info.disputeID}: ${DisputeStatus[info.status]}` +
+        (info.status !== DisputeStatus.Waiting ? ` (ruling: ${RULINGS[info.ruling]})` : ''));
+    if (info.status === DisputeStatus.Appealable) {
+        console.log(`  appealable:  until ${new Date(info.appealPeriodEnd * 1000).toISOString()}`);
+    }
+    if (info.appeals) {
+        console.log(`  appeals:     ${info.appeals}`);
+    }
+    if (info.transaction) {
+        const { client, freelancer, token, amount } = info.transaction;
+        console.log(`  transaction: ${info.transactionID}`);
+        console.log(`  client:      ${client}`);
+        console.log(`  freelancer:  ${freelancer}`);
+        console.log(`  token:       ${token}`);
+        console.log(`  amount:      ${amount}`);
+    }
+}
+
+const disputes = scope('disputes', 'Review and rule NerwoCentralizedArbitrator disputes');
+
+disputes.task('list', 'List disputes waiting for a ruling')
+    .addFlag('all', 'Include solved disputes')
+    .setAction(async ({ all }, hre) => {
+        const proxy = await getDeployment<NerwoCentralizedArbitrator>(hre, 'NerwoCentralizedArbitrator');
+        const lastDispute = await proxy.lastDispute();
+
+        const result: DisputeInfo[] = [];
+        for (let disputeID = 1n; disputeID <= lastDispute; disputeID++) {
+            const { status } = await proxy.getDispute(disputeID);
+            if (!all && Number(status) !== DisputeStatus.Waiting) {
+                continue;
+            }
+            const info = await getDisputeInfo(hre, disputeID);
+            printDispute(info);
+            result.push(info);
+        }
+        return result;
+    });
+
+disputes.task('show', 'Show a dispute with its escrow transaction and evidence')
+    .addPositionalParam('disputeID', 'The dispute ID', undefined, types.int)
+    .setAction(async ({ disputeID }, hre) => {
+        const info = await getDisputeInfo(hre, BigInt(disputeID));
+        printDispute(info);
+        console.log(`  metaEvidence: ${info.metaEvidenceURI}`);
+        for (const { party, uri } of info.evidence) {
+            console.log(`  evidence:     ${uri} (${party})`);
+        }
+        return info;
+    });
+
+disputes.task('rule', 'Give a ruling on a waiting dispute')
+    .addPositionalParam('disputeID', 'The dispute ID', undefined, types.int)
+    .addPositionalParam('ruling', RULINGS.join(' | '))
+    .addFlag('dryRun', 'Print calldata and state diff without sending')
+    .addOptionalParam('safe', 'Append to this Safe transaction-builder batch file instead of sending')
+    .setAction(async ({ disputeID, ruling, dryRun, safe }, hre) => {
+        if (!(ruling in rulings)) {
+            throw new Error(`ruling: ${ruling} is not one of ${RULINGS.join(', ')}`);
+        }
+
+        const info = await getDisputeInfo(hre, BigInt(disputeID));
+        if (info.status !== DisputeStatus.Waiting) {
+            throw new Error(`Dispute ${disputeID} is ${DisputeStatus[info.status]}, cannot rule`);
+        }
+
+        const proxy = await getDeployment<NerwoCentralizedArbitrator>(hre, 'NerwoCentralizedArbitrator');
+        const after = await proxy.appealWindow() ? DisputeStatus.Appealable : DisputeStatus.Solved;
+
+        // appealed disputes can be ruled by the appeal arbitrator too, preferred when its key is configured
+        let from: string | undefined;
+        if (info.appeals > 0 && !safe) {
+            const appealArbitrator = await proxy.appealArbitrator();
+            if (appealArbitrator !== ZeroAddress && await findSigner(hre, appealArbitrator)) {
+                from = appealArbitrator;
+            }
+        }
+
+        return execute(hre, {
+            contractName: 'NerwoCentralizedArbitrator',
+            contract: proxy,
+            method: 'giveRuling',
+            args: [disputeID, rulings[ruling]],
+            diff: {
+                status: [DisputeStatus[info.status], DisputeStatus[after]],
+                ruling: ['-', ruling]
+            },
+            from
+        }, { dryRun, safe });
+    });
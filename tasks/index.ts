@@ -0,0 +1,12 @@
+import './admin';
+import './disputes';
+import './keeper';
+import './metaevidence';
+import './predict';
+import './report';
+import './seed';
+import './settle';
+import './storage';
+import './verify';
+import './whitelist';
+import './withdrawals';
@@ -0,0 +1,71 @@
+import { task, types } from 'hardhat/config';
+
+import type { NerwoCentralizedArbitrator, NerwoEscrow } from '../typechain-types';
+
+import { Keeper, KeeperResult } from '../sdk/keeper';
+import { JsonStore, MemoryStore } from '../sdk/indexer';
+
+import { getDeployment, getDeploymentBlock } from './utils';
+
+const sleep = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+function printResults(results: KeeperResult[]) {
+    for (const { action, transactionID, status, hash } of results) {
+        console.log(`  ${status === 'done' ? '✔' : '✘'} ${action} ${transactionID} ${status}${hash ? ` (${hash})` : ''}`);
+    }
+}
+
+task('nerwo:keeper', 'Finalize the ruled disputes and the expired fee timeouts as they become eligible')
+    .addOptionalParam('state', 'JSON file keeping the jobs across restarts, in memory when omitted')
+    .addOptionalParam('confirmations', 'Blocks to trail the head', 12, types.int)
+    .addOptionalParam('interval', 'Seconds between two runs', 60, types.int)
+    .addOptionalParam('bumpAfter', 'Seconds to wait for a batch before bumping its fees', 60, types.int)
+    .addFlag('once', 'Run once and exit')
+    .addFlag('simulate', 'Fast-forward the local chain to each due job, until none is left')
+    .setAction(async ({ state, confirmations, interval, bumpAfter, once, simulate }, hre) => {
+        if (simulate && !['hardhat', 'localhost'].includes(hre.network.name)) {
+            throw new Error(`Cannot simulate on ${hre.network.name}`);
+        }
+
+        // anyone can finalize, the first configured account pays the gas
+        const escrow = await getDeployment<NerwoEscrow>(hre, 'NerwoEscrow');
+        const proxy = await getDeployment<NerwoCentralizedArbitrator>(hre, 'NerwoCentralizedArbitrator');
+
+        const keeper = new Keeper(escrow, proxy, state ? new JsonStore(state) : new MemoryStore(), {
+            fromBlock: await getDeploymentBlock(hre, 'NerwoEscrow'),
+            confirmations: simulate ? 0 : confirmations,
+            bumpAfter: bumpAfter * 1000,
+            pollInterval: simulate ? 100 : undefined
+        });
+
+        const all: KeeperResult[] = [];
+        for (;;) {
+            const lastBlock = await keeper.sync();
+            const results = await keeper.run();
+            console.log(`Block ${lastBlock}: ${results.length} jobs updated`);
+            printResults(results);
+            all.push(...results);
+
+            if (once) {
+                return all;
+            }
+
+            if (!simulate) {
+                await sleep(interval * 1000);
+                continue;
+            }
+
+            const [next] = await keeper.pendingJobs();
+            const { timestamp } = (await hre.ethers.provider.getBlock('latest'))!;
+            // nothing left, or a due job that cannot be settled
+            if (!next || (next.notBefore <= timestamp && !results.length)) {
+                return all;
+            }
+
+            if (next.notBefore > timestamp) {
+                console.log(`Fast-forward to ${new Date(next.notBefore * 1000).toISOString()}`);
+                await hre.network.provider.send('evm_setNextBlockTimestamp', [next.notBefore]);
+                await hre.network.provider.send('evm_mine');
+            }
+        }
+    });
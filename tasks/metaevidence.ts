@@ -0,0 +1,75 @@
+import { promises as fs } from 'node:fs';
+import { extname } from 'node:path';
+import { task } from 'hardhat/config';
+
+import { verifyEvidence } from '../sdk/evidence';
+import { buildMetaEvidence, validateMetaEvidence } from '../sdk/metaevidence';
+
+export const IPFS_GATEWAY = 'https://ipfs.io';
+
+export interface LoadOptions {
+    document?: string;  /* local copy of the document, otherwise fetched from the URI */
+    gateway?: string;   /* for /ipfs/ URIs, IPFS_GATEWAY when omitted */
+}
+
+/**
+ * Load and validate the MetaEvidence behind `uri`, content addressed URIs are checked against the document.
+ * @returns The parsed document, it throws with every validation error otherwise.
+ */
+export async function loadMetaEvidence(uri: string, { document, gateway = IPFS_GATEWAY }: LoadOptions = {}) {
+    let json: string;
+    if (document) {
+        json = await fs.readFile(document, 'utf8');
+    } else {
+        const url = uri.startsWith('/ipfs/') ? `${gateway}${uri}` : uri;
+        if (!/^https?:\/\//.test(url)) {
+            throw new Error(`MetaEvidence ${uri}: cannot fetch, give a local copy with --document`);
+        }
+        const response = await fetch(url);
+        if (!response.ok) {
+            throw new Error(`MetaEvidence ${uri}: ${response.status} ${response.statusText}`);
+        }
+        json = await response.text();
+    }
+
+    let parsed: unknown;
+    try {
+        parsed = JSON.parse(json);
+    } catch (_) {
+        throw new Error(`MetaEvidence ${uri}: invalid JSON`);
+    }
+
+    const errors = validateMetaEvidence(parsed);
+    if (uri.startsWith('/evidence/') && !verifyEvidence(uri, json)) {
+        errors.push('document does not match its content addressed URI');
+    }
+    if (errors.length) {
+        throw new Error(`MetaEvidence ${uri}: ${errors.join('; ')}`);
+    }
+    return parsed;
+}
+
+task('nerwo:build-metaevidence', 'Generate the ERC-1497 MetaEvidence of the escrow disputes')
+    .addParam('title', 'Title of the disputes')
+    .addParam('description', 'Description of the escrow agreement')
+    .addParam('out', 'JSON file to write, to be served at the printed URI')
+    .addOptionalParam('terms', 'Agreement file, hashed into fileHash')
+    .addOptionalParam('termsUri', 'Where the agreement file is served, content addressed when omitted')
+    .setAction(async ({ title, description, out, terms, termsUri }) => {
+        const document = buildMetaEvidence({
+            title,
+            description,
+            terms: terms ? await fs.readFile(terms) : undefined,
+            fileURI: termsUri,
+            fileTypeExtension: terms ? extname(terms).slice(1) || undefined : undefined
+        });
+
+        await fs.writeFile(out, document.json);
+        console.log(`MetaEvidence: ${out}`);
+        console.log(`  uri:  ${document.uri}`);
+        console.log(`  hash: ${document.hash}`);
+        if (document.metaEvidence.fileURI) {
+            console.log(`  terms: ${document.metaEvidence.fileURI}`);
+        }
+        return document;
+    });
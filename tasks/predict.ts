@@ -0,0 +1,22 @@
+import { promises as fs } from 'node:fs';
+import { task } from 'hardhat/config';
+
+import { loadConfig } from '../config';
+import { predictAddresses } from '../deterministic';
+
+task('nerwo:predict-addresses', 'Compute offline the addresses of the deterministic deployment of the network')
+    .addOptionalParam('salt', 'CREATE2 salt, NERWO_DEPLOY_SALT when omitted')
+    .addOptionalParam('out', 'JSON file to write the addresses to')
+    .setAction(async ({ salt, out }, hre): Promise<Record<string, string>> => {
+        const env = salt ? { ...process.env, NERWO_DEPLOY_SALT: salt } : process.env;
+        const addresses = await predictAddresses(hre, loadConfig(hre.network.name, env));
+
+        for (const [name, address] of Object.entries(addresses)) {
+            console.log(`${name}: ${address}`);
+        }
+        if (out) {
+            await fs.writeFile(out, JSON.stringify(addresses, null, 2) + '\n');
+            console.log(`Addresses written to ${out}`);
+        }
+        return addresses;
+    });
@@ -0,0 +1,61 @@
+import { promises as fs } from 'node:fs';
+import { task, types } from 'hardhat/config';
+
+import type { NerwoEscrow } from '../typechain-types';
+
+import { AccountingReport, buildReport, findBlock, reportToCSV, reportToJSON } from '../sdk/report';
+
+import { getDeployment, getDeploymentBlock } from './utils';
+
+function parseDate(name: string, value: string) {
+    const time = Date.parse(value);
+    if (isNaN(time)) {
+        throw new Error(`${name}: invalid date ${value}`);
+    }
+    return Math.floor(time / 1000);
+}
+
+task('nerwo:report', 'Export the fees, volumes and dispute outcomes per token over a block or date range')
+    .addOptionalParam('fromBlock', 'First block, the escrow deployment block when omitted', undefined, types.int)
+    .addOptionalParam('toBlock', 'Last block, included, the latest block when omitted', undefined, types.int)
+    .addOptionalParam('fromDate', 'First day or time, included, e.g. 2026-09-01 for UTC midnight')
+    .addOptionalParam('toDate', 'Last day or time, excluded, e.g. 2026-10-01 for the whole of September')
+    .addOptionalParam('csv', 'CSV file to write')
+    .addOptionalParam('json', 'JSON file to write')
+    .setAction(async ({ fromBlock, toBlock, fromDate, toDate, csv, json }, hre): Promise<AccountingReport> => {
+        if ((fromBlock !== undefined && fromDate) || (toBlock !== undefined && toDate)) {
+            throw new Error('Give either a block or a date for each end of the range');
+        }
+
+        const { provider } = hre.ethers;
+        if (fromDate) {
+            fromBlock = await findBlock(provider, parseDate('fromDate', fromDate));
+        }
+        if (toDate) {
+            toBlock = await findBlock(provider, parseDate('toDate', toDate)) - 1;
+        }
+        fromBlock ??= await getDeploymentBlock(hre, 'NerwoEscrow');
+        toBlock ??= await provider.getBlockNumber();
+
+        if (fromBlock > toBlock || toBlock > await provider.getBlockNumber()) {
+            throw new Error(`Invalid block range ${fromBlock}-${toBlock}`);
+        }
+
+        const escrow = await getDeployment<NerwoEscrow>(hre, 'NerwoEscrow');
+        const sinceBlock = await getDeploymentBlock(hre, 'NerwoEscrow');
+        const report = await buildReport(escrow, { fromBlock, toBlock, sinceBlock });
+
+        if (csv) {
+            await fs.writeFile(csv, reportToCSV(report));
+            console.log(`CSV report written to ${csv}`);
+        }
+        if (json) {
+            await fs.writeFile(json, reportToJSON(report));
+            console.log(`JSON report written to ${json}`);
+        }
+        if (!csv && !json) {
+            console.log(`Blocks ${fromBlock}-${toBlock}`);
+            process.stdout.write(reportToCSV(report));
+        }
+        return report;
+    });
@@ -0,0 +1,78 @@
+import { promises as fs } from 'node:fs';
+import { HardhatRuntimeEnvironment } from 'hardhat/types';
+
+/**
+ * Safe transaction-builder batch format, it can be imported in the Safe{Wallet} Transaction Builder app.
+ */
+export interface SafeTransaction {
+    to: string;
+    value: string;
+    data: string;
+    contractMethod: null;
+    contractInputsValues: null;
+    description: string;
+}
+
+export interface SafeBatch {
+    version: '1.0';
+    chainId: string;
+    createdAt: number;
+    meta: {
+        name: string;
+        description: string;
+        txBuilderVersion: string;
+        createdFromSafeAddress: string;
+        createdFromOwnerAddress: string;
+    };
+    transactions: SafeTransaction[];
+}
+
+const TX_BUILDER_VERSION = '1.16.5';
+
+export async function readSafeBatch(file: string): Promise<SafeBatch | undefined> {
+    try {
+        return JSON.parse(await fs.readFile(file, 'utf8'));
+    } catch (error) {
+        if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+            return undefined;
+        }
+        throw error;
+    }
+}
+
+/**
+ * Append a transaction to the batch in `file`, the file is created if missing.
+ * All the transactions of a batch must be executed by the same Safe on the same chain.
+ */
+export async function appendSafeTransaction(hre: HardhatRuntimeEnvironment, file: string, safe: string,
+    transaction: Omit<SafeTransaction, 'value' | 'contractMethod' | 'contractInputsValues'>) {
+    const { chainId } = await hre.ethers.provider.getNetwork();
+
+    const batch: SafeBatch = await readSafeBatch(file) ?? {
+        version: '1.0',
+        chainId: chainId.toString(),
+        createdAt: Date.now(),
+        meta: {
+            name: 'Nerwo owner operations',
+            description: '',
+            txBuilderVersion: TX_BUILDER_VERSION,
+            createdFromSafeAddress: safe,
+            createdFromOwnerAddress: ''
+        },
+        transactions: []
+    };
+
+    if (batch.chainId !== chainId.toString()) {
+        throw new Error(`${file}: batch is for chain ${batch.chainId}, not ${chainId}`);
+    }
+
+    if (batch.meta.createdFromSafeAddress !== safe) {
+        throw new Error(`${file}: batch is for Safe ${batch.meta.createdFromSafeAddress}, not ${safe}`);
+    }
+
+    batch.transactions.push({ ...transaction, value: '0', contractMethod: null, contractInputsValues: null });
+    batch.meta.description = batch.transactions.map(({ description }) => description).join('\n');
+
+    await fs.writeFile(file, JSON.stringify(batch, null, 2) + '\n');
+    return batch;
+}
@@ -0,0 +1,23 @@
+import { task } from 'hardhat/config';
+
+import { SeedManifest, loadSeedConfig, seedEscrows, writeSeedManifest } from '../seed';
+
+task('nerwo:seed', 'Create escrows in every state for frontend development and write their manifest')
+    .addOptionalParam('count', 'Escrows per state and token, NERWO_SEED_COUNT or 1 when omitted')
+    .addOptionalParam('states', 'Comma separated states, NERWO_SEED_STATES or all when omitted')
+    .addOptionalParam('tokens', 'Comma separated native and usdt, NERWO_SEED_TOKENS or both when omitted')
+    .addOptionalParam('manifest', 'Manifest file, NERWO_SEED_MANIFEST or deployments/<network>/seed.json when omitted')
+    .setAction(async ({ count, states, tokens, manifest }, hre): Promise<SeedManifest> => {
+        const { env } = process;
+        const config = loadSeedConfig(hre.network.name, {
+            NERWO_SEED_COUNT: count ?? env.NERWO_SEED_COUNT ?? '1',
+            NERWO_SEED_STATES: states ?? env.NERWO_SEED_STATES,
+            NERWO_SEED_TOKENS: tokens ?? env.NERWO_SEED_TOKENS,
+            NERWO_SEED_MANIFEST: manifest ?? env.NERWO_SEED_MANIFEST
+        })!;
+
+        const result = await seedEscrows(hre, config);
+        const path = await writeSeedManifest(hre, result, config.manifest);
+        console.log(`Seeded ${result.transactions.length} escrows, manifest written to ${path}`);
+        return result;
+    });
@@ -0,0 +1,40 @@
+import { task } from 'hardhat/config';
+
+import type { NerwoEscrow } from '../typechain-types';
+
+import { MAX_BATCH_GAS, SettlementPlanner } from '../sdk/batch';
+
+import { getDeployment } from './utils';
+
+task('nerwo:settle', 'Accept the ruled disputes and execute the expired fee timeouts in batches')
+    .addOptionalParam('maxGas', 'Gas limit of each batch transaction', MAX_BATCH_GAS.toString())
+    .addFlag('dryRun', 'Print the batches without sending')
+    .setAction(async ({ maxGas, dryRun }, hre) => {
+        // anyone can settle, the first configured account pays the gas
+        const escrow = await getDeployment<NerwoEscrow>(hre, 'NerwoEscrow');
+        const planner = new SettlementPlanner(escrow, { maxGas: BigInt(maxGas) });
+
+        const plan = await planner.plan();
+        // estimated once, printed and then submitted
+        const chunks = await planner.chunkPlan(plan);
+        for (const method of ['acceptRulings', 'timeOuts'] as const) {
+            for (const chunk of chunks[method]) {
+                console.log(`NerwoEscrow.${method}([${chunk.join(', ')}])`);
+            }
+        }
+
+        if (!plan.acceptRulings.length && !plan.timeOuts.length) {
+            console.log('Nothing to settle');
+            return [];
+        }
+
+        if (dryRun) {
+            return [];
+        }
+
+        const results = await planner.submitChunks(chunks);
+        for (const { method, transactionID, success, hash } of results) {
+            console.log(`  ${success ? '✔' : '✘'} ${method} ${transactionID} (${hash})`);
+        }
+        return results;
+    });
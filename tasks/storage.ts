@@ -0,0 +1,25 @@
+import { task } from 'hardhat/config';
+
+import { StorageLayoutError, checkUpgrade, compareStorageLayouts, getStorageLayout, readStorageLayout } from '../storage';
+
+task('nerwo:check-storage', 'Check that the compiled contract can upgrade a previous version without corrupting its storage')
+    .addOptionalParam('reference', 'Deployment, build-info or storage layout json of the previous version, ' +
+        'the implementation deployed on the network when omitted')
+    .addOptionalParam('contract', 'Contract to check', 'NerwoEscrow')
+    .setAction(async ({ reference, contract }, hre) => {
+        if (!reference) {
+            const implementation = await checkUpgrade(hre, contract);
+            if (!implementation) {
+                throw new Error(`${contract} is not deployed behind a proxy on ${hre.network.name}, give a reference`);
+            }
+            console.log(`${contract} storage layout is compatible with the implementation at ${implementation}`);
+            return;
+        }
+
+        const problems = compareStorageLayouts(await readStorageLayout(reference, contract),
+            await getStorageLayout(hre, contract));
+        if (problems.length) {
+            throw new StorageLayoutError(contract, problems);
+        }
+        console.log(`${contract} storage layout is compatible with ${reference}`);
+    });
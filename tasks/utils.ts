@@ -0,0 +1,136 @@
+import { BaseContract, getAddress, isAddress, isHexString } from 'ethers';
+import { HardhatRuntimeEnvironment } from 'hardhat/types';
+
+import { appendSafeTransaction } from './safe';
+
+export type StateDiff = Record<string, [before: unknown, after: unknown]>;
+
+export interface OwnableContract extends BaseContract {
+    owner(): Promise<string>;
+}
+
+export interface Operation {
+    contractName: string;
+    contract: OwnableContract;
+    method: string;
+    args: unknown[];
+    diff: StateDiff;
+    from?: string;  /* account allowed to run it, the contract owner when omitted */
+}
+
+export async function getDeployment<T extends BaseContract>(hre: HardhatRuntimeEnvironment, contractName: string) {
+    const deployment = await hre.deployments.get(contractName);
+    return await hre.ethers.getContractAt(contractName, deployment.address) as unknown as T;
+}
+
+export async function getDeploymentBlock(hre: HardhatRuntimeEnvironment, contractName: string) {
+    const deployment = await hre.deployments.get(contractName);
+    return deployment.receipt?.blockNumber ?? 0;
+}
+
+/**
+ * Return the local signer of `address`, undefined if its key is not configured.
+ */
+export async function findSigner(hre: HardhatRuntimeEnvironment, address: string) {
+    return (await hre.ethers.getSigners()).find((signer) => signer.address === getAddress(address));
+}
+
+/**
+ * Return the local signer owning `contract`, it fails if the owner key is not configured.
+ */
+export async function getOwnerSigner(hre: HardhatRuntimeEnvironment, contract: OwnableContract) {
+    const owner = await contract.owner();
+    const signer = await findSigner(hre, owner);
+    if (!signer) {
+        throw new Error(`Owner ${owner} is not among the configured accounts`);
+    }
+    return signer;
+}
+
+export function validateAddress(name: string, address: string) {
+    if (!isAddress(address)) {
+        throw new Error(`${name}: invalid address ${address}`);
+    }
+    return getAddress(address);
+}
+
+export async function validateContract(hre: HardhatRuntimeEnvironment, name: string, address: string) {
+    address = validateAddress(name, address);
+    if (await hre.ethers.provider.getCode(address) === '0x') {
+        throw new Error(`${name}: ${address} has no bytecode`);
+    }
+    return address;
+}
+
+export function validateHex(name: string, value: string) {
+    if (!isHexString(value)) {
+        throw new Error(`${name}: invalid hex string ${value}`);
+    }
+    return value;
+}
+
+function formatValue(value: unknown): string {
+    if (Array.isArray(value)) {
+        return `[${value.map(formatValue).join(', ')}]`;
+    }
+    return String(value);
+}
+
+export function describeOperation({ contractName, method, args, diff }: Operation) {
+    const changes = Object.entries(diff).map(([key, [before, after]]) =>
+        `${key}: ${formatValue(before)} -> ${formatValue(after)}`);
+    return [`${contractName}.${method}(${args.map(formatValue).join(', ')})`, ...changes].join('; ');
+}
+
+export function printOperation(to: string, { contractName, method, args, diff }: Operation, data: string) {
+    console.log(`${contractName}.${method}(${args.map(formatValue).join(', ')})`);
+    console.log(`  to:       ${to}`);
+    console.log(`  calldata: ${data}`);
+    for (const [key, [before, after]] of Object.entries(diff)) {
+        console.log(`  ${key}: ${formatValue(before)} -> ${formatValue(after)}`);
+    }
+}
+
+export interface ExecuteOptions {
+    dryRun?: boolean;
+    safe?: string;  /* Safe transaction-builder batch file to append to, instead of sending */
+}
+
+/**
+ * Run an owner-only operation: the call is simulated from the owner address first,
+ * or from `operation.from` when given, then it's sent unless `dryRun` is set,
+ * or appended to the `safe` batch file when the sender is a multisig.
+ * @returns The transaction hash, or undefined when not sent.
+ */
+export async function execute(hre: HardhatRuntimeEnvironment, operation: Operation, { dryRun, safe }: ExecuteOptions) {
+    const { contract, method, args } = operation;
+
+    const to = await contract.getAddress();
+    const from = operation.from ?? await contract.owner();
+    const data = contract.interface.encodeFunctionData(method, args);
+
+    // fail early on reverts
+    await hre.ethers.provider.call({ from, to, data });
+
+    printOperation(to, operation, data);
+
+    if (dryRun) {
+        return undefined;
+    }
+
+    if (safe) {
+        const { transactions } = await appendSafeTransaction(hre, safe, from,
+            { to, data, description: describeOperation(operation) });
+        console.log(`  safe:     ${safe} (${transactions.length} transactions for ${from})`);
+        return undefined;
+    }
+
+    const signer = operation.from ? await findSigner(hre, operation.from) : await getOwnerSigner(hre, contract);
+    if (!signer) {
+        throw new Error(`${from} is not among the configured accounts`);
+    }
+    const tx = await signer.sendTransaction({ to, data });
+    await tx.wait();
+    console.log(`  tx:       ${tx.hash}`);
+    return tx.hash;
+}
@@ -0,0 +1,61 @@
+import { task } from 'hardhat/config';
+
+import type { NerwoEscrow } from '../typechain-types';
+
+import { ARBITRATOR_EXTRA_DATA, FEE_TIMEOUT, TokenAllow } from '../constants';
+import { resolveEscrowArgs, resolveEscrowWhitelist } from '../constructors';
+
+import { getDeployment } from './utils';
+
+export interface Check {
+    name: string;
+    expected: unknown;
+    actual: unknown;
+    ok: boolean;
+}
+
+function check(name: string, expected: unknown, actual: unknown): Check {
+    const normalize = (value: unknown) => typeof value === 'string' ? value.toLowerCase() : String(value);
+    return { name, expected, actual, ok: normalize(expected) === normalize(actual) };
+}
+
+task('nerwo:verify-deployment', 'Check the deployed NerwoEscrow state against the configuration')
+    .setAction(async (_, hre) => {
+        const escrow = await getDeployment<NerwoEscrow>(hre, 'NerwoEscrow');
+
+        const [owner, [arbitrator, proxy], metaEvidenceURI, feeRecipient, feeRecipientBasisPoint, , forwarder] =
+            await resolveEscrowArgs(hre) as [string, string[], string, string, number, TokenAllow[], string];
+        const whitelist = await resolveEscrowWhitelist(hre);
+
+        const arbitratorData = await escrow.arbitratorData();
+        const feeRecipientData = await escrow.feeRecipientData();
+
+        const checks = [
+            check('owner', owner, await escrow.owner()),
+            check('arbitratorData.arbitrator', arbitrator, arbitratorData.arbitrator),
+            check('arbitratorData.proxy', proxy, arbitratorData.proxy),
+            check('arbitratorData.feeTimeout', FEE_TIMEOUT, arbitratorData.feeTimeout),
+            check('arbitratorData.metaEvidenceURI', metaEvidenceURI, arbitratorData.metaEvidenceURI),
+            check('arbitratorData.extraData', ARBITRATOR_EXTRA_DATA, arbitratorData.extraData),
+            check('feeRecipientData.feeRecipient', feeRecipient, feeRecipientData.feeRecipient),
+            check('feeRecipientData.feeRecipientBasisPoint', feeRecipientBasisPoint,
+                feeRecipientData.feeRecipientBasisPoint),
+            check('trustedForwarder', forwarder, await escrow.trustedForwarder())
+        ];
+
+        for (const { token } of whitelist) {
+            checks.push(check(`tokens(${token})`, true, await escrow.tokens(token)));
+        }
+
+        for (const { name, expected, actual, ok } of checks) {
+            console.log(ok ? `  ✔ ${name}: ${actual}` : `  ✘ ${name}: expected ${expected}, got ${actual}`);
+        }
+
+        const failed = checks.filter(({ ok }) => !ok).length;
+        if (failed) {
+            throw new Error(`NerwoEscrow at ${await escrow.getAddress()}: ${failed} of ${checks.length} checks failed`);
+        }
+
+        console.log(`NerwoEscrow at ${await escrow.getAddress()}: all ${checks.length} checks passed`);
+        return checks;
+    });
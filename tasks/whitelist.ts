@@ -0,0 +1,105 @@
+import { promises as fs } from 'node:fs';
+import { task } from 'hardhat/config';
+import { HardhatRuntimeEnvironment } from 'hardhat/types';
+import { Contract } from 'ethers';
+
+import type { NerwoEscrow } from '../typechain-types';
+
+import { TokenAllow } from '../constants';
+
+import { execute, getDeployment, getDeploymentBlock, validateContract } from './utils';
+
+const ERC20_METADATA_ABI = [
+    'function decimals() view returns (uint8)',
+    'function symbol() view returns (string)'
+];
+
+/**
+ * Replay WhitelistChanged events to get the currently whitelisted tokens.
+ */
+export async function getWhitelist(hre: HardhatRuntimeEnvironment) {
+    const escrow = await getDeployment<NerwoEscrow>(hre, 'NerwoEscrow');
+    const fromBlock = await getDeploymentBlock(hre, 'NerwoEscrow');
+
+    const whitelist = new Map<string, boolean>();
+    for (const event of await escrow.queryFilter(escrow.filters.WhitelistChanged(), fromBlock)) {
+        whitelist.set(event.args.token, event.args.allow);
+    }
+
+    return [...whitelist].filter(([, allow]) => allow).map(([token]) => token);
+}
+
+/**
+ * @returns The token addresses lacking `decimals()` or `symbol()`.
+ */
+export async function findTokensWithoutMetadata(hre: HardhatRuntimeEnvironment, tokens: string[]) {
+    const flagged = [];
+    for (const token of tokens) {
+        const erc20 = new Contract(token, ERC20_METADATA_ABI, hre.ethers.provider);
+        try {
+            await erc20.decimals();
+            await erc20.symbol();
+        } catch (_) {
+            flagged.push(token);
+        }
+    }
+    return flagged;
+}
+
+/**
+ * Compute the minimal changeWhitelist batch turning the current whitelist into `desired`.
+ */
+export async function reconcileWhitelist(hre: HardhatRuntimeEnvironment, desired: string[]) {
+    const tokens = new Set<string>();
+    for (const address of desired) {
+        tokens.add(await validateContract(hre, 'token', address));
+    }
+
+    const current = await getWhitelist(hre);
+
+    const batch = [
+        ...[...tokens].filter((token) => !current.includes(token)).map((token) => new TokenAllow(token, true)),
+        ...current.filter((token) => !tokens.has(token)).map((token) => new TokenAllow(token, false))
+    ];
+
+    const flagged = await findTokensWithoutMetadata(hre, batch.filter(({ allow }) => allow).map(({ token }) => token));
+
+    return { current, batch, flagged };
+}
+
+task('nerwo:reconcile-whitelist', 'Align the escrow whitelist to a declarative token list')
+    .addParam('file', 'JSON file with the array of token addresses to whitelist')
+    .addFlag('force', 'Submit even if some tokens lack ERC20 metadata')
+    .addFlag('dryRun', 'Print calldata and state diff without sending')
+    .addOptionalParam('safe', 'Append to this Safe transaction-builder batch file instead of sending')
+    .setAction(async ({ file, force, dryRun, safe }, hre) => {
+        const desired = JSON.parse(await fs.readFile(file, 'utf8'));
+        if (!Array.isArray(desired)) {
+            throw new Error(`${file}: expected an array of token addresses`);
+        }
+
+        const { batch, flagged } = await reconcileWhitelist(hre, desired);
+
+        if (!batch.length) {
+            console.log('Whitelist is up to date');
+            return undefined;
+        }
+
+        for (const token of flagged) {
+            console.log(`  ✘ ${token}: missing ERC20 decimals() or symbol()`);
+        }
+
+        if (flagged.length && !force) {
+            throw new Error(`${flagged.length} tokens lack ERC20 metadata, use --force to submit anyway`);
+        }
+
+        const escrow = await getDeployment<NerwoEscrow>(hre, 'NerwoEscrow');
+
+        return execute(hre, {
+            contractName: 'NerwoEscrow',
+            contract: escrow,
+            method: 'changeWhitelist',
+            args: [batch.map(({ token, allow }) => [token, allow])],
+            diff: Object.fromEntries(batch.map(({ token, allow }) => [`tokens(${token})`, [!allow, allow]]))
+        }, { dryRun, safe });
+    });
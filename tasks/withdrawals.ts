@@ -0,0 +1,57 @@
+import { task, types } from 'hardhat/config';
+
+import type { NerwoEscrow } from '../typechain-types';
+
+import { getDeployment, getDeploymentBlock } from './utils';
+
+export interface UnclaimedBalance {
+    recipient: string;
+    token: string;
+    credited: bigint;   /* sum of the SendFailed amounts */
+    withdrawn: bigint;  /* sum of the Withdrawal amounts */
+    balance: bigint;    /* pendingWithdrawals on chain */
+    reconciled: boolean;
+}
+
+task('nerwo:unclaimed', 'List the failed party transfers not yet withdrawn, reconciled against the escrow events')
+    .addOptionalParam('fromBlock', 'First block to scan, the escrow deployment block when omitted',
+        undefined, types.int)
+    .setAction(async ({ fromBlock }, hre): Promise<UnclaimedBalance[]> => {
+        const escrow = await getDeployment<NerwoEscrow>(hre, 'NerwoEscrow');
+        fromBlock ??= await getDeploymentBlock(hre, 'NerwoEscrow');
+
+        const ledger = new Map<string, UnclaimedBalance>();
+        const entry = (recipient: string, token: string) => {
+            const key = `${recipient}:${token}`;
+            if (!ledger.has(key)) {
+                ledger.set(key, { recipient, token, credited: 0n, withdrawn: 0n, balance: 0n, reconciled: true });
+            }
+            return ledger.get(key)!;
+        };
+
+        // the escrow only emits SendFailed for the transfers it credits
+        for (const { args } of await escrow.queryFilter(escrow.filters.SendFailed(), fromBlock)) {
+            entry(args.recipient, args.token).credited += args.amount;
+        }
+        for (const { args } of await escrow.queryFilter(escrow.filters.Withdrawal(), fromBlock)) {
+            entry(args.recipient, args.token).withdrawn += args.amount;
+        }
+
+        const unclaimed: UnclaimedBalance[] = [];
+        for (const balance of ledger.values()) {
+            balance.balance = await escrow.pendingWithdrawals(balance.recipient, balance.token);
+            balance.reconciled = balance.balance === balance.credited - balance.withdrawn;
+            if (balance.balance !== 0n || !balance.reconciled) {
+                unclaimed.push(balance);
+            }
+        }
+
+        if (!unclaimed.length) {
+            console.log('No unclaimed balances');
+        }
+        for (const { recipient, token, credited, withdrawn, balance, reconciled } of unclaimed) {
+            console.log(`${recipient} ${token}: ${balance}` +
+                (reconciled ? '' : ` (MISMATCH: credited ${credited}, withdrawn ${withdrawn})`));
+        }
+        return unclaimed;
+    });
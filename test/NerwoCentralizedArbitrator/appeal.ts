@@ -0,0 +1,130 @@
+import { expect } from 'chai';
+import { deployments } from 'hardhat';
+import { time } from '@nomicfoundation/hardhat-network-helpers';
+import { MaxUint256, ZeroAddress } from 'ethers';
+import { SignerWithAddress } from '@nomicfoundation/hardhat-ethers/signers';
+
+import { NerwoCentralizedArbitrator, NerwoEscrow, NerwoTetherToken } from '../../typechain-types';
+import { Status } from '../../sdk';
+
+import * as constants from '../../constants';
+import { DisputeStatus } from '../../tasks/disputes';
+import { Actor, createDispute, getContracts, getSigners } from '../utils';
+
+const APPEAL_WINDOW = 86400;
+
+describe('NerwoCentralizedArbitrator: appeal', function () {
+  before(async () => {
+    await deployments.fixture(['NerwoEscrow', 'NerwoTetherToken'], {
+      keepExistingDeployments: true
+    });
+  });
+
+  let escrow: NerwoEscrow;
+  let proxy: NerwoCentralizedArbitrator;
+  let usdt: NerwoTetherToken;
+
+  let deployer: SignerWithAddress;
+  let platform: SignerWithAddress;
+  let court: SignerWithAddress;
+  let client: SignerWithAddress;
+  let freelancer: SignerWithAddress;
+
+  let appealCost: bigint;
+
+  const actor = new Actor();
+
+  beforeEach(async () => {
+    ({ escrow, proxy, usdt } = await getContracts());
+    ({ deployer, platform, court, client, freelancer } = await getSigners());
+    appealCost = await escrow.getArbitrationCost();
+  });
+
+  after(async () => {
+    await proxy.connect(court).setAppealSettings(0, ZeroAddress);
+  });
+
+  it('setAppealSettings', async () => {
+    await expect(proxy.connect(platform).setAppealSettings(APPEAL_WINDOW, deployer.address))
+      .to.be.revertedWithCustomError(proxy, 'OwnableUnauthorizedAccount');
+
+    await expect(proxy.connect(court).setAppealSettings(APPEAL_WINDOW, deployer.address))
+      .to.emit(proxy, 'AppealSettingsChanged').withArgs(APPEAL_WINDOW, deployer.address);
+
+    expect(await proxy.appealWindow()).to.be.equal(APPEAL_WINDOW);
+    expect(await proxy.appealArbitrator()).to.be.equal(deployer.address);
+  });
+
+  it('appeals up to the final ruling accepted by the escrow', async () => {
+    const { transactionID, disputeID, amount } = await createDispute(actor, usdt);
+
+    await expect(escrow.connect(client).appeal(transactionID, { value: appealCost }))
+      .to.be.revertedWithCustomError(proxy, 'InvalidStatus').withArgs(DisputeStatus.Appealable);
+    // the appeal arbitrator only rules appealed disputes
+    await expect(proxy.connect(deployer).giveRuling(disputeID, constants.Ruling.ClientWins))
+      .to.be.revertedWithCustomError(proxy, 'OwnableUnauthorizedAccount');
+
+    // first ruling, both parties can appeal a split
+    await expect(proxy.connect(court).giveRuling(disputeID, constants.Ruling.SplitAmount))
+      .to.emit(proxy, 'AppealPossible').withArgs(disputeID, await proxy.getAddress());
+
+    const [start, end] = await proxy.appealPeriod(disputeID);
+    expect(end - start).to.be.equal(APPEAL_WINDOW);
+    expect(await proxy.disputeStatus(disputeID)).to.be.equal(DisputeStatus.Appealable);
+    expect((await escrow.fetchRuling(transactionID)).isRuled).to.be.equal(false);
+    expect(await escrow.getAppealCost(transactionID)).to.be.equal(appealCost);
+    await expect(escrow.connect(freelancer).acceptRuling(transactionID))
+      .to.be.revertedWithCustomError(escrow, 'NotRuled');
+
+    await expect(escrow.connect(platform).appeal(transactionID, { value: appealCost }))
+      .to.be.revertedWithCustomError(escrow, 'InvalidCaller');
+    await expect(proxy.connect(client).appeal(disputeID, '0x', { value: appealCost }))
+      .to.be.revertedWithCustomError(proxy, 'InvalidCaller').withArgs(await escrow.getAddress());
+
+    await expect(escrow.connect(client).appeal(transactionID, { value: appealCost }))
+      .to.emit(proxy, 'AppealDecision').withArgs(disputeID, await proxy.getAddress());
+
+    expect(await proxy.disputeStatus(disputeID)).to.be.equal(DisputeStatus.Waiting);
+    expect(await escrow.getAppealCost(transactionID)).to.be.equal(MaxUint256);
+
+    // second ruling by the appeal arbitrator, only the freelancer can appeal
+    const tx = proxy.connect(deployer).giveRuling(disputeID, constants.Ruling.ClientWins);
+    await expect(tx).to.changeEtherBalances([proxy, deployer], [-appealCost, appealCost]);
+
+    await expect(escrow.connect(client).appeal(transactionID, { value: appealCost }))
+      .to.be.revertedWithCustomError(escrow, 'InvalidCaller');
+    await expect(escrow.connect(freelancer).appeal(transactionID, { value: appealCost - 1n }))
+      .to.be.revertedWithCustomError(proxy, 'InsufficientPayment');
+    await escrow.connect(freelancer).appeal(transactionID, { value: appealCost });
+
+    // third ruling, not appealed in time
+    await proxy.connect(court).giveRuling(disputeID, constants.Ruling.FreelancerWins);
+    await time.increase(APPEAL_WINDOW);
+
+    await expect(escrow.connect(client).appeal(transactionID, { value: appealCost }))
+      .to.be.revertedWithCustomError(proxy, 'InvalidStatus').withArgs(DisputeStatus.Appealable);
+    expect(await proxy.disputeStatus(disputeID)).to.be.equal(DisputeStatus.Solved);
+    expect((await proxy.getDispute(disputeID)).appeals).to.be.equal(2);
+    expect(await escrow.fetchRuling(transactionID)).to.deep.equal([true, BigInt(constants.Ruling.FreelancerWins)]);
+
+    const feeAmount = await escrow.calculateFeeRecipientAmount(amount);
+    await expect(escrow.connect(freelancer).acceptRuling(transactionID)).to.changeTokenBalances(
+      usdt,
+      [escrow, platform, freelancer],
+      [-amount, feeAmount, amount - feeAmount]
+    );
+    expect((await escrow.getTransaction(transactionID)).status).to.be.equal(Status.Resolved);
+  });
+
+  it('rulings are final without an appeal window', async () => {
+    await proxy.connect(court).setAppealSettings(0, ZeroAddress);
+
+    const { transactionID, disputeID } = await createDispute(actor, usdt);
+    await proxy.connect(court).giveRuling(disputeID, constants.Ruling.ClientWins);
+
+    expect(await proxy.disputeStatus(disputeID)).to.be.equal(DisputeStatus.Solved);
+    expect(await proxy.appealPeriod(disputeID)).to.deep.equal([0n, 0n]);
+    await expect(escrow.connect(freelancer).appeal(transactionID, { value: appealCost }))
+      .to.be.revertedWithCustomError(proxy, 'InvalidStatus');
+  });
+});
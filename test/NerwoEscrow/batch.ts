@@ -0,0 +1,103 @@
+import { expect } from 'chai';
+import { deployments } from 'hardhat';
+import { time } from '@nomicfoundation/hardhat-network-helpers';
+import { SignerWithAddress } from '@nomicfoundation/hardhat-ethers/signers';
+
+import { NerwoCentralizedArbitrator, NerwoEscrow, NerwoTetherToken } from '../../typechain-types';
+
+import { Status } from '../../sdk';
+
+import * as constants from '../../constants';
+import { Actor, createDispute, createTransaction, getContracts, getSigners, randomAmount } from '../utils';
+
+describe('NerwoEscrow: batch', function () {
+  before(async () => {
+    await deployments.fixture(['NerwoEscrow', 'NerwoTetherToken'], {
+      keepExistingDeployments: true
+    });
+  });
+
+  let escrow: NerwoEscrow;
+  let proxy: NerwoCentralizedArbitrator;
+  let usdt: NerwoTetherToken;
+
+  let platform: SignerWithAddress;
+  let court: SignerWithAddress;
+  let client: SignerWithAddress;
+  let freelancer: SignerWithAddress;
+
+  let arbitrationCost: bigint;
+
+  const actor = new Actor();
+
+  beforeEach(async () => {
+    ({ escrow, proxy, usdt } = await getContracts());
+    ({ platform, court, client, freelancer } = await getSigners());
+    arbitrationCost = await escrow.getArbitrationCost();
+  });
+
+  it('acceptRulings settles the ruled disputes and skips the others', async () => {
+    const ruled = await createDispute(actor, usdt);
+    const unruled = await createDispute(actor, usdt);
+    const open = await createTransaction(client, freelancer.address, usdt, await randomAmount());
+
+    await proxy.connect(court).giveRuling(ruled.disputeID, constants.Ruling.ClientWins);
+
+    const missing = (await escrow.lastTransaction()) + 1n;
+    const tx = escrow.connect(platform)
+      .acceptRulings([ruled.transactionID, unruled.transactionID, open, missing, ruled.transactionID]);
+
+    await expect(tx).to.changeTokenBalances(usdt, [escrow, client], [-ruled.amount, ruled.amount]);
+    await expect(tx).to.emit(escrow, 'BatchResult').withArgs(ruled.transactionID, true);
+    await expect(tx).to.emit(escrow, 'BatchResult').withArgs(unruled.transactionID, false);
+    await expect(tx).to.emit(escrow, 'BatchResult').withArgs(open, false);
+    await expect(tx).to.emit(escrow, 'BatchResult').withArgs(missing, false);
+
+    // the repeated ID is skipped once resolved
+    const receipt = await (await tx).wait();
+    const results = receipt!.logs.map((log) => escrow.interface.parseLog({ topics: [...log.topics], data: log.data }))
+      .filter((parsed) => parsed?.name === 'BatchResult').map((parsed) => parsed!.args.success);
+    expect(results).to.deep.equal([true, false, false, false, false]);
+
+    expect((await escrow.getTransaction(ruled.transactionID)).status).to.be.equal(Status.Resolved);
+    expect((await escrow.getTransaction(unruled.transactionID)).status).to.be.equal(Status.DisputeCreated);
+  });
+
+  it('timeOuts settles the expired fee timeouts in favor of the party that paid', async () => {
+    const clientPaid = await createTransaction(client, freelancer.address, usdt, await randomAmount());
+    const freelancerPaid = await createTransaction(client, freelancer.address, usdt, await randomAmount());
+    const notExpired = await createTransaction(client, freelancer.address, usdt, await randomAmount());
+    const open = await createTransaction(client, freelancer.address, usdt, await randomAmount());
+
+    await escrow.connect(client).payArbitrationFee(clientPaid, { value: arbitrationCost });
+    await escrow.connect(freelancer).payArbitrationFee(freelancerPaid, { value: arbitrationCost });
+    await time.increase(constants.FEE_TIMEOUT);
+    await escrow.connect(client).payArbitrationFee(notExpired, { value: arbitrationCost });
+
+    const clientAmount = (await escrow.getTransaction(clientPaid)).amount;
+    const freelancerAmount = (await escrow.getTransaction(freelancerPaid)).amount;
+    const feeAmount = await escrow.calculateFeeRecipientAmount(freelancerAmount);
+
+    const tx = escrow.connect(platform).timeOuts([clientPaid, freelancerPaid, notExpired, open]);
+
+    await expect(tx).to.changeTokenBalances(
+      usdt,
+      [escrow, platform, client, freelancer],
+      [-(clientAmount + freelancerAmount), feeAmount, clientAmount, freelancerAmount - feeAmount]
+    );
+    await expect(tx).to.changeEtherBalances([escrow, client, freelancer], [-2n * arbitrationCost, arbitrationCost,
+      arbitrationCost]);
+
+    await expect(tx).to.emit(escrow, 'BatchResult').withArgs(clientPaid, true);
+    await expect(tx).to.emit(escrow, 'BatchResult').withArgs(freelancerPaid, true);
+    await expect(tx).to.emit(escrow, 'BatchResult').withArgs(notExpired, false);
+    await expect(tx).to.emit(escrow, 'BatchResult').withArgs(open, false);
+
+    expect((await escrow.getTransaction(notExpired)).status).to.be.equal(Status.WaitingFreelancer);
+  });
+
+  it('an empty batch does nothing', async () => {
+    await expect(escrow.acceptRulings([])).to.not.emit(escrow, 'BatchResult');
+    await expect(escrow.timeOuts([])).to.not.emit(escrow, 'BatchResult');
+  });
+});
@@ -26,7 +26,7 @@ describe('NerwoEscrow: changeWhitelist', function () {
   });
 
   it('change whitelist', async () => {
-    await escrow.connect(platform).changeWhitelist(constants.getTokenWhitelist(await usdt.getAddress()));
+    await escrow.connect(platform).changeWhitelist(constants.getTokenWhitelist([], await usdt.getAddress()));
   });
 
   it('errors', async () => {
@@ -0,0 +1,147 @@
+import { expect } from 'chai';
+import { deployments } from 'hardhat';
+import { time } from '@nomicfoundation/hardhat-network-helpers';
+import { SignerWithAddress } from '@nomicfoundation/hardhat-ethers/signers';
+
+import { NerwoEscrow, NerwoTetherToken } from '../../typechain-types';
+
+import { getContracts, getSigners, createTransaction, randomAmount, partialAmounts, NativeToken } from '../utils';
+
+const RELEASE_TIMEOUT = 14 * 24 * 3600;
+
+describe('NerwoEscrow: claim', function () {
+  before(async () => {
+    await deployments.fixture(['NerwoEscrow', 'NerwoTetherToken'], {
+      keepExistingDeployments: true
+    });
+  });
+
+  let escrow: NerwoEscrow;
+  let usdt: NerwoTetherToken;
+
+  let platform: SignerWithAddress;
+  let client: SignerWithAddress;
+  let freelancer: SignerWithAddress;
+
+  let arbitrationPrice: bigint;
+
+  beforeEach(async () => {
+    ({ escrow, usdt } = await getContracts());
+    ({ platform, client, freelancer } = await getSigners());
+    arbitrationPrice = await escrow.getArbitrationCost();
+  });
+
+  async function createTransactionWithDeadline(amount: bigint) {
+    await usdt.connect(client).mint(amount);
+    await usdt.connect(client).approve(await escrow.getAddress(), amount);
+
+    const tx = escrow.connect(client)
+      .createTransactionWithDeadline(await usdt.getAddress(), amount, freelancer.address, RELEASE_TIMEOUT);
+    await expect(tx).to.emit(escrow, 'TransactionCreated');
+
+    const transactionID = await escrow.lastTransaction();
+    expect((await escrow.getTransaction(transactionID)).releaseTimeout).to.be.equal(RELEASE_TIMEOUT);
+    return transactionID;
+  }
+
+  it('InvalidDeadline', async () => {
+    const amount = await randomAmount();
+
+    await expect(escrow.connect(client)
+      .createTransactionWithDeadline(await usdt.getAddress(), amount, freelancer.address, 0))
+      .to.be.revertedWithCustomError(escrow, 'InvalidDeadline');
+
+    const transactionID = await createTransaction(client, freelancer.address, usdt, amount);
+    await time.increase(RELEASE_TIMEOUT);
+
+    await expect(escrow.connect(freelancer).claim(transactionID))
+      .to.be.revertedWithCustomError(escrow, 'InvalidDeadline');
+  });
+
+  it('NoTimeout', async () => {
+    const transactionID = await createTransactionWithDeadline(await randomAmount());
+
+    await time.increase(RELEASE_TIMEOUT - 10);
+
+    await expect(escrow.connect(freelancer).claim(transactionID))
+      .to.be.revertedWithCustomError(escrow, 'NoTimeout');
+  });
+
+  it('InvalidCaller', async () => {
+    const transactionID = await createTransactionWithDeadline(await randomAmount());
+
+    await time.increase(RELEASE_TIMEOUT);
+
+    await expect(escrow.connect(client).claim(transactionID))
+      .to.be.revertedWithCustomError(escrow, 'InvalidCaller');
+  });
+
+  it('InvalidStatus', async () => {
+    const transactionID = await createTransactionWithDeadline(await randomAmount());
+
+    await escrow.connect(client).payArbitrationFee(transactionID, { value: arbitrationPrice });
+    await time.increase(RELEASE_TIMEOUT);
+
+    await expect(escrow.connect(freelancer).claim(transactionID))
+      .to.be.revertedWithCustomError(escrow, 'InvalidStatus');
+  });
+
+  it('Claim', async () => {
+    const amount = await randomAmount();
+    const feeAmount = await escrow.calculateFeeRecipientAmount(amount);
+    const transactionID = await createTransactionWithDeadline(amount);
+
+    await time.increase(RELEASE_TIMEOUT);
+
+    const tx = escrow.connect(freelancer).claim(transactionID);
+
+    await expect(tx).to.changeTokenBalances(
+      usdt,
+      [escrow, platform, client, freelancer],
+      [-amount, feeAmount, 0, amount - feeAmount]
+    );
+
+    await expect(tx).to.emit(escrow, 'Payment')
+      .withArgs(transactionID, client.address, freelancer.address, await usdt.getAddress(), amount - feeAmount);
+
+    await expect(tx).to.emit(escrow, 'FeeRecipientPayment')
+      .withArgs(transactionID, platform.address, await usdt.getAddress(), feeAmount);
+
+    await expect(escrow.connect(freelancer).claim(transactionID))
+      .to.be.revertedWithCustomError(escrow, 'InvalidAmount');
+  });
+
+  it('Claim what is left after a partial payment', async () => {
+    const amount = await randomAmount();
+    const transactionID = await createTransactionWithDeadline(amount);
+
+    const [paid, left] = partialAmounts(amount, 2);
+    await escrow.connect(client).pay(transactionID, paid);
+
+    await time.increase(RELEASE_TIMEOUT);
+
+    const feeAmount = await escrow.calculateFeeRecipientAmount(left);
+
+    await expect(escrow.connect(freelancer).claim(transactionID)).to.changeTokenBalances(
+      usdt,
+      [escrow, platform, freelancer],
+      [-left, feeAmount, left - feeAmount]
+    );
+  });
+
+  it('Claim (Native)', async () => {
+    const amount = await randomAmount();
+    const feeAmount = await escrow.calculateFeeRecipientAmount(amount);
+
+    await escrow.connect(client)
+      .createTransactionWithDeadline(NativeToken, amount, freelancer.address, RELEASE_TIMEOUT, { value: amount });
+    const transactionID = await escrow.lastTransaction();
+
+    await time.increase(RELEASE_TIMEOUT);
+
+    await expect(escrow.connect(freelancer).claim(transactionID)).to.changeEtherBalances(
+      [escrow, platform, freelancer],
+      [-amount, feeAmount, amount - feeAmount]
+    );
+  });
+});
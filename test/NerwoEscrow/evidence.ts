@@ -0,0 +1,77 @@
+import { expect } from 'chai';
+import { deployments } from 'hardhat';
+import { SignerWithAddress } from '@nomicfoundation/hardhat-ethers/signers';
+
+import { NerwoCentralizedArbitrator, NerwoEscrow, NerwoTetherToken } from '../../typechain-types';
+
+import * as constants from '../../constants';
+import { Actor, createDispute, createTransaction, getContracts, getSigners, randomAmount } from '../utils';
+
+describe('NerwoEscrow: submitEvidence', function () {
+  before(async () => {
+    await deployments.fixture(['NerwoEscrow', 'NerwoTetherToken'], {
+      keepExistingDeployments: true
+    });
+  });
+
+  let escrow: NerwoEscrow;
+  let proxy: NerwoCentralizedArbitrator;
+  let usdt: NerwoTetherToken;
+
+  let platform: SignerWithAddress;
+  let court: SignerWithAddress;
+  let client: SignerWithAddress;
+  let freelancer: SignerWithAddress;
+
+  const actor = new Actor();
+
+  beforeEach(async () => {
+    ({ escrow, proxy, usdt } = await getContracts());
+    ({ platform, court, client, freelancer } = await getSigners());
+  });
+
+  it('testing errors', async () => {
+    const transactionID = await createTransaction(client, freelancer.address, usdt, await randomAmount());
+
+    await expect(escrow.connect(client).submitEvidence(transactionID, '/ipfs/evidence.json'))
+      .to.be.revertedWithCustomError(escrow, 'InvalidStatus');
+
+    await escrow.connect(client).payArbitrationFee(transactionID, { value: await escrow.getArbitrationCost() });
+    await expect(escrow.connect(client).submitEvidence(transactionID, '/ipfs/evidence.json'))
+      .to.be.revertedWithCustomError(escrow, 'InvalidStatus');
+
+    await expect(escrow.connect(platform).submitEvidence(transactionID, '/ipfs/evidence.json'))
+      .to.be.revertedWithCustomError(escrow, 'InvalidCaller');
+
+    await expect(escrow.connect(client).submitEvidence(0, '/ipfs/evidence.json'))
+      .to.be.revertedWithCustomError(escrow, 'InvalidTransaction');
+  });
+
+  it('both parties submit evidence to the dispute', async () => {
+    const { transactionID, disputeID } = await createDispute(actor, usdt);
+    const localID = await proxy.externalIDtoLocalID(disputeID);
+
+    await expect(escrow.connect(platform).submitEvidence(transactionID, '/ipfs/evidence.json'))
+      .to.be.revertedWithCustomError(escrow, 'InvalidCaller');
+
+    for (const party of [client, freelancer]) {
+      const uri = `/ipfs/${party.address}.json`;
+      const tx = escrow.connect(party).submitEvidence(transactionID, uri);
+      await expect(tx).to.emit(escrow, 'EvidenceSubmitted').withArgs(transactionID, party.address, uri);
+      await expect(tx).to.emit(proxy, 'Evidence').withArgs(await proxy.getAddress(), localID, await escrow.getAddress(), uri);
+    }
+  });
+
+  it('no evidence once ruled', async () => {
+    const { transactionID, disputeID } = await createDispute(actor, usdt);
+    await proxy.connect(court).giveRuling(disputeID, constants.Ruling.FreelancerWins);
+
+    // ruled but not yet accepted
+    await expect(escrow.connect(client).submitEvidence(transactionID, '/ipfs/late.json'))
+      .to.be.revertedWithCustomError(proxy, 'AlreadyResolved');
+
+    await escrow.connect(freelancer).acceptRuling(transactionID);
+    await expect(escrow.connect(client).submitEvidence(transactionID, '/ipfs/late.json'))
+      .to.be.revertedWithCustomError(escrow, 'InvalidStatus');
+  });
+});
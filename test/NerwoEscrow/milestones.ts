@@ -0,0 +1,265 @@
+import { time } from '@nomicfoundation/hardhat-network-helpers';
+import { expect } from 'chai';
+import { deployments } from 'hardhat';
+import { ZeroAddress } from 'ethers';
+import { SignerWithAddress } from '@nomicfoundation/hardhat-ethers/signers';
+
+import { NerwoCentralizedArbitrator, NerwoEscrow, NerwoTetherToken } from '../../typechain-types';
+
+import { Status } from '../../sdk';
+
+import * as constants from '../../constants';
+import { createMilestoneTransaction, getContracts, getSigners, randomAmount } from '../utils';
+
+describe('NerwoEscrow: milestones', function () {
+  before(async () => {
+    await deployments.fixture(['NerwoEscrow', 'NerwoTetherToken'], {
+      keepExistingDeployments: true
+    });
+  });
+
+  let escrow: NerwoEscrow;
+  let proxy: NerwoCentralizedArbitrator;
+  let usdt: NerwoTetherToken;
+
+  let platform: SignerWithAddress;
+  let court: SignerWithAddress;
+  let client: SignerWithAddress;
+  let freelancer: SignerWithAddress;
+
+  let milestones: bigint[];
+  let arbitrationCost: bigint;
+
+  beforeEach(async () => {
+    ({ escrow, proxy, usdt } = await getContracts());
+    ({ platform, court, client, freelancer } = await getSigners());
+    milestones = [await randomAmount(), await randomAmount(), await randomAmount()];
+    arbitrationCost = await escrow.getArbitrationCost();
+  });
+
+  async function payMilestone(transactionID: bigint, milestone: number) {
+    const amount = milestones[milestone];
+    const feeAmount = await escrow.calculateFeeRecipientAmount(amount);
+
+    const tx = escrow.connect(client).payMilestone(transactionID, milestone);
+
+    await expect(tx).to.changeTokenBalances(
+      usdt,
+      [escrow, platform, client, freelancer],
+      [-amount, feeAmount, 0, amount - feeAmount]
+    );
+
+    await expect(tx).to.emit(escrow, 'MilestoneClosed').withArgs(transactionID, milestone);
+    await expect(tx).to.emit(escrow, 'Payment')
+      .withArgs(transactionID, client.address, freelancer.address, await usdt.getAddress(), amount - feeAmount);
+    await expect(tx).to.emit(escrow, 'FeeRecipientPayment')
+      .withArgs(transactionID, platform.address, await usdt.getAddress(), feeAmount);
+  }
+
+  async function reimburseMilestone(transactionID: bigint, milestone: number) {
+    const amount = milestones[milestone];
+
+    const tx = escrow.connect(freelancer).reimburseMilestone(transactionID, milestone);
+
+    await expect(tx).to.changeTokenBalances(
+      usdt,
+      [escrow, platform, client, freelancer],
+      [-amount, 0, amount, 0]
+    );
+
+    await expect(tx).to.emit(escrow, 'MilestoneClosed').withArgs(transactionID, milestone);
+    await expect(tx).to.emit(escrow, 'Reimburse')
+      .withArgs(transactionID, freelancer.address, client.address, await usdt.getAddress(), amount);
+  }
+
+  async function createDispute(transactionID: bigint) {
+    await escrow.connect(client).payArbitrationFee(transactionID, { value: arbitrationCost });
+    await escrow.connect(freelancer).payArbitrationFee(transactionID, { value: arbitrationCost });
+    return (await escrow.getTransaction(transactionID)).disputeID;
+  }
+
+  it('testing errors', async () => {
+    const token = await usdt.getAddress();
+
+    await expect(escrow.connect(client).createMilestoneTransaction(token, [], freelancer.address))
+      .to.be.revertedWithCustomError(escrow, 'InvalidAmount');
+
+    await expect(escrow.connect(client).createMilestoneTransaction(token, [milestones[0], 9999n], freelancer.address))
+      .to.be.revertedWithCustomError(escrow, 'InvalidAmount');
+
+    await expect(escrow.connect(client).createMilestoneTransaction(ZeroAddress, milestones, freelancer.address,
+      { value: milestones[0] }))
+      .to.be.revertedWithCustomError(escrow, 'InvalidAmount');
+
+    await expect(escrow.connect(client).createMilestoneTransaction(token, milestones, client.address))
+      .to.be.revertedWithCustomError(escrow, 'InvalidCaller');
+
+    const transactionID = await createMilestoneTransaction(client, freelancer.address, usdt, milestones);
+
+    await expect(escrow.connect(freelancer).payMilestone(transactionID, 0))
+      .to.be.revertedWithCustomError(escrow, 'InvalidCaller');
+
+    await expect(escrow.connect(client).reimburseMilestone(transactionID, 0))
+      .to.be.revertedWithCustomError(escrow, 'InvalidCaller');
+
+    await expect(escrow.connect(client).payMilestone(transactionID, milestones.length))
+      .to.be.revertedWithCustomError(escrow, 'InvalidMilestone');
+
+    await expect(escrow.connect(client).payMilestone(0, 0))
+      .to.be.revertedWithCustomError(escrow, 'InvalidTransaction');
+
+    await payMilestone(transactionID, 1);
+
+    await expect(escrow.connect(client).payMilestone(transactionID, 1))
+      .to.be.revertedWithCustomError(escrow, 'InvalidMilestone');
+
+    await expect(escrow.connect(freelancer).reimburseMilestone(transactionID, 1))
+      .to.be.revertedWithCustomError(escrow, 'InvalidMilestone');
+  });
+
+  it('pays and reimburses milestones one by one', async () => {
+    const amount = milestones.reduce((a, b) => a + b);
+    const transactionID = await createMilestoneTransaction(client, freelancer.address, usdt, milestones);
+    expect((await escrow.getTransaction(transactionID)).amount).to.be.equal(amount);
+
+    await payMilestone(transactionID, 2);
+    expect((await escrow.getTransaction(transactionID)).amount).to.be.equal(amount - milestones[2]);
+
+    await reimburseMilestone(transactionID, 0);
+    await payMilestone(transactionID, 1);
+
+    const transaction = await escrow.getTransaction(transactionID);
+    expect(transaction.amount).to.be.equal(0);
+    expect(transaction.status).to.be.equal(Status.NoDispute);
+    expect(await escrow.getMilestones(transactionID)).to.deep.equal([0n, 0n, 0n]);
+
+    await expect(escrow.connect(client).pay(transactionID, milestones[0]))
+      .to.be.revertedWithCustomError(escrow, 'InvalidAmount');
+  });
+
+  it('pays the open milestones at once', async () => {
+    const transactionID = await createMilestoneTransaction(client, freelancer.address, usdt, milestones);
+    await reimburseMilestone(transactionID, 1);
+
+    const amount = milestones[0] + milestones[2];
+    const feeAmount = await escrow.calculateFeeRecipientAmount(amount);
+
+    // partial amounts would not match the milestones
+    await expect(escrow.connect(client).pay(transactionID, milestones[0]))
+      .to.be.revertedWithCustomError(escrow, 'InvalidAmount');
+
+    await expect(escrow.connect(client).pay(transactionID, amount)).to.changeTokenBalances(
+      usdt,
+      [escrow, platform, client, freelancer],
+      [-amount, feeAmount, 0, amount - feeAmount]
+    );
+
+    await expect(escrow.connect(client).payMilestone(transactionID, 0))
+      .to.be.revertedWithCustomError(escrow, 'InvalidMilestone');
+    await expect(escrow.connect(freelancer).reimburseMilestone(transactionID, 2))
+      .to.be.revertedWithCustomError(escrow, 'InvalidMilestone');
+  });
+
+  it('reimburses the open milestones at once', async () => {
+    const transactionID = await createMilestoneTransaction(client, freelancer.address, usdt, milestones);
+    await payMilestone(transactionID, 0);
+
+    const amount = milestones[1] + milestones[2];
+
+    await expect(escrow.connect(freelancer).reimburse(transactionID, milestones[1]))
+      .to.be.revertedWithCustomError(escrow, 'InvalidAmount');
+
+    await expect(escrow.connect(freelancer).reimburse(transactionID, amount)).to.changeTokenBalances(
+      usdt,
+      [escrow, platform, client, freelancer],
+      [-amount, 0, amount, 0]
+    );
+
+    await expect(escrow.connect(client).payMilestone(transactionID, 1))
+      .to.be.revertedWithCustomError(escrow, 'InvalidMilestone');
+  });
+
+  it('native token milestones', async () => {
+    const transactionID = await createMilestoneTransaction(client, freelancer.address, null, milestones);
+    const feeAmount = await escrow.calculateFeeRecipientAmount(milestones[0]);
+
+    await expect(escrow.connect(client).payMilestone(transactionID, 0)).to.changeEtherBalances(
+      [escrow, platform, freelancer],
+      [-milestones[0], feeAmount, milestones[0] - feeAmount]
+    );
+
+    await expect(escrow.connect(freelancer).reimburseMilestone(transactionID, 1)).to.changeEtherBalances(
+      [escrow, client],
+      [-milestones[1], milestones[1]]
+    );
+  });
+
+  it('no milestone can be closed while waiting for the arbitration fee', async () => {
+    const transactionID = await createMilestoneTransaction(client, freelancer.address, usdt, milestones);
+    await escrow.connect(freelancer).payArbitrationFee(transactionID, { value: arbitrationCost });
+
+    await expect(escrow.connect(client).payMilestone(transactionID, 0))
+      .to.be.revertedWithCustomError(escrow, 'InvalidStatus');
+    await expect(escrow.connect(freelancer).reimburseMilestone(transactionID, 0))
+      .to.be.revertedWithCustomError(escrow, 'InvalidStatus');
+
+    await escrow.connect(client).payArbitrationFee(transactionID, { value: arbitrationCost });
+    await expect(escrow.connect(client).payMilestone(transactionID, 0))
+      .to.be.revertedWithCustomError(escrow, 'InvalidStatus');
+  });
+
+  for (const [name, ruling] of [
+    ['client wins', constants.Ruling.ClientWins],
+    ['freelancer wins', constants.Ruling.FreelancerWins],
+    ['split', constants.Ruling.SplitAmount]
+  ] as const) {
+    it(`a dispute covers only the open milestones: ${name}`, async () => {
+      const transactionID = await createMilestoneTransaction(client, freelancer.address, usdt, milestones);
+      await payMilestone(transactionID, 0);
+
+      const amount = milestones[1] + milestones[2];
+      const disputeID = await createDispute(transactionID);
+      expect((await escrow.getTransaction(transactionID)).amount).to.be.equal(amount);
+
+      await proxy.connect(court).giveRuling(disputeID, ruling);
+      const tx = escrow.connect(client).acceptRuling(transactionID);
+
+      const splitAmount = amount / 2n;
+      const [clientAmount, freelancerAmount] = {
+        [constants.Ruling.ClientWins]: [amount, 0n],
+        [constants.Ruling.FreelancerWins]: [0n, amount],
+        [constants.Ruling.SplitAmount]: [splitAmount, splitAmount]
+      }[ruling];
+      const feeAmount = await escrow.calculateFeeRecipientAmount(freelancerAmount);
+
+      await expect(tx).to.changeTokenBalances(
+        usdt,
+        [escrow, platform, client, freelancer],
+        [-(clientAmount + freelancerAmount), feeAmount, clientAmount, freelancerAmount - feeAmount]
+      );
+
+      await expect(escrow.connect(client).payMilestone(transactionID, 1))
+        .to.be.revertedWithCustomError(escrow, 'InvalidStatus');
+    });
+  }
+
+  for (const timedOut of ['client', 'freelancer']) {
+    it(`a timeout covers only the open milestones: ${timedOut} does not pay`, async () => {
+      const transactionID = await createMilestoneTransaction(client, freelancer.address, usdt, milestones);
+      await reimburseMilestone(transactionID, 2);
+
+      const amount = milestones[0] + milestones[1];
+      const winner = timedOut === 'client' ? freelancer : client;
+      await escrow.connect(winner).payArbitrationFee(transactionID, { value: arbitrationCost });
+      await time.increase(constants.FEE_TIMEOUT);
+
+      const feeAmount = winner === freelancer ? await escrow.calculateFeeRecipientAmount(amount) : 0n;
+
+      await expect(escrow.connect(winner).timeOut(transactionID)).to.changeTokenBalances(
+        usdt,
+        [escrow, platform, winner],
+        [-amount, feeAmount, amount - feeAmount]
+      );
+    });
+  }
+});
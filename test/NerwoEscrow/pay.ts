@@ -3,7 +3,10 @@ import { deployments } from 'hardhat';
 import { SignerWithAddress } from '@nomicfoundation/hardhat-ethers/signers';
 
 import { NerwoEscrow, NerwoTetherToken } from '../../typechain-types';
-import { getContracts, getSigners, createTransaction, randomAmount, createNativeTransaction, NativeToken } from '../utils';
+import { MIN_AMOUNT } from '../../sdk';
+import {
+  getContracts, getSigners, createTransaction, randomAmount, createNativeTransaction, partialAmounts, NativeToken
+} from '../utils';
 
 describe('NerwoEscrow: pay', function () {
   before(async () => {
@@ -30,7 +33,7 @@ describe('NerwoEscrow: pay', function () {
 
     const feeAmount = await escrow.calculateFeeRecipientAmount(amount);
 
-    const tx = escrow.connect(client).pay(transactionID);
+    const tx = escrow.connect(client).pay(transactionID, amount);
 
     await expect(tx).to.changeTokenBalances(
       usdt,
@@ -43,7 +46,7 @@ describe('NerwoEscrow: pay', function () {
 
     await expect(tx).to.emit(escrow, 'FeeRecipientPayment');
 
-    await expect(escrow.connect(client).pay(transactionID))
+    await expect(escrow.connect(client).pay(transactionID, amount))
       .to.be.revertedWithCustomError(escrow, 'InvalidAmount');
   });
 
@@ -53,7 +56,7 @@ describe('NerwoEscrow: pay', function () {
 
     const feeAmount = await escrow.calculateFeeRecipientAmount(amount);
 
-    const tx = escrow.connect(client).pay(transactionID);
+    const tx = escrow.connect(client).pay(transactionID, amount);
 
     await expect(tx).to.changeEtherBalances(
       [escrow, platform, freelancer],
@@ -65,7 +68,67 @@ describe('NerwoEscrow: pay', function () {
 
     await expect(tx).to.emit(escrow, 'FeeRecipientPayment');
 
-    await expect(escrow.connect(client).pay(transactionID))
+    await expect(escrow.connect(client).pay(transactionID, amount))
       .to.be.revertedWithCustomError(escrow, 'InvalidAmount');
   });
+
+  it('pay in several parts', async () => {
+    const amount = await randomAmount();
+    const transactionID = await createTransaction(client, freelancer.address, usdt, amount);
+
+    let left = amount;
+    for (const part of partialAmounts(amount, 3)) {
+      const feeAmount = await escrow.calculateFeeRecipientAmount(part);
+
+      const tx = escrow.connect(client).pay(transactionID, part);
+
+      await expect(tx).to.changeTokenBalances(
+        usdt,
+        [escrow, platform, freelancer],
+        [-part, feeAmount, part - feeAmount]
+      );
+
+      await expect(tx).to.emit(escrow, 'Payment')
+        .withArgs(transactionID, client.address, freelancer.address, await usdt.getAddress(), part - feeAmount);
+
+      left -= part;
+      expect((await escrow.getTransaction(transactionID)).amount).to.be.equal(left);
+    }
+
+    await expect(escrow.connect(client).pay(transactionID, MIN_AMOUNT))
+      .to.be.revertedWithCustomError(escrow, 'InvalidAmount');
+  });
+
+  it('partial amounts around MIN_AMOUNT', async () => {
+    const amount = 3n * MIN_AMOUNT;
+    const transactionID = await createTransaction(client, freelancer.address, usdt, amount);
+
+    await expect(escrow.connect(client).pay(transactionID, 0))
+      .to.be.revertedWithCustomError(escrow, 'InvalidAmount');
+
+    await expect(escrow.connect(client).pay(transactionID, amount + 1n))
+      .to.be.revertedWithCustomError(escrow, 'InvalidAmount');
+
+    // too low to pay a fee
+    await expect(escrow.connect(client).pay(transactionID, MIN_AMOUNT - 1n))
+      .to.be.revertedWithCustomError(escrow, 'InvalidAmount');
+
+    // would leave too little
+    await expect(escrow.connect(client).pay(transactionID, amount - MIN_AMOUNT + 1n))
+      .to.be.revertedWithCustomError(escrow, 'InvalidAmount');
+
+    await expect(escrow.connect(freelancer).pay(transactionID, MIN_AMOUNT))
+      .to.be.revertedWithCustomError(escrow, 'InvalidCaller');
+
+    await escrow.connect(client).pay(transactionID, MIN_AMOUNT);
+    await escrow.connect(client).pay(transactionID, MIN_AMOUNT);
+    expect((await escrow.getTransaction(transactionID)).amount).to.be.equal(MIN_AMOUNT);
+
+    // the last MIN_AMOUNT cannot be split
+    await expect(escrow.connect(client).pay(transactionID, MIN_AMOUNT / 2n))
+      .to.be.revertedWithCustomError(escrow, 'InvalidAmount');
+
+    await escrow.connect(client).pay(transactionID, MIN_AMOUNT);
+    expect((await escrow.getTransaction(transactionID)).amount).to.be.equal(0);
+  });
 });
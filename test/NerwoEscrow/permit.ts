@@ -0,0 +1,141 @@
+import { expect } from 'chai';
+import { deployments, ethers } from 'hardhat';
+import { MaxUint256 } from 'ethers';
+import { time } from '@nomicfoundation/hardhat-network-helpers';
+import { SignerWithAddress } from '@nomicfoundation/hardhat-ethers/signers';
+
+import { NerwoEscrow, NerwoPermit2, NerwoTetherToken } from '../../typechain-types';
+import { signPermit, signPermit2 } from '../../sdk';
+
+import { getContracts, getSigners, installPermit2, randomAmount, NativeToken } from '../utils';
+
+describe('NerwoEscrow: permit', function () {
+  before(async () => {
+    await deployments.fixture(['NerwoEscrow', 'NerwoTetherToken'], {
+      keepExistingDeployments: true
+    });
+  });
+
+  let escrow: NerwoEscrow;
+  let usdt: NerwoTetherToken;
+  let permit2: NerwoPermit2;
+
+  let client: SignerWithAddress;
+  let freelancer: SignerWithAddress;
+
+  let amount: bigint;
+  let deadline: bigint;
+
+  beforeEach(async () => {
+    ({ escrow, usdt } = await getContracts());
+    ({ client, freelancer } = await getSigners());
+    permit2 = await installPermit2();
+
+    amount = await randomAmount();
+    deadline = BigInt(await time.latest() + 3600);
+    await usdt.connect(client).mint(amount);
+  });
+
+  describe('EIP-2612', () => {
+    it('creates the transaction without a prior approve', async () => {
+      expect(await usdt.allowance(client.address, escrow)).to.be.equal(0n);
+      const { v, r, s } = await signPermit(client, await usdt.getAddress(), await escrow.getAddress(), amount, deadline);
+
+      const tx = escrow.connect(client)
+        .createTransactionWithPermit(usdt, amount, freelancer.address, deadline, v, r, s);
+
+      await expect(tx).to.changeTokenBalances(usdt, [escrow, client], [amount, -amount]);
+      await expect(tx).to.emit(escrow, 'TransactionCreated')
+        .withArgs(await escrow.lastTransaction(), client.address, freelancer.address, await usdt.getAddress(), amount);
+      expect(await usdt.allowance(client.address, escrow)).to.be.equal(0n);
+    });
+
+    it('still works when the permit was front-run', async () => {
+      const { v, r, s } = await signPermit(client, await usdt.getAddress(), await escrow.getAddress(), amount, deadline);
+      await usdt.connect(freelancer).permit(client.address, escrow, amount, deadline, v, r, s);
+
+      await expect(escrow.connect(client)
+        .createTransactionWithPermit(usdt, amount, freelancer.address, deadline, v, r, s))
+        .to.changeTokenBalances(usdt, [escrow, client], [amount, -amount]);
+    });
+
+    it('reverts without a valid permit', async () => {
+      const { v, r, s } = await signPermit(client, await usdt.getAddress(), await escrow.getAddress(), amount, deadline);
+
+      await expect(escrow.connect(client)
+        .createTransactionWithPermit(usdt, amount + 1n, freelancer.address, deadline, v, r, s))
+        .to.be.revertedWithCustomError(usdt, 'ERC20InsufficientAllowance');
+
+      await time.increaseTo(deadline + 1n);
+      await expect(escrow.connect(client)
+        .createTransactionWithPermit(usdt, amount, freelancer.address, deadline, v, r, s))
+        .to.be.revertedWithCustomError(usdt, 'ERC20InsufficientAllowance');
+    });
+
+    it('InvalidToken', async () => {
+      const { v, r, s } = await signPermit(client, await usdt.getAddress(), await escrow.getAddress(), amount, deadline);
+
+      await expect(escrow.connect(client)
+        .createTransactionWithPermit(NativeToken, amount, freelancer.address, deadline, v, r, s))
+        .to.be.revertedWithCustomError(escrow, 'InvalidToken');
+    });
+  });
+
+  describe('Permit2', () => {
+    beforeEach(async () => {
+      await usdt.connect(client).approve(permit2, MaxUint256);
+    });
+
+    async function sign(value = amount, nonce?: bigint) {
+      return signPermit2(client, await usdt.getAddress(), await escrow.getAddress(), value, deadline, nonce);
+    }
+
+    it('creates the transaction with a signature transfer', async () => {
+      const { nonce, signature } = await sign();
+
+      const tx = escrow.connect(client)
+        .createTransactionWithPermit2(usdt, amount, freelancer.address, nonce, deadline, signature);
+
+      await expect(tx).to.changeTokenBalances(usdt, [escrow, client], [amount, -amount]);
+      await expect(tx).to.emit(escrow, 'TransactionCreated');
+      expect(await usdt.allowance(client.address, escrow)).to.be.equal(0n);
+
+      await usdt.connect(client).mint(amount);
+      await expect(escrow.connect(client)
+        .createTransactionWithPermit2(usdt, amount, freelancer.address, nonce, deadline, signature))
+        .to.be.revertedWithCustomError(permit2, 'InvalidNonce');
+    });
+
+    it('reverts on a signature for something else', async () => {
+      const { nonce, signature } = await sign(amount - 1n);
+
+      await expect(escrow.connect(client)
+        .createTransactionWithPermit2(usdt, amount, freelancer.address, nonce, deadline, signature))
+        .to.be.revertedWithCustomError(permit2, 'InvalidSigner');
+
+      // only the client signature is accepted
+      await expect(escrow.connect(freelancer)
+        .createTransactionWithPermit2(usdt, amount, client.address, nonce, deadline, signature))
+        .to.be.revertedWithCustomError(permit2, 'InvalidSigner');
+    });
+
+    it('reverts on an expired signature', async () => {
+      const { nonce, signature } = await sign();
+
+      await time.increaseTo(deadline + 1n);
+      await expect(escrow.connect(client)
+        .createTransactionWithPermit2(usdt, amount, freelancer.address, nonce, deadline, signature))
+        .to.be.revertedWithCustomError(permit2, 'SignatureExpired');
+    });
+
+    it('InvalidToken', async () => {
+      const other = await ethers.deployContract('NerwoTetherToken');
+      const { nonce, signature } = await signPermit2(client, await other.getAddress(), await escrow.getAddress(),
+        amount, deadline);
+
+      await expect(escrow.connect(client)
+        .createTransactionWithPermit2(other, amount, freelancer.address, nonce, deadline, signature))
+        .to.be.revertedWithCustomError(escrow, 'InvalidToken');
+    });
+  });
+});
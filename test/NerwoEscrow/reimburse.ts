@@ -1,7 +1,10 @@
 import { expect } from 'chai';
 import { deployments } from 'hardhat';
 
-import { getContracts, getSigners, createTransaction, randomAmount, createNativeTransaction, NativeToken } from '../utils';
+import { MIN_AMOUNT } from '../../sdk';
+import {
+  getContracts, getSigners, createTransaction, randomAmount, createNativeTransaction, partialAmounts, NativeToken
+} from '../utils';
 
 describe('NerwoEscrow: reimburse', function () {
   before(async () => {
@@ -19,7 +22,7 @@ describe('NerwoEscrow: reimburse', function () {
 
     const usdtAddress = await usdt.getAddress();
 
-    let tx = escrow.connect(freelancer).reimburse(transactionID);
+    let tx = escrow.connect(freelancer).reimburse(transactionID, amount);
 
     await expect(tx).to.changeTokenBalances(
       usdt,
@@ -30,7 +33,7 @@ describe('NerwoEscrow: reimburse', function () {
     await expect(tx).to.emit(escrow, 'Reimburse')
       .withArgs(transactionID, freelancer.address, client.address, usdtAddress, amount);
 
-    await expect(escrow.connect(freelancer).reimburse(transactionID))
+    await expect(escrow.connect(freelancer).reimburse(transactionID, amount))
       .to.be.revertedWithCustomError(escrow, 'InvalidAmount');
   });
 
@@ -41,7 +44,7 @@ describe('NerwoEscrow: reimburse', function () {
     const amount = await randomAmount();
     const transactionID = await createNativeTransaction(client, freelancer.address, amount);
 
-    const tx = escrow.connect(freelancer).reimburse(transactionID);
+    const tx = escrow.connect(freelancer).reimburse(transactionID, amount);
 
     await expect(tx).to.changeEtherBalances(
       [escrow, client, freelancer],
@@ -51,7 +54,68 @@ describe('NerwoEscrow: reimburse', function () {
     await expect(tx).to.emit(escrow, 'Reimburse')
       .withArgs(transactionID, freelancer.address, client.address, NativeToken, amount);
 
-    await expect(escrow.connect(freelancer).reimburse(transactionID))
+    await expect(escrow.connect(freelancer).reimburse(transactionID, amount))
       .to.be.revertedWithCustomError(escrow, 'InvalidAmount');
   });
+
+  it('reimbursing in several parts, then paying the rest', async () => {
+    const { escrow, usdt } = await getContracts();
+    const { platform, client, freelancer } = await getSigners();
+
+    const amount = await randomAmount();
+    const transactionID = await createTransaction(client, freelancer.address, usdt, amount);
+
+    const [first, second, rest] = partialAmounts(amount, 3);
+
+    for (const part of [first, second]) {
+      const tx = escrow.connect(freelancer).reimburse(transactionID, part);
+
+      await expect(tx).to.changeTokenBalances(
+        usdt,
+        [escrow, client, freelancer],
+        [-part, part, 0]
+      );
+
+      await expect(tx).to.emit(escrow, 'Reimburse')
+        .withArgs(transactionID, freelancer.address, client.address, await usdt.getAddress(), part);
+    }
+
+    expect((await escrow.getTransaction(transactionID)).amount).to.be.equal(rest);
+
+    const feeAmount = await escrow.calculateFeeRecipientAmount(rest);
+    await expect(escrow.connect(client).pay(transactionID, rest)).to.changeTokenBalances(
+      usdt,
+      [escrow, platform, freelancer],
+      [-rest, feeAmount, rest - feeAmount]
+    );
+  });
+
+  it('partial amounts around MIN_AMOUNT', async () => {
+    const { escrow, usdt } = await getContracts();
+    const { client, freelancer } = await getSigners();
+
+    const amount = 2n * MIN_AMOUNT;
+    const transactionID = await createTransaction(client, freelancer.address, usdt, amount);
+
+    await expect(escrow.connect(freelancer).reimburse(transactionID, 0))
+      .to.be.revertedWithCustomError(escrow, 'InvalidAmount');
+
+    await expect(escrow.connect(freelancer).reimburse(transactionID, amount + 1n))
+      .to.be.revertedWithCustomError(escrow, 'InvalidAmount');
+
+    await expect(escrow.connect(freelancer).reimburse(transactionID, MIN_AMOUNT - 1n))
+      .to.be.revertedWithCustomError(escrow, 'InvalidAmount');
+
+    await expect(escrow.connect(freelancer).reimburse(transactionID, MIN_AMOUNT + 1n))
+      .to.be.revertedWithCustomError(escrow, 'InvalidAmount');
+
+    await expect(escrow.connect(client).reimburse(transactionID, MIN_AMOUNT))
+      .to.be.revertedWithCustomError(escrow, 'InvalidCaller');
+
+    await escrow.connect(freelancer).reimburse(transactionID, MIN_AMOUNT);
+    expect((await escrow.getTransaction(transactionID)).amount).to.be.equal(MIN_AMOUNT);
+
+    await escrow.connect(freelancer).reimburse(transactionID, MIN_AMOUNT);
+    expect((await escrow.getTransaction(transactionID)).amount).to.be.equal(0);
+  });
 });
@@ -81,4 +81,27 @@ describe('NerwoEscrow: timeOutByClient', function () {
       [-amount, amount, 0]
     );
   });
+
+  it('Timeout by anyone', async () => {
+    const { platform } = await getSigners();
+    const amount = await randomAmount();
+    const transactionID = await createTransaction(client, freelancer.address, usdt, amount);
+
+    await escrow.connect(client).payArbitrationFee(transactionID, { value: arbitrationPrice });
+    await time.increase(constants.FEE_TIMEOUT);
+
+    // a third party runs the timeout, the client who paid the fee wins
+    const tx = escrow.connect(platform).timeOut(transactionID);
+
+    await expect(tx).to.changeEtherBalances(
+      [escrow, client, platform],
+      [-arbitrationPrice, arbitrationPrice, 0]
+    );
+
+    await expect(tx).to.changeTokenBalances(
+      usdt,
+      [escrow, client, freelancer],
+      [-amount, amount, 0]
+    );
+  });
 });
@@ -0,0 +1,108 @@
+import { expect } from 'chai';
+import hre, { deployments, ethers } from 'hardhat';
+
+import { NerwoEscrow, NerwoEscrowUUPS } from '../../typechain-types';
+
+import { ProxyKind } from '../../config';
+import { escrowArgs, escrowContract, escrowProxy, resolveEscrowArgs } from '../../constructors';
+import { getContracts, getSigners, randomAmount } from '../utils';
+
+describe('NerwoEscrow: upgrade', function () {
+  before(async () => {
+    await deployments.fixture(['NerwoEscrow', 'NerwoTetherToken'], {
+      keepExistingDeployments: true
+    });
+  });
+
+  let args: ReturnType<typeof escrowArgs>;
+
+  const deployProxy = async (name: string, kind: ProxyKind) => {
+    const { deployer } = await getSigners();
+    args = await resolveEscrowArgs(hre);
+    const { address } = await deployments.deploy(name, {
+      contract: escrowContract(kind),
+      args: args,
+      from: deployer.address,
+      proxy: escrowProxy(kind, args)
+    });
+    // with the upgrade function, to call it through either proxy
+    return await ethers.getContractAt('NerwoEscrowUUPS', address) as unknown as NerwoEscrowUUPS;
+  };
+
+  const expectInitialized = async (proxied: NerwoEscrowUUPS) => {
+    const { escrow, usdt } = await getContracts();
+    const { platform } = await getSigners();
+
+    expect(await proxied.owner()).to.be.equal(platform.address);
+    expect(await proxied.feeRecipientData()).to.deep.equal(await escrow.feeRecipientData());
+    expect(await proxied.arbitratorData()).to.deep.equal(await escrow.arbitratorData());
+    expect(await proxied.tokens(usdt)).to.be.equal(await escrow.tokens(usdt));
+    expect(await proxied.trustedForwarder()).to.be.equal(await escrow.trustedForwarder());
+
+    await expect(proxied.initialize(...args.slice(0, -1) as Parameters<NerwoEscrow['initialize']>))
+      .to.be.revertedWithCustomError(proxied, 'InvalidInitialization');
+  };
+
+  it('UUPS proxy', async () => {
+    const proxied = await deployProxy('NerwoEscrowUUPS', 'uups');
+    await expectInitialized(proxied);
+
+    const { platform, client, freelancer } = await getSigners();
+    const { escrow } = await getContracts();
+
+    // the implementation is initialized by its constructor
+    const implementation = await deployments.get('NerwoEscrowUUPS_Implementation');
+    await expect((await ethers.getContractAt('NerwoEscrow', implementation.address))
+      .initialize(...args.slice(0, -1) as Parameters<NerwoEscrow['initialize']>))
+      .to.be.revertedWithCustomError(proxied, 'InvalidInitialization');
+
+    const amount = await randomAmount();
+    await proxied.connect(client).createTransaction(ethers.ZeroAddress, amount, freelancer.address, { value: amount });
+    const transactionID = await proxied.lastTransaction();
+    const transaction = await proxied.getTransaction(transactionID);
+
+    const next = await ethers.deployContract('NerwoEscrowUUPS', args);
+    await expect(proxied.connect(client).upgradeToAndCall(next, '0x'))
+      .to.be.revertedWithCustomError(proxied, 'OwnableUnauthorizedAccount');
+    await expect(proxied.connect(platform).upgradeToAndCall(next, '0x'))
+      .to.emit(proxied, 'Upgraded').withArgs(await next.getAddress());
+
+    expect(await proxied.getTransaction(transactionID)).to.deep.equal(transaction);
+    await expect(proxied.connect(client).pay(transactionID, amount)).to.emit(proxied, 'Payment');
+
+    // an immutable escrow has no upgrade function
+    const immutable = await ethers.getContractAt('NerwoEscrowUUPS', escrow) as unknown as NerwoEscrowUUPS;
+    await expect(immutable.connect(platform).upgradeToAndCall(next, '0x')).to.be.revertedWithoutReason();
+  });
+
+  it('transparent proxy', async () => {
+    const proxied = await deployProxy('NerwoEscrowTransparent', 'transparent');
+    await expectInitialized(proxied);
+
+    const { platform, client, freelancer } = await getSigners();
+
+    const { abi, address } = await deployments.get('DefaultProxyAdmin');
+    const admin = await ethers.getContractAt(abi, address);
+    expect(await admin.owner()).to.be.equal(platform.address);
+    expect(address).to.not.be.equal(platform.address);
+
+    const amount = await randomAmount();
+    await expect(proxied.connect(client)
+      .createTransaction(ethers.ZeroAddress, amount, freelancer.address, { value: amount }))
+      .to.emit(proxied, 'TransactionCreated');
+    const transactionID = await proxied.lastTransaction();
+    const transaction = await proxied.getTransaction(transactionID);
+
+    // the implementation has no upgrade function, the escrow owner cannot bypass the admin
+    const next = await ethers.deployContract('NerwoEscrow', args as Parameters<NerwoEscrow['initialize']>);
+    await expect(proxied.connect(platform).upgradeToAndCall(next, '0x')).to.be.revertedWithoutReason();
+
+    await expect(admin.connect(client).getFunction('upgrade')(proxied, next)).to.be.reverted;
+    await expect(admin.connect(platform).getFunction('upgrade')(proxied, next))
+      .to.emit(proxied, 'Upgraded').withArgs(await next.getAddress());
+    expect(await admin.getProxyImplementation(proxied)).to.be.equal(await next.getAddress());
+
+    expect(await proxied.getTransaction(transactionID)).to.deep.equal(transaction);
+    await expect(proxied.connect(client).pay(transactionID, amount)).to.emit(proxied, 'Payment');
+  });
+});
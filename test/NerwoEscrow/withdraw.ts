@@ -0,0 +1,105 @@
+import { expect } from 'chai';
+import { deployments, ethers } from 'hardhat';
+import { SignerWithAddress } from '@nomicfoundation/hardhat-ethers/signers';
+
+import { NerwoBlacklistToken, NerwoCentralizedArbitrator, NerwoEscrow, NerwoRejectingReceiver } from '../../typechain-types';
+
+import * as constants from '../../constants';
+import { NativeToken, createNativeTransaction, getContracts, getSigners, randomAmount } from '../utils';
+
+describe('NerwoEscrow: withdraw', function () {
+  before(async () => {
+    await deployments.fixture(['NerwoEscrow', 'NerwoTetherToken'], {
+      keepExistingDeployments: true
+    });
+  });
+
+  let escrow: NerwoEscrow;
+  let proxy: NerwoCentralizedArbitrator;
+  let wallet: NerwoRejectingReceiver;
+
+  let platform: SignerWithAddress;
+  let court: SignerWithAddress;
+  let client: SignerWithAddress;
+  let freelancer: SignerWithAddress;
+
+  beforeEach(async () => {
+    ({ escrow, proxy } = await getContracts());
+    ({ platform, court, client, freelancer } = await getSigners());
+    wallet = await ethers.deployContract('NerwoRejectingReceiver');
+  });
+
+  const withdrawBy = (token: string) =>
+    wallet.execute(escrow.getAddress(), escrow.interface.encodeFunctionData('withdraw', [token]));
+
+  it('credits a payment rejected by a contract wallet', async () => {
+    const amount = await randomAmount();
+    const transactionID = await createNativeTransaction(client, await wallet.getAddress(), amount);
+    const feeAmount = await escrow.calculateFeeRecipientAmount(amount);
+
+    const tx = escrow.connect(client).pay(transactionID, amount);
+    await expect(tx).to.changeEtherBalances([escrow, platform, wallet], [-feeAmount, feeAmount, 0]);
+    await expect(tx).to.emit(escrow, 'SendFailed')
+      .withArgs(await wallet.getAddress(), NativeToken, amount - feeAmount);
+
+    expect(await escrow.pendingWithdrawals(wallet, NativeToken)).to.be.equal(amount - feeAmount);
+
+    // still rejecting, the credit is kept
+    await expect(withdrawBy(NativeToken)).to.be.reverted;
+    expect(await escrow.pendingWithdrawals(wallet, NativeToken)).to.be.equal(amount - feeAmount);
+
+    await wallet.setRejecting(false);
+    await expect(withdrawBy(NativeToken))
+      .to.changeEtherBalances([escrow, wallet], [-(amount - feeAmount), amount - feeAmount]);
+    await expect(withdrawBy(NativeToken)).to.be.revertedWithCustomError(escrow, 'InvalidAmount');
+
+    expect(await escrow.pendingWithdrawals(wallet, NativeToken)).to.be.equal(0);
+  });
+
+  it('credits the amount and the arbitration fee of a ruling', async () => {
+    const amount = await randomAmount();
+    const transactionID = await createNativeTransaction(client, await wallet.getAddress(), amount);
+    const arbitrationPrice = await escrow.getArbitrationCost();
+
+    await escrow.connect(client).payArbitrationFee(transactionID, { value: arbitrationPrice });
+    await wallet.execute(escrow.getAddress(), escrow.interface.encodeFunctionData('payArbitrationFee', [transactionID]),
+      { value: arbitrationPrice });
+
+    const { disputeID } = await escrow.getTransaction(transactionID);
+    await proxy.connect(court).giveRuling(disputeID, constants.Ruling.FreelancerWins);
+
+    const feeAmount = await escrow.calculateFeeRecipientAmount(amount);
+    const credit = amount - feeAmount + arbitrationPrice;
+
+    await expect(escrow.connect(client).acceptRuling(transactionID))
+      .to.changeEtherBalances([escrow, platform, wallet], [-feeAmount, feeAmount, 0]);
+    expect(await escrow.pendingWithdrawals(wallet, NativeToken)).to.be.equal(credit);
+
+    await wallet.setRejecting(false);
+    await expect(withdrawBy(NativeToken))
+      .to.emit(escrow, 'Withdrawal').withArgs(await wallet.getAddress(), NativeToken, credit);
+  });
+
+  it('credits a reimbursement to a blacklisted client', async () => {
+    const token: NerwoBlacklistToken = await ethers.deployContract('NerwoBlacklistToken');
+    await escrow.connect(platform).changeWhitelist([{ token, allow: true }]);
+
+    const amount = await randomAmount();
+    await token.connect(client).mint(amount);
+    await token.connect(client).approve(escrow, amount);
+    await escrow.connect(client).createTransaction(token, amount, freelancer.address);
+    const transactionID = await escrow.lastTransaction();
+
+    await token.setBlackListed(client.address, true);
+    await expect(escrow.connect(freelancer).reimburse(transactionID, amount))
+      .to.emit(escrow, 'SendFailed').withArgs(client.address, await token.getAddress(), amount);
+    expect(await escrow.pendingWithdrawals(client.address, token)).to.be.equal(amount);
+    expect(await token.balanceOf(escrow)).to.be.equal(amount);
+
+    // other recipients are not affected
+    await expect(escrow.connect(freelancer).withdraw(token)).to.be.revertedWithCustomError(escrow, 'InvalidAmount');
+
+    await token.setBlackListed(client.address, false);
+    await expect(escrow.connect(client).withdraw(token)).to.changeTokenBalances(token, [escrow, client], [-amount, amount]);
+  });
+});
@@ -38,7 +38,8 @@ contract NerwoTest is Test {
             "/ipfs/something", // metaEvidenceURI
             feeRecipient, // feeRecipient
             500, // feeRecipientBasisPoint
-            supportedTokens // supportedTokens
+            supportedTokens, // supportedTokens
+            address(0) // trustedForwarder
         );
     }
 
@@ -0,0 +1,84 @@
+import { expect } from 'chai';
+import { parseEther } from 'ethers';
+
+import { ConfigError, loadConfig } from '../config';
+
+const USDT = '0xdAC17F958D2ee523a2206206994597C13D831ec7';
+const OWNER = '0x70997970C51812dc3A010C7d01b50e0d17dc79C8';
+
+describe('Config: loadConfig', function () {
+  it('parses a valid environment', () => {
+    const config = loadConfig('sepolia', {
+      NERWO_OWNER_ADDRESS: OWNER.toLowerCase(),
+      NERWO_ARBITRATION_PRICE: '0.02',
+      NERWO_FEE_RECIPIENT_BASISPOINT: '550',
+      NERWO_TOKENS_WHITELIST: ` ${USDT.toLowerCase()} `,
+      NERWO_TRUSTED_FORWARDER_ADDRESS: OWNER
+    });
+
+    expect(config.owner).to.be.equal(OWNER);
+    expect(config.arbitrationPrice).to.be.equal(parseEther('0.02'));
+    expect(config.feeRecipientBasisPoint).to.be.equal(550);
+    expect(config.tokensWhitelist).to.deep.equal([USDT]);
+    expect(config.trustedForwarder).to.be.equal(OWNER);
+    expect(config.metaEvidenceURI).to.be.equal('');
+  });
+
+  it('reports every problem at once', () => {
+    let error: ConfigError | undefined;
+    try {
+      loadConfig('sepolia', {
+        NERWO_PLATFORM_ADDRESS: '0x0000000000000000000000000000000000000000',
+        NERWO_FEE_RECIPIENT_BASISPOINT: '2001',
+        NERWO_TOKENS_WHITELIST: `${USDT},0x1234`
+      });
+    } catch (e) {
+      error = e as ConfigError;
+    }
+
+    expect(error).to.be.instanceOf(ConfigError);
+    expect(error!.problems).to.deep.equal([
+      'NERWO_PLATFORM_ADDRESS: must not be the zero address',
+      'NERWO_TOKENS_WHITELIST: 0x1234 is not a valid address',
+      'NERWO_FEE_RECIPIENT_BASISPOINT: 2001 is not an integer in range 0-2000',
+      'NERWO_ARBITRATION_PRICE: is required'
+    ]);
+  });
+
+  it('rejects a bad checksum and a bad price', () => {
+    expect(() => loadConfig('sepolia', {
+      NERWO_OWNER_ADDRESS: '0x70997970c51812dc3A010C7d01b50e0d17dc79C8',
+      NERWO_ARBITRATION_PRICE: 'cheap',
+      NERWO_FEE_RECIPIENT_BASISPOINT: 'NaN'
+    })).to.throw(ConfigError, /NERWO_OWNER_ADDRESS.*\n.*NERWO_FEE_RECIPIENT_BASISPOINT.*\n.*NERWO_ARBITRATION_PRICE/);
+  });
+
+  it('requires an explicit owner and arbitrator on mainnet', () => {
+    expect(() => loadConfig('mainnet', { NERWO_FEE_RECIPIENT_BASISPOINT: '550' }))
+      .to.throw(ConfigError, 'NERWO_OWNER_ADDRESS: is required on mainnet');
+
+    const config = loadConfig('mainnet', {
+      NERWO_OWNER_ADDRESS: OWNER,
+      NERWO_ARBITRATOR_ADDRESS: OWNER,
+      NERWO_ARBITRATORPROXY_ADDRESS: OWNER,
+      NERWO_FEE_RECIPIENT_BASISPOINT: '550'
+    });
+    expect(config.arbitrator).to.be.equal(OWNER);
+    expect(config.arbitrationPrice).to.be.undefined;
+  });
+
+  it('validates the proxy kind', () => {
+    const env = { NERWO_ARBITRATION_PRICE: '0.02', NERWO_FEE_RECIPIENT_BASISPOINT: '550' };
+    expect(loadConfig('sepolia', env).proxy).to.be.undefined;
+    expect(loadConfig('sepolia', { ...env, NERWO_PROXY: 'uups' }).proxy).to.be.equal('uups');
+    expect(() => loadConfig('sepolia', { ...env, NERWO_PROXY: 'beacon' }))
+      .to.throw(ConfigError, 'NERWO_PROXY: beacon is not one of uups, transparent');
+  });
+
+  it('pads the deploy salt', () => {
+    const env = { NERWO_ARBITRATION_PRICE: '0.02', NERWO_FEE_RECIPIENT_BASISPOINT: '550' };
+    expect(loadConfig('sepolia', { ...env, NERWO_DEPLOY_SALT: '0x01' }).deploySalt).to.be.equal('0x' + '00'.repeat(31) + '01');
+    expect(() => loadConfig('sepolia', { ...env, NERWO_DEPLOY_SALT: '0x' + '00'.repeat(33) }))
+      .to.throw(ConfigError, 'NERWO_DEPLOY_SALT: 0x00');
+  });
+});
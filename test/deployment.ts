@@ -15,7 +15,7 @@ import { arbitratorArgs, escrowArgs } from '../constructors';
     it('NerwoEscrow', async () => {
         const [deployer] = await ethers.getSigners();
         const args = escrowArgs(deployer.address, deployer.address, deployer.address) as [
-            string, string[], string, string, string, any[] // wft
+            string, string[], string, string, string, any[], string // wft
         ];
         const escrow = await ethers.deployContract('NerwoEscrow', args);
         await escrow.waitForDeployment();
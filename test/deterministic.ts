@@ -0,0 +1,101 @@
+import { expect } from 'chai';
+import hre, { deployments, ethers } from 'hardhat';
+import { Wallet, id, parseEther } from 'ethers';
+
+import { NerwoCentralizedArbitrator } from '../typechain-types';
+
+import { loadConfig } from '../config';
+import { arbitratorArgs, escrowArgs, escrowContract, escrowProxy } from '../constructors';
+import { executeAsOwner, predictAddresses } from '../deterministic';
+import { getSigners } from './utils';
+
+describe('Deterministic: predictAddresses', function () {
+  before(async () => {
+    await deployments.fixture(['NerwoEscrow', 'NerwoTetherToken'], {
+      keepExistingDeployments: true
+    });
+  });
+
+  const configWith = (env: Record<string, string>) => loadConfig('hardhat', { ...process.env, ...env });
+
+  // deployed under other names, the fixture deployments are shared by the other tests
+  const deploy = async (name: string, contract: string, args: unknown[], salt: string) => {
+    const { deployer } = await getSigners();
+    return deployments.deploy(name, { contract, args, from: deployer.address, deterministicDeployment: salt });
+  };
+
+  it('matches the deterministic deployments', async () => {
+    const { platform, court } = await getSigners();
+    const config = configWith({ NERWO_DEPLOY_SALT: id('matches') });
+    const salt = config.deploySalt!;
+
+    const predicted = await predictAddresses(hre, config);
+    expect(Object.keys(predicted))
+      .to.deep.equal(['NerwoForwarder', 'NerwoCentralizedArbitrator', 'NerwoTetherToken', 'NerwoEscrow']);
+
+    const forwarder = await deploy('SaltedForwarder', 'NerwoForwarder', [], salt);
+    const arbitrator = await deploy('SaltedArbitrator', 'NerwoCentralizedArbitrator',
+      arbitratorArgs(court.address, config), salt);
+    const usdt = await deploy('SaltedToken', 'NerwoTetherToken', [], salt);
+    const escrow = await deploy('SaltedEscrow', 'NerwoEscrow',
+      escrowArgs(platform.address, arbitrator.address, platform.address, usdt.address, config, forwarder.address), salt);
+
+    expect(predicted).to.deep.equal({
+      NerwoForwarder: forwarder.address,
+      NerwoCentralizedArbitrator: arbitrator.address,
+      NerwoTetherToken: usdt.address,
+      NerwoEscrow: escrow.address
+    });
+
+    // the chain specific settings are applied by the owner
+    const proxy = await ethers.getContractAt('NerwoCentralizedArbitrator',
+      arbitrator.address) as unknown as NerwoCentralizedArbitrator;
+    expect(await proxy.arbitrationCost('0x')).to.be.equal(0n);
+    expect(await executeAsOwner(hre, 'SaltedArbitrator', 'setArbitrationPrice', [config.arbitrationPrice], ''))
+      .to.be.true;
+    expect(await proxy.arbitrationCost('0x')).to.be.equal(config.arbitrationPrice);
+  });
+
+  it('predicts the proxy of the escrow', async () => {
+    const { deployer, platform } = await getSigners();
+    const config = configWith({ NERWO_DEPLOY_SALT: id('proxy'), NERWO_PROXY: 'uups' });
+
+    const predicted = await predictAddresses(hre, config);
+    const args = escrowArgs(platform.address, predicted.NerwoCentralizedArbitrator, platform.address, undefined, config,
+      predicted.NerwoForwarder);
+
+    const { address, implementation } = await deployments.deploy('SaltedEscrowUUPS', {
+      contract: escrowContract('uups'),
+      args: args,
+      from: deployer.address,
+      proxy: escrowProxy('uups', args),
+      deterministicDeployment: config.deploySalt
+    });
+
+    expect(address).to.be.equal(predicted.NerwoEscrow);
+    expect(implementation).to.be.equal(predicted.NerwoEscrow_Implementation);
+  });
+
+  it('does not depend on the chain settings', async () => {
+    const base = await predictAddresses(hre, configWith({ NERWO_DEPLOY_SALT: '0x01' }));
+
+    expect(await predictAddresses(hre, configWith({
+      NERWO_DEPLOY_SALT: '0x01',
+      NERWO_TOKENS_WHITELIST: Wallet.createRandom().address,
+      NERWO_ARBITRATION_PRICE: '7'
+    }))).to.deep.equal(base);
+
+    const other = await predictAddresses(hre, configWith({ NERWO_DEPLOY_SALT: '0x02' }));
+    expect(other.NerwoEscrow).to.not.be.equal(base.NerwoEscrow);
+
+    await expect(predictAddresses(hre, configWith({}))).to.be.rejectedWith('NERWO_DEPLOY_SALT is not set for hardhat');
+  });
+
+  it('leaves the call to an owner not configured', async () => {
+    const config = configWith({ NERWO_DEPLOY_SALT: id('owner'), NERWO_OWNER_ADDRESS: Wallet.createRandom().address });
+    await deploy('OwnerSaltedArbitrator', 'NerwoCentralizedArbitrator', arbitratorArgs(undefined, config), config.deploySalt!);
+
+    expect(await executeAsOwner(hre, 'OwnerSaltedArbitrator', 'setArbitrationPrice', [parseEther('1')],
+      'nerwo:set-arbitration-price --price 1')).to.be.false;
+  });
+});
@@ -0,0 +1,73 @@
+import { expect } from 'chai';
+import { deployments, ethers } from 'hardhat';
+import { SnapshotRestorer, takeSnapshot } from '@nomicfoundation/hardhat-network-helpers';
+
+import { NerwoTetherToken } from '../../typechain-types';
+
+import * as constants from '../../constants';
+import { getContracts, getSigners } from '../utils';
+import { FuzzHarness, Step, generateSequence } from './harness';
+
+// FUZZ_SEED reproduces a reported failure, FUZZ_RUNS and FUZZ_STEPS make longer campaigns
+const SEED = Number(process.env.FUZZ_SEED || 1);
+const RUNS = Number(process.env.FUZZ_RUNS || 3);
+const STEPS = Number(process.env.FUZZ_STEPS || 60);
+
+describe('Fuzz: escrow lifecycle', function () {
+  this.timeout(0);
+
+  let initial: SnapshotRestorer;
+  let harness: FuzzHarness;
+
+  before(async () => {
+    await deployments.fixture(['NerwoEscrow', 'NerwoTetherToken'], {
+      keepExistingDeployments: true
+    });
+
+    initial = await takeSnapshot();
+
+    const { escrow, proxy, usdt } = await getContracts();
+    const { platform, court } = await getSigners();
+
+    const other = await ethers.deployContract('NerwoTetherToken') as unknown as NerwoTetherToken;
+    await escrow.connect(platform).changeWhitelist([new constants.TokenAllow(await other.getAddress(), true)]);
+
+    // two parties are contract wallets rejecting ether, their payouts are credited
+    const wallets = [
+      await ethers.deployContract('NerwoRejectingReceiver'),
+      await ethers.deployContract('NerwoRejectingReceiver')
+    ];
+    const actors = [...(await ethers.getSigners()).slice(3, 7), ...wallets];
+    harness = new FuzzHarness({ escrow, proxy, court, actors, tokens: [null, usdt, other] });
+  });
+
+  after(async () => {
+    await initial.restore();
+  });
+
+  for (let run = 0; run < RUNS; run++) {
+    it(`keeps the invariants (seed ${SEED + run})`, async () => {
+      const steps = generateSequence(SEED + run, STEPS);
+      const failure = await harness.run(steps);
+      if (failure) {
+        const minimal = await harness.shrink(steps.slice(0, failure.step + 1));
+        const reproduction = await harness.run(minimal);
+        expect.fail(`${reproduction?.message ?? failure.message}\n` +
+          `minimal sequence (${minimal.length} of ${steps.length} steps):\n${JSON.stringify(minimal, null, 2)}`);
+      }
+    });
+  }
+
+  it('shrinks a failing sequence', async () => {
+    const steps = generateSequence(SEED, 60);
+    // fails whenever a pay follows a transaction creation
+    const fails = async (candidate: Step[]) => {
+      const created = candidate.findIndex(({ action }) => action === 'createTransaction');
+      return created !== -1 && candidate.slice(created).some(({ action }) => action === 'pay');
+    };
+
+    expect(await fails(steps)).to.be.equal(true);
+    const minimal = await harness.shrink(steps, fails);
+    expect(minimal.map(({ action }) => action)).to.deep.equal(['createTransaction', 'pay']);
+  });
+});
@@ -0,0 +1,325 @@
+import { ethers } from 'hardhat';
+import { SnapshotRestorer, takeSnapshot, time } from '@nomicfoundation/hardhat-network-helpers';
+import { BaseContract, ZeroAddress } from 'ethers';
+import { SignerWithAddress } from '@nomicfoundation/hardhat-ethers/signers';
+
+import { NerwoCentralizedArbitrator, NerwoEscrow, NerwoRejectingReceiver, NerwoTetherToken } from '../../typechain-types';
+import { MIN_AMOUNT, Outcome, Ruling, Status, previewPayout } from '../../sdk';
+
+import * as constants from '../../constants';
+import { sfc32 } from '../utils';
+
+// relative weights, a dispute needs several steps in the right order to reach a ruling
+const WEIGHTS = {
+  createTransaction: 15,
+  pay: 8,
+  reimburse: 8,
+  payArbitrationFee: 25,
+  timeOut: 7,
+  claim: 5,
+  giveRuling: 15,
+  acceptRuling: 15,
+  withdraw: 5,
+  wait: 7
+};
+
+export const ACTIONS = Object.keys(WEIGHTS) as (keyof typeof WEIGHTS)[];
+
+export type Action = typeof ACTIONS[number];
+
+/**
+ * A fuzzing step, every field is an abstract choice resolved against the current state,
+ * so a sequence stays meaningful when some of its steps are removed while shrinking.
+ */
+export interface Step {
+  action: Action;
+  actor: number;    /* index of the caller among the actors */
+  target: number;   /* picks the transaction among the latest ones created */
+  token: number;    /* index of the token */
+  value: number;    /* in [0, 1), scales the amount or picks the ruling */
+}
+
+export interface Failure {
+  step: number;
+  message: string;
+}
+
+/** An account, or a contract wallet rejecting ether so its payouts are credited to `pendingWithdrawals` */
+export type Actor = SignerWithAddress | NerwoRejectingReceiver;
+
+export interface FuzzContext {
+  escrow: NerwoEscrow;
+  proxy: NerwoCentralizedArbitrator;
+  court: SignerWithAddress;
+  actors: Actor[];
+  tokens: (NerwoTetherToken | null)[];  /* null for the native token */
+}
+
+export function generateSequence(seed: number, length: number): Step[] {
+  const rand = sfc32(0x9e3779b9, 0x243f6a88, 0xb7e15162, seed);
+  const steps: Step[] = [];
+  for (let i = 0; i < length; i++) {
+    let pick = rand() * Object.values(WEIGHTS).reduce((a, b) => a + b);
+    const action = ACTIONS.find((name) => (pick -= WEIGHTS[name]) < 0)!;
+    steps.push({
+      action,
+      actor: Math.floor(rand() * 8),
+      target: Math.floor(rand() * 1000),
+      token: Math.floor(rand() * 8),
+      value: rand()
+    });
+  }
+  return steps;
+}
+
+export class FuzzHarness {
+  private snapshot?: SnapshotRestorer;
+  private transactions: bigint[] = [];
+  private burnt = new Map<string, bigint>();
+  private baseline = new Map<string, bigint>();
+
+  constructor(private readonly ctx: FuzzContext) { }
+
+  private tokenAddress(token: NerwoTetherToken | null) {
+    return token ? token.target as string : ZeroAddress;
+  }
+
+  private actorAddress(actor: Actor) {
+    return 'address' in actor ? actor.address : actor.target as string;
+  }
+
+  // contract wallets relay the call, the ether comes from the account they are connected to
+  private async send(actor: Actor, contract: BaseContract, method: string, args: unknown[], value = 0n) {
+    const data = contract.interface.encodeFunctionData(method, args);
+    const tx = 'address' in actor ?
+      await actor.sendTransaction({ to: contract, data, value }) :
+      await actor.execute(contract, data, { value });
+    return (await tx.wait())!;
+  }
+
+  private async pendingOf(token: NerwoTetherToken | null) {
+    const balances = await Promise.all(this.ctx.actors.map((actor) =>
+      this.ctx.escrow.pendingWithdrawals(this.actorAddress(actor), this.tokenAddress(token))));
+    return balances.reduce((a, b) => a + b, 0n);
+  }
+
+  private async balanceOf(token: NerwoTetherToken | null) {
+    return token ? token.balanceOf(this.ctx.escrow) : ethers.provider.getBalance(this.ctx.escrow);
+  }
+
+  /**
+   * Run `steps` from the same initial state, the invariants are checked after every step.
+   * @returns The first invariant violation, if any.
+   */
+  async run(steps: Step[]): Promise<Failure | undefined> {
+    if (this.snapshot) {
+      await this.snapshot.restore();
+    } else {
+      this.snapshot = await takeSnapshot();
+    }
+
+    this.transactions = [];
+    this.burnt.clear();
+    this.baseline.clear();
+    // the credits of the actors are counted by the invariants, not in the baseline
+    for (const token of this.ctx.tokens) {
+      this.baseline.set(this.tokenAddress(token), await this.balanceOf(token) - await this.pendingOf(token));
+    }
+
+    for (let i = 0; i < steps.length; i++) {
+      try {
+        await this.step(steps[i]);
+        await this.checkInvariants();
+      } catch (error) {
+        return { step: i, message: (error as Error).message };
+      }
+    }
+
+    return undefined;
+  }
+
+  private async step(step: Step) {
+    const { escrow, proxy, court, actors, tokens } = this.ctx;
+    const caller = actors[step.actor % actors.length];
+
+    if (step.action === 'wait') {
+      await time.increase(constants.FEE_TIMEOUT);
+      return;
+    }
+
+    if (step.action === 'createTransaction') {
+      const token = tokens[step.token % tokens.length];
+      const freelancer = actors[(step.actor + 1 + step.target % (actors.length - 1)) % actors.length];
+      const amount = MIN_AMOUNT + BigInt(Math.floor(step.value * 1e6)) * 10n ** BigInt(step.target % 12);
+
+      if (token) {
+        await this.send(caller, token, 'mint', [amount]);
+        await this.send(caller, token, 'approve', [escrow.target, amount]);
+      }
+
+      // every other transaction can be claimed by the freelancer after a fee timeout
+      const value = token ? 0n : amount;
+      const receipt = step.target % 2 ?
+        await this.send(caller, escrow, 'createTransactionWithDeadline',
+          [this.tokenAddress(token), amount, this.actorAddress(freelancer), constants.FEE_TIMEOUT], value) :
+        await this.send(caller, escrow, 'createTransaction',
+          [this.tokenAddress(token), amount, this.actorAddress(freelancer)], value);
+      const event = receipt.logs.map(({ topics, data }) => escrow.interface.parseLog({ topics: [...topics], data }))
+        .find((parsed) => parsed?.name === 'TransactionCreated');
+      this.transactions.push(event!.args.transactionID);
+      return;
+    }
+
+    if (step.action === 'withdraw') {
+      const token = this.tokenAddress(tokens[step.token % tokens.length]);
+      // a wallet accepts ether only while withdrawing, and not always
+      const wallet = 'address' in caller ? undefined : caller;
+      await wallet?.setRejecting(step.value < 0.5);
+      try {
+        await this.send(caller, escrow, 'withdraw', [token]);
+      } catch (_) {
+        // nothing to withdraw, or still rejecting
+      }
+      await wallet?.setRejecting(true);
+      return;
+    }
+
+    if (!this.transactions.length) {
+      return;
+    }
+
+    // the latest transactions, to give multi step flows a chance
+    const transactionID = this.transactions.at(-1 - step.target % Math.min(3, this.transactions.length))!;
+    const transaction = await escrow.getTransaction(transactionID);
+    const status = Number(transaction.status) as Status;
+
+    // mostly act as one of the parties, sometimes as a stranger
+    const parties = [transaction.client, transaction.client, transaction.freelancer, transaction.freelancer];
+    const party = parties[step.actor % 5];
+    const signer = party ? actors.find((actor) => this.actorAddress(actor) === party)! : caller;
+
+    const escrowBalances = await Promise.all(tokens.map((token) => this.balanceOf(token)));
+
+    // half of the times the whole amount, else a share of it that may leave too little
+    const amount = step.value < 0.5 ? transaction.amount :
+      transaction.amount * BigInt(Math.round(step.value * 100)) / 100n;
+
+    let outcome: Outcome | undefined = ({ pay: 'pay', reimburse: 'reimburse', claim: 'claim', timeOut: 'timeout' } as const)[
+      step.action as 'pay' | 'reimburse' | 'claim' | 'timeOut'];
+    if (step.action === 'acceptRuling' && status === Status.DisputeCreated) {
+      outcome = Number((await escrow.fetchRuling(transactionID)).ruling) as Ruling;
+    }
+
+    let burnt = 0n;
+    if (outcome !== undefined) {
+      try {
+        const { feeRecipientBasisPoint } = await escrow.feeRecipientData();
+        burnt = previewPayout(transaction, feeRecipientBasisPoint, outcome, amount).burnt;
+      } catch (_) {
+        // the call is expected to revert
+      }
+    }
+
+    let succeeded = true;
+    try {
+      switch (step.action) {
+        case 'pay':
+        case 'reimburse':
+          await this.send(signer, escrow, step.action, [transactionID, amount]);
+          break;
+        case 'payArbitrationFee':
+          await this.send(signer, escrow, step.action, [transactionID], await escrow.getArbitrationCost());
+          break;
+        case 'claim':
+        case 'timeOut':
+        case 'acceptRuling':
+          await this.send(signer, escrow, step.action, [transactionID]);
+          break;
+        case 'giveRuling':
+          await (await proxy.connect(court).giveRuling(transaction.disputeID, Math.floor(step.value * 3))).wait();
+          break;
+      }
+    } catch (_) {
+      // random steps are mostly invalid, the invariants tell if a revert was wrong
+      succeeded = false;
+    }
+
+    if (status === Status.Resolved) {
+      const after = await Promise.all(tokens.map((token) => this.balanceOf(token)));
+      if (step.action !== 'giveRuling' && succeeded) {
+        throw new Error(`${step.action} succeeded on resolved transaction ${transactionID}`);
+      }
+      if (after.some((balance, i) => balance !== escrowBalances[i])) {
+        throw new Error(`${step.action} moved funds of resolved transaction ${transactionID}`);
+      }
+    }
+
+    if (succeeded && burnt) {
+      const token = transaction.token as string;
+      this.burnt.set(token, (this.burnt.get(token) ?? 0n) + burnt);
+    }
+  }
+
+  /**
+   * - the escrow token balance equals the sum of the open amounts, plus the units burnt by uneven splits,
+   *   plus the payouts credited to the actors and not yet withdrawn
+   * - the escrow ether balance equals the open native amounts plus the arbitration fees not yet
+   *   forwarded to the arbitrator or refunded, plus the credited ether
+   * - a resolved transaction holds nothing
+   */
+  private async checkInvariants() {
+    const { escrow, tokens } = this.ctx;
+    const arbitrationCost = await escrow.getArbitrationCost();
+
+    const held = new Map<string, bigint>();
+    const add = (token: string, value: bigint) => held.set(token, (held.get(token) ?? 0n) + value);
+
+    for (const transactionID of this.transactions) {
+      const { status, token, amount, clientFee, freelancerFee } = await escrow.getTransaction(transactionID);
+
+      if (Number(status) === Status.Resolved) {
+        if (amount || clientFee || freelancerFee) {
+          throw new Error(`Resolved transaction ${transactionID} still holds funds`);
+        }
+        continue;
+      }
+
+      add(token, amount);
+      // the second fee paid is forwarded to the arbitrator when the dispute is created
+      add(ZeroAddress, clientFee + freelancerFee - (Number(status) === Status.DisputeCreated ? arbitrationCost : 0n));
+    }
+
+    for (const token of tokens) {
+      const address = this.tokenAddress(token);
+      const expected = this.baseline.get(address)! + (held.get(address) ?? 0n) + (this.burnt.get(address) ?? 0n) +
+        await this.pendingOf(token);
+      const actual = await this.balanceOf(token);
+      if (actual !== expected) {
+        throw new Error(`Escrow balance of ${address} is ${actual}, expected ${expected}`);
+      }
+    }
+  }
+
+  /**
+   * Minimize a failing sequence by removing chunks of steps, then single steps,
+   * as long as the sequence keeps failing.
+   */
+  async shrink(steps: Step[], fails: (steps: Step[]) => Promise<boolean> = async (s) => !!await this.run(s)) {
+    let chunk = Math.max(1, Math.floor(steps.length / 2));
+    while (chunk >= 1) {
+      let removed = false;
+      for (let start = 0; start < steps.length; start += chunk) {
+        const candidate = [...steps.slice(0, start), ...steps.slice(start + chunk)];
+        if (await fails(candidate)) {
+          steps = candidate;
+          removed = true;
+          start -= chunk;
+        }
+      }
+      if (!removed) {
+        chunk = Math.floor(chunk / 2);
+      }
+    }
+    return steps;
+  }
+}
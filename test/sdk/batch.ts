@@ -0,0 +1,80 @@
+import { expect } from 'chai';
+import { deployments } from 'hardhat';
+import { time } from '@nomicfoundation/hardhat-network-helpers';
+import { SignerWithAddress } from '@nomicfoundation/hardhat-ethers/signers';
+
+import { NerwoCentralizedArbitrator, NerwoEscrow, NerwoTetherToken } from '../../typechain-types';
+import { SettlementPlanner, Status } from '../../sdk';
+
+import * as constants from '../../constants';
+import { Actor, createDispute, createTransaction, getContracts, getSigners, randomAmount } from '../utils';
+
+describe('SDK: SettlementPlanner', function () {
+  before(async () => {
+    await deployments.fixture(['NerwoEscrow', 'NerwoTetherToken'], {
+      keepExistingDeployments: true
+    });
+  });
+
+  let escrow: NerwoEscrow;
+  let proxy: NerwoCentralizedArbitrator;
+  let usdt: NerwoTetherToken;
+
+  let platform: SignerWithAddress;
+  let court: SignerWithAddress;
+  let client: SignerWithAddress;
+  let freelancer: SignerWithAddress;
+
+  const actor = new Actor();
+
+  beforeEach(async () => {
+    ({ escrow, proxy, usdt } = await getContracts());
+    ({ platform, court, client, freelancer } = await getSigners());
+  });
+
+  it('plans and submits the eligible transactions in gas bounded chunks', async () => {
+    const ruled: bigint[] = [];
+    for (let i = 0; i < 3; i++) {
+      const { transactionID, disputeID } = await createDispute(actor, usdt);
+      await proxy.connect(court).giveRuling(disputeID, constants.Ruling.SplitAmount);
+      ruled.push(transactionID);
+    }
+    const { transactionID: unruled } = await createDispute(actor, usdt);
+
+    const timedOut = await createTransaction(client, freelancer.address, usdt, await randomAmount());
+    await escrow.connect(freelancer).payArbitrationFee(timedOut, { value: await escrow.getArbitrationCost() });
+    await time.increase(constants.FEE_TIMEOUT);
+
+    const planner = new SettlementPlanner(escrow.connect(platform));
+    const plan = await planner.plan();
+    expect(plan.acceptRulings).to.include.members(ruled);
+    expect(plan.acceptRulings).to.not.include(unruled);
+    expect(plan.timeOuts).to.include(timedOut);
+
+    expect(await planner.plan([unruled, 0n, 10_000n])).to.deep.equal({ acceptRulings: [], timeOuts: [] });
+
+    // room for a single ruling per batch
+    const perItem = await escrow.acceptRulings.estimateGas([ruled[0]]);
+    const small = new SettlementPlanner(escrow.connect(platform), { maxGas: perItem });
+    expect(await small.chunk('acceptRulings', ruled)).to.deep.equal(ruled.map((id) => [id]));
+    expect(await planner.chunk('acceptRulings', ruled)).to.deep.equal([ruled]);
+
+    const chunks = await small.chunkPlan({ acceptRulings: ruled, timeOuts: [timedOut] });
+    expect(chunks).to.deep.equal({ acceptRulings: ruled.map((id) => [id]), timeOuts: [[timedOut]] });
+
+    const results = await small.submitChunks(chunks);
+    expect(results.map(({ method, transactionID, success }) => [method, transactionID, success])).to.deep.equal([
+      ...ruled.map((id) => ['acceptRulings', id, true]),
+      ['timeOuts', timedOut, true]
+    ]);
+    expect(new Set(results.map(({ hash }) => hash)).size).to.be.equal(ruled.length + 1);
+
+    for (const transactionID of [...ruled, timedOut]) {
+      expect((await escrow.getTransaction(transactionID)).status).to.be.equal(Status.Resolved);
+    }
+
+    const after = await planner.plan();
+    expect(after.acceptRulings.filter((id) => ruled.includes(id))).to.be.empty;
+    expect(after.timeOuts).to.not.include(timedOut);
+  });
+});
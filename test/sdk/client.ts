@@ -0,0 +1,187 @@
+import { expect } from 'chai';
+import { deployments, ethers } from 'hardhat';
+import { time } from '@nomicfoundation/hardhat-network-helpers';
+import { ZeroAddress } from 'ethers';
+import { SignerWithAddress } from '@nomicfoundation/hardhat-ethers/signers';
+
+import { NerwoBlacklistToken, NerwoCentralizedArbitrator, NerwoEscrow, NerwoTetherToken } from '../../typechain-types';
+import {
+  AlreadyPaidError, EscrowClient, InvalidAmountError, InvalidCallerError, InvalidDeadlineError, InvalidMilestoneError, InvalidStatusError, InvalidTransactionError,
+  NoTimeoutError, Status
+} from '../../sdk';
+
+import * as constants from '../../constants';
+import { getContracts, getSigners, installPermit2, randomAmount } from '../utils';
+
+describe('SDK: EscrowClient', function () {
+  before(async () => {
+    await deployments.fixture(['NerwoEscrow', 'NerwoTetherToken'], {
+      keepExistingDeployments: true
+    });
+  });
+
+  let escrow: NerwoEscrow;
+  let proxy: NerwoCentralizedArbitrator;
+  let usdt: NerwoTetherToken;
+
+  let platform: SignerWithAddress;
+  let court: SignerWithAddress;
+  let client: SignerWithAddress;
+  let freelancer: SignerWithAddress;
+
+  let asClient: EscrowClient;
+  let asFreelancer: EscrowClient;
+
+  beforeEach(async () => {
+    ({ escrow, proxy, usdt } = await getContracts());
+    ({ platform, court, client, freelancer } = await getSigners());
+    asClient = new EscrowClient(escrow.connect(client));
+    asFreelancer = new EscrowClient(escrow.connect(freelancer));
+  });
+
+  it('creates an ERC20 escrow approving the allowance', async () => {
+    const amount = await randomAmount();
+    await usdt.connect(client).mint(amount);
+    await usdt.connect(client).approve(await escrow.getAddress(), 0n);
+
+    const transactionID = await asClient.createTransaction({
+      token: await usdt.getAddress(), amount, freelancer: freelancer.address
+    });
+
+    const transaction = await asClient.getTransaction(transactionID);
+    expect(transaction.amount).to.be.equal(amount);
+    expect(transaction.status).to.be.equal(Status.NoDispute);
+
+    const feeAmount = await escrow.calculateFeeRecipientAmount(amount);
+    const balance = await usdt.balanceOf(freelancer.address);
+    await asClient.pay(transactionID);
+    expect(await usdt.balanceOf(freelancer.address)).to.be.equal(balance + amount - feeAmount);
+  });
+
+  it('creates a native escrow and reimburses', async () => {
+    const amount = await randomAmount();
+    const transactionID = await asClient.createTransaction({ amount, freelancer: freelancer.address });
+
+    await expect(asClient.reimburse(transactionID)).to.be.rejectedWith(InvalidCallerError);
+    await asFreelancer.reimburse(transactionID);
+    expect((await asClient.getTransaction(transactionID)).amount).to.be.equal(0n);
+  });
+
+  it('creates a milestone escrow and closes the milestones', async () => {
+    const milestones = [await randomAmount(), await randomAmount()];
+    const transactionID = await asClient.createMilestoneTransaction({ milestones, freelancer: freelancer.address });
+
+    await asClient.payMilestone(transactionID, 1);
+    await expect(asClient.payMilestone(transactionID, 1)).to.be.rejectedWith(InvalidMilestoneError);
+    await asFreelancer.reimburseMilestone(transactionID, 0);
+
+    expect(await asClient.getMilestones(transactionID)).to.deep.equal([0n, 0n]);
+    expect((await asClient.getTransaction(transactionID)).amount).to.be.equal(0n);
+  });
+
+  it('creates an escrow with a deadline the freelancer claims', async () => {
+    const amount = await randomAmount();
+    const releaseTimeout = 3600;
+    const transactionID = await asClient.createTransaction({ amount, freelancer: freelancer.address, releaseTimeout });
+    expect((await asClient.getTransaction(transactionID)).releaseTimeout).to.be.equal(BigInt(releaseTimeout));
+
+    await expect(asFreelancer.claim(transactionID)).to.be.rejectedWith(NoTimeoutError);
+    await time.increase(releaseTimeout);
+    await asFreelancer.claim(transactionID);
+    expect((await asClient.getTransaction(transactionID)).amount).to.be.equal(0n);
+
+    const other = await asClient.createTransaction({ amount, freelancer: freelancer.address });
+    await expect(asFreelancer.claim(other)).to.be.rejectedWith(InvalidDeadlineError);
+  });
+
+  it('creates ERC20 escrows with a permit or a Permit2 signature', async () => {
+    const token = await usdt.getAddress();
+    const amount = await randomAmount();
+    const balance = await usdt.balanceOf(client.address);
+    await usdt.connect(client).mint(2n * amount);
+    await installPermit2();
+
+    for (const create of [asClient.createTransactionWithPermit, asClient.createTransactionWithPermit2]) {
+      const transactionID = await create.call(asClient, { token, amount, freelancer: freelancer.address });
+      expect((await asClient.getTransaction(transactionID)).amount).to.be.equal(amount);
+    }
+
+    expect(await usdt.balanceOf(client.address)).to.be.equal(balance);
+    expect(await usdt.allowance(client.address, await escrow.getAddress())).to.be.equal(0n);
+  });
+
+  it('disputes and accepts the ruling', async () => {
+    const amount = await randomAmount();
+    const transactionID = await asClient.createTransaction({ amount, freelancer: freelancer.address });
+
+    await asClient.payArbitrationFee(transactionID);
+    await expect(asClient.payArbitrationFee(transactionID)).to.be.rejectedWith(AlreadyPaidError);
+    await asFreelancer.payArbitrationFee(transactionID);
+
+    const { disputeID, status } = await asClient.getTransaction(transactionID);
+    expect(status).to.be.equal(Status.DisputeCreated);
+
+    await proxy.connect(court).giveRuling(disputeID, constants.Ruling.FreelancerWins);
+    expect(await asClient.fetchRuling(transactionID)).to.deep.equal([true, BigInt(constants.Ruling.FreelancerWins)]);
+
+    await asFreelancer.acceptRuling(transactionID);
+    expect((await asClient.getTransaction(transactionID)).status).to.be.equal(Status.Resolved);
+  });
+
+  it('appeals the ruling', async () => {
+    await proxy.connect(court).setAppealSettings(3600, ZeroAddress);
+    try {
+      const amount = await randomAmount();
+      const transactionID = await asClient.createTransaction({ amount, freelancer: freelancer.address });
+      await asClient.payArbitrationFee(transactionID);
+      await asFreelancer.payArbitrationFee(transactionID);
+
+      const { disputeID } = await asClient.getTransaction(transactionID);
+      await proxy.connect(court).giveRuling(disputeID, constants.Ruling.FreelancerWins);
+      expect(await asClient.getAppealCost(transactionID)).to.be.equal(await escrow.getArbitrationCost());
+
+      await expect(asFreelancer.appeal(transactionID)).to.be.rejectedWith(InvalidCallerError);
+      await asClient.appeal(transactionID);
+      expect(await asClient.fetchRuling(transactionID)).to.deep.equal([false, BigInt(constants.Ruling.FreelancerWins)]);
+
+      await proxy.connect(court).giveRuling(disputeID, constants.Ruling.ClientWins);
+      await time.increase(3600);
+      await asClient.acceptRuling(transactionID);
+      expect((await asClient.getTransaction(transactionID)).ruling).to.be.equal(constants.Ruling.ClientWins);
+    } finally {
+      await proxy.connect(court).setAppealSettings(0, ZeroAddress);
+    }
+  });
+
+  it('withdraws a payout rejected by a blacklist', async () => {
+    const token: NerwoBlacklistToken = await ethers.deployContract('NerwoBlacklistToken');
+    await escrow.connect(platform).changeWhitelist([{ token, allow: true }]);
+
+    const amount = await randomAmount();
+    await token.connect(client).mint(amount);
+    const transactionID = await asClient.createTransaction({
+      token: await token.getAddress(), amount, freelancer: freelancer.address
+    });
+
+    await token.setBlackListed(client.address, true);
+    await asFreelancer.reimburse(transactionID);
+    expect(await asClient.getPendingWithdrawal(await token.getAddress())).to.be.equal(amount);
+    await expect(asClient.withdraw(await token.getAddress())).to.be.rejected;
+
+    await token.setBlackListed(client.address, false);
+    await asClient.withdraw(await token.getAddress());
+    expect(await token.balanceOf(client.address)).to.be.equal(amount);
+    await expect(asClient.withdraw(await token.getAddress())).to.be.rejectedWith(InvalidAmountError);
+  });
+
+  it('decodes errors', async () => {
+    await expect(asClient.getTransaction(0n)).to.be.rejectedWith(InvalidTransactionError);
+
+    const amount = await randomAmount();
+    const transactionID = await asClient.createTransaction({ amount, freelancer: freelancer.address });
+
+    await expect(asClient.timeOut(transactionID)).to.be.rejectedWith(NoTimeoutError);
+    await expect(asClient.acceptRuling(transactionID)).to.be.rejectedWith(InvalidStatusError);
+    await expect(asClient.fetchRuling(transactionID)).to.be.rejectedWith(InvalidStatusError);
+  });
+});
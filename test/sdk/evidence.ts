@@ -0,0 +1,52 @@
+import { expect } from 'chai';
+import { deployments } from 'hardhat';
+import { keccak256, toUtf8Bytes } from 'ethers';
+
+import { EscrowClient, InvalidStatusError, buildEvidence, evidenceURI, verifyEvidence } from '../../sdk';
+
+import * as constants from '../../constants';
+import { Actor, createDispute } from '../utils';
+
+describe('SDK: evidence', function () {
+  before(async () => {
+    await deployments.fixture(['NerwoEscrow', 'NerwoTetherToken'], {
+      keepExistingDeployments: true
+    });
+  });
+
+  it('builds content addressed ERC-1497 evidence', async () => {
+    const file = toUtf8Bytes('delivered on time');
+    const document = buildEvidence({ name: 'Delivery', description: 'Proof of delivery', file, fileTypeExtension: 'txt' });
+
+    expect(document.evidence).to.deep.equal({
+      name: 'Delivery',
+      description: 'Proof of delivery',
+      fileURI: evidenceURI(keccak256(file), 'txt'),
+      fileHash: keccak256(file),
+      fileTypeExtension: 'txt'
+    });
+    expect(document.hash).to.be.equal(keccak256(toUtf8Bytes(document.json)));
+    expect(document.uri).to.be.equal(`/evidence/${document.hash.slice(2)}.json`);
+    expect(verifyEvidence(document.uri, document.json)).to.be.true;
+    expect(verifyEvidence(document.uri, document.json.replace('Delivery', 'Invoice'))).to.be.false;
+
+    // same content, same uri
+    expect(buildEvidence({ name: 'Delivery', description: 'Proof of delivery', file, fileTypeExtension: 'txt' }).uri)
+      .to.be.equal(document.uri);
+    expect(buildEvidence({ name: 'Note' }).evidence).to.deep.equal({ name: 'Note' });
+    expect(buildEvidence({ name: 'Link', file, fileURI: '/ipfs/file' }).evidence.fileURI).to.be.equal('/ipfs/file');
+  });
+
+  it('submits evidence with the client', async () => {
+    const { escrow, proxy, court, client, transactionID, disputeID } = await createDispute(new Actor());
+    const document = buildEvidence({ name: 'Chat log' });
+
+    const receipt = await new EscrowClient(escrow.connect(client)).submitEvidence(transactionID, document);
+    await expect(receipt).to.emit(escrow, 'EvidenceSubmitted').withArgs(transactionID, client.address, document.uri);
+
+    await proxy.connect(court).giveRuling(disputeID, constants.Ruling.ClientWins);
+    await escrow.connect(client).acceptRuling(transactionID);
+    await expect(new EscrowClient(escrow.connect(client)).submitEvidence(transactionID, '/ipfs/late.json'))
+      .to.be.rejectedWith(InvalidStatusError);
+  });
+});
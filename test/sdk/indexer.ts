@@ -0,0 +1,144 @@
+import { expect } from 'chai';
+import { deployments } from 'hardhat';
+import { mine, takeSnapshot, time } from '@nomicfoundation/hardhat-network-helpers';
+import { SignerWithAddress } from '@nomicfoundation/hardhat-ethers/signers';
+
+import { NerwoCentralizedArbitrator, NerwoEscrow, NerwoTetherToken } from '../../typechain-types';
+import { EscrowIndexer, EscrowRecord, MemoryStore } from '../../sdk/indexer';
+import { Outcome, Payout, Ruling, Status, previewPayout } from '../../sdk';
+
+import * as constants from '../../constants';
+import { Actor, createDispute, createNativeTransaction, createTransaction, getContracts, getSigners, randomAmount } from '../utils';
+
+describe('SDK: EscrowIndexer', function () {
+  before(async () => {
+    await deployments.fixture(['NerwoEscrow', 'NerwoTetherToken'], {
+      keepExistingDeployments: true
+    });
+  });
+
+  let escrow: NerwoEscrow;
+  let proxy: NerwoCentralizedArbitrator;
+  let usdt: NerwoTetherToken;
+
+  let court: SignerWithAddress;
+  let client: SignerWithAddress;
+  let freelancer: SignerWithAddress;
+
+  beforeEach(async () => {
+    ({ escrow, proxy, usdt } = await getContracts());
+    ({ court, client, freelancer } = await getSigners());
+  });
+
+  async function expectIndexed(indexer: EscrowIndexer, transactionID: bigint) {
+    const record = await indexer.getTransaction(transactionID);
+    const transaction = await escrow.getTransaction(transactionID);
+    expect(record).to.not.be.undefined;
+    expect(record!.status).to.be.equal(Number(transaction.status));
+    expect(record!.amount).to.be.equal(transaction.amount);
+    expect(record!.ruling).to.be.equal(Number(transaction.ruling));
+    return record!;
+  }
+
+  // what the resolution of `transactionID` pays, from the state before it
+  async function payoutOf(transactionID: bigint, outcome: Outcome) {
+    const { feeRecipientBasisPoint } = await escrow.feeRecipientData();
+    return previewPayout(await escrow.getTransaction(transactionID), feeRecipientBasisPoint, outcome);
+  }
+
+  function expectPayout(record: EscrowRecord, payout: Payout) {
+    expect([record.paid, record.reimbursed, record.fees])
+      .to.deep.equal([payout.freelancer, payout.client, payout.feeRecipient]);
+  }
+
+  it('rebuilds the state of every transaction in chunks', async () => {
+    const paidAmount = await randomAmount();
+    const paid = await createTransaction(client, freelancer.address, usdt, paidAmount);
+    await escrow.connect(client).pay(paid, paidAmount);
+
+    const reimbursedAmount = await randomAmount();
+    const reimbursed = await createNativeTransaction(client, freelancer.address, reimbursedAmount);
+    await escrow.connect(freelancer).reimburse(reimbursed, reimbursedAmount);
+
+    const open = await createNativeTransaction(client, freelancer.address, await randomAmount());
+
+    const waiting = await createNativeTransaction(client, freelancer.address, await randomAmount());
+    await escrow.connect(client).payArbitrationFee(waiting, { value: await escrow.getArbitrationCost() });
+
+    const { transactionID: ruled, disputeID } = await createDispute(new Actor());
+    await proxy.connect(court).giveRuling(disputeID, constants.Ruling.SplitAmount);
+    const ruledPayout = await payoutOf(ruled, Ruling.SplitAmount);
+    await escrow.connect(client).acceptRuling(ruled);
+
+    // resolved without any event: no fee and a single call
+    const clientWins = await createDispute(new Actor());
+    await proxy.connect(court).giveRuling(clientWins.disputeID, constants.Ruling.ClientWins);
+    const clientWinsPayout = await payoutOf(clientWins.transactionID, Ruling.ClientWins);
+    await escrow.connect(freelancer).acceptRuling(clientWins.transactionID);
+
+    // resolved by a batch, with a fee
+    const timedOut = await createNativeTransaction(client, freelancer.address, await randomAmount());
+    await escrow.connect(freelancer).payArbitrationFee(timedOut, { value: await escrow.getArbitrationCost() });
+    await time.increase(constants.FEE_TIMEOUT);
+    const timedOutPayout = await payoutOf(timedOut, 'timeout');
+    await escrow.timeOuts([timedOut]);
+
+    const indexer = new EscrowIndexer(escrow, new MemoryStore(), { chunkSize: 3, confirmations: 0 });
+    await indexer.sync();
+
+    const paidRecord = await expectIndexed(indexer, paid);
+    expect(paidRecord.fees).to.be.greaterThan(0n);
+    expect(paidRecord.paid).to.be.greaterThan(0n);
+
+    expect((await expectIndexed(indexer, reimbursed)).reimbursed).to.be.greaterThan(0n);
+    expect((await expectIndexed(indexer, open)).status).to.be.equal(Status.NoDispute);
+    expect((await expectIndexed(indexer, waiting)).status).to.be.equal(Status.WaitingFreelancer);
+
+    const ruledRecord = await expectIndexed(indexer, ruled);
+    expect(ruledRecord.status).to.be.equal(Status.Resolved);
+    expect(ruledRecord.disputeID).to.be.equal(disputeID);
+    expectPayout(ruledRecord, ruledPayout);
+
+    expectPayout(await expectIndexed(indexer, clientWins.transactionID), clientWinsPayout);
+    expect(timedOutPayout.feeRecipient).to.be.greaterThan(0n);
+    expectPayout(await expectIndexed(indexer, timedOut), timedOutPayout);
+
+    const records = await indexer.getTransactionsOf(freelancer.address);
+    expect(records.map((record) => record.transactionID)).to.include.members([paid, reimbursed, open, waiting, ruled]);
+  });
+
+  it('resumes from the store and trails the head', async () => {
+    const store = new MemoryStore();
+
+    const first = await createNativeTransaction(client, freelancer.address, await randomAmount());
+    await mine(2);
+    const lastBlock = await new EscrowIndexer(escrow, store, { confirmations: 2 }).sync();
+    expect(lastBlock).to.be.equal(await escrow.runner!.provider!.getBlockNumber() - 2);
+
+    const second = await createNativeTransaction(client, freelancer.address, await randomAmount());
+
+    const indexer = new EscrowIndexer(escrow, store, { confirmations: 2 });
+    await indexer.sync();
+    await expectIndexed(indexer, first);
+    expect(await indexer.getTransaction(second)).to.be.undefined;
+
+    await mine(2);
+    await indexer.sync();
+    await expectIndexed(indexer, second);
+  });
+
+  it('rebuilds the index after a reorg', async () => {
+    const store = new MemoryStore();
+    const snapshot = await takeSnapshot();
+
+    const orphaned = await createNativeTransaction(client, freelancer.address, await randomAmount());
+    await new EscrowIndexer(escrow, store, { confirmations: 0 }).sync();
+
+    await snapshot.restore();
+    await mine(3);
+
+    const indexer = new EscrowIndexer(escrow, store, { confirmations: 0 });
+    await indexer.sync();
+    expect(await indexer.getTransaction(orphaned)).to.be.undefined;
+  });
+});
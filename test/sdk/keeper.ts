@@ -0,0 +1,174 @@
+import { expect } from 'chai';
+import { deployments, ethers, network } from 'hardhat';
+import { time } from '@nomicfoundation/hardhat-network-helpers';
+import { FeeData, ZeroAddress } from 'ethers';
+import { SignerWithAddress } from '@nomicfoundation/hardhat-ethers/signers';
+
+import { NerwoCentralizedArbitrator, NerwoEscrow, NerwoTetherToken } from '../../typechain-types';
+import { Keeper, KeeperState } from '../../sdk/keeper';
+import { MemoryStore } from '../../sdk/indexer';
+import { Status } from '../../sdk';
+
+import * as constants from '../../constants';
+import { Actor, createDispute, createTransaction, getContracts, getSigners, randomAmount } from '../utils';
+
+describe('SDK: Keeper', function () {
+  before(async () => {
+    await deployments.fixture(['NerwoEscrow', 'NerwoTetherToken'], {
+      keepExistingDeployments: true
+    });
+  });
+
+  let escrow: NerwoEscrow;
+  let proxy: NerwoCentralizedArbitrator;
+  let usdt: NerwoTetherToken;
+
+  let platform: SignerWithAddress;
+  let court: SignerWithAddress;
+  let client: SignerWithAddress;
+  let freelancer: SignerWithAddress;
+
+  let fromBlock: number;
+
+  const actor = new Actor();
+
+  beforeEach(async () => {
+    ({ escrow, proxy, usdt } = await getContracts());
+    ({ platform, court, client, freelancer } = await getSigners());
+    fromBlock = await ethers.provider.getBlockNumber() + 1;
+  });
+
+  async function waitingFee() {
+    const transactionID = await createTransaction(client, freelancer.address, usdt, await randomAmount());
+    await escrow.connect(freelancer).payArbitrationFee(transactionID, { value: await escrow.getArbitrationCost() });
+    return transactionID;
+  }
+
+  it('finalizes the ruled disputes and the expired fee timeouts once', async () => {
+    const ruled = await createDispute(actor, usdt);
+    await proxy.connect(court).giveRuling(ruled.disputeID, constants.Ruling.SplitAmount);
+
+    const accepted = await createDispute(actor, usdt);
+    await proxy.connect(court).giveRuling(accepted.disputeID, constants.Ruling.ClientWins);
+    await escrow.connect(client).acceptRuling(accepted.transactionID);
+
+    const timedOut = await waitingFee();
+
+    const store = new MemoryStore<KeeperState>();
+    const keeper = new Keeper(escrow.connect(platform), proxy, store, { fromBlock, confirmations: 0 });
+    await keeper.sync();
+
+    // both fees were paid
+    expect((await keeper.getJob('timeOuts', ruled.transactionID))?.status).to.be.equal('stale');
+    expect((await keeper.pendingJobs()).map(({ action, transactionID }) => [action, transactionID])).to.deep.equal([
+      ['acceptRulings', ruled.transactionID],
+      ['acceptRulings', accepted.transactionID],
+      ['timeOuts', timedOut]
+    ]);
+
+    const results = await keeper.run();
+    expect(results.map(({ transactionID, status }) => [transactionID, status])).to.deep.equal([
+      [accepted.transactionID, 'stale'],
+      [ruled.transactionID, 'done']
+    ]);
+    expect((await escrow.getTransaction(ruled.transactionID)).status).to.be.equal(Status.Resolved);
+    expect((await escrow.getTransaction(timedOut)).status).to.be.equal(Status.WaitingClient);
+
+    await time.increase(constants.FEE_TIMEOUT);
+    const [result] = await keeper.run();
+    expect(result).to.include({ action: 'timeOuts', transactionID: timedOut, status: 'done' });
+    expect((await escrow.getTransaction(timedOut)).status).to.be.equal(Status.Resolved);
+
+    // a restarted keeper resumes from the stored state
+    const restarted = new Keeper(escrow.connect(platform), proxy, store, { fromBlock, confirmations: 0 });
+    await restarted.sync();
+    expect(await restarted.pendingJobs()).to.be.empty;
+    expect(await restarted.run()).to.be.empty;
+  });
+
+  it('waits for the end of the appeal period', async () => {
+    await proxy.connect(court).setAppealSettings(3600, ZeroAddress);
+    try {
+      const { transactionID, disputeID } = await createDispute(actor, usdt);
+      await proxy.connect(court).giveRuling(disputeID, constants.Ruling.ClientWins);
+      const [, end] = await proxy.appealPeriod(disputeID);
+
+      const keeper = new Keeper(escrow.connect(platform), proxy, new MemoryStore(), { fromBlock, confirmations: 0 });
+      await keeper.sync();
+      expect((await keeper.getJob('acceptRulings', transactionID))?.notBefore).to.be.equal(Number(end));
+
+      expect(await keeper.run()).to.be.empty;
+      await time.increaseTo(end);
+      const [result] = await keeper.run();
+      expect(result).to.include({ transactionID, status: 'done' });
+    } finally {
+      await proxy.connect(court).setAppealSettings(0, ZeroAddress);
+    }
+  });
+
+  it('bumps the fees of a batch not mined in time', async () => {
+    const transactionID = await waitingFee();
+    await time.increase(constants.FEE_TIMEOUT);
+
+    const store = new MemoryStore<KeeperState>();
+    const keeper = new Keeper(escrow.connect(platform), proxy, store,
+      { fromBlock, confirmations: 0, bumpAfter: 200, pollInterval: 20 });
+    await keeper.sync();
+
+    const inflight = async () => (await store.load())?.inflight?.hashes ?? [];
+
+    await network.provider.send('evm_setAutomine', [false]);
+    try {
+      const running = keeper.run();
+
+      let hashes: string[] = [];
+      while (!hashes.length) {
+        await new Promise((resolve) => setTimeout(resolve, 10));
+        hashes = await inflight();
+      }
+      const sent = await ethers.provider.getTransaction(hashes[0]);
+
+      while (hashes.length < 2) {
+        await new Promise((resolve) => setTimeout(resolve, 10));
+        hashes = await inflight();
+      }
+      await network.provider.send('evm_mine');
+
+      const [result] = await running;
+      expect(result).to.include({ transactionID, status: 'done' });
+
+      // the replacement was mined with the same nonce
+      const mined = await ethers.provider.getTransaction(result.hash!);
+      expect(mined!.nonce).to.be.equal(sent!.nonce);
+      expect(mined!.maxFeePerGas).to.be.greaterThan(sent!.maxFeePerGas!);
+    } finally {
+      await network.provider.send('evm_setAutomine', [true]);
+    }
+
+    expect((await store.load())!.inflight).to.be.undefined;
+    expect((await escrow.getTransaction(transactionID)).status).to.be.equal(Status.Resolved);
+  });
+
+  it('sends a legacy transaction without EIP-1559 fees', async () => {
+    const transactionID = await waitingFee();
+    await time.increase(constants.FEE_TIMEOUT);
+
+    const keeper = new Keeper(escrow.connect(platform), proxy, new MemoryStore<KeeperState>(),
+      { fromBlock, confirmations: 0 });
+    await keeper.sync();
+
+    const { getFeeData } = ethers.provider;
+    const { gasPrice } = await getFeeData.call(ethers.provider);
+    ethers.provider.getFeeData = async () => new FeeData(gasPrice);
+    try {
+      const [result] = await keeper.run();
+      expect(result).to.include({ transactionID, status: 'done' });
+
+      const mined = await ethers.provider.getTransaction(result.hash!);
+      expect(mined!.type).to.be.equal(0);
+      expect(mined!.gasPrice).to.be.equal(gasPrice);
+    } finally {
+      ethers.provider.getFeeData = getFeeData;
+    }
+  });
+});
@@ -0,0 +1,52 @@
+import { expect } from 'chai';
+import { keccak256, toUtf8Bytes } from 'ethers';
+
+import { DEFAULT_RULINGS, buildMetaEvidence, validateMetaEvidence, verifyEvidence } from '../../sdk';
+
+describe('SDK: MetaEvidence', function () {
+  const terms = toUtf8Bytes('The freelancer delivers the website by the end of the month.');
+
+  it('builds the MetaEvidence of the escrow rulings', async () => {
+    const document = buildMetaEvidence({ title: 'Nerwo', description: 'Freelance agreement', terms, fileTypeExtension: 'txt' });
+    const { metaEvidence } = document;
+
+    expect(metaEvidence.category).to.be.equal('Escrow');
+    expect(metaEvidence.rulingOptions).to.deep.equal({
+      type: 'single-select',
+      titles: [DEFAULT_RULINGS.clientWins.title, DEFAULT_RULINGS.freelancerWins.title],
+      descriptions: [DEFAULT_RULINGS.clientWins.description, DEFAULT_RULINGS.freelancerWins.description]
+    });
+    // ruling 0 is the split
+    expect(metaEvidence.description).to.contain(DEFAULT_RULINGS.split.title);
+    expect(metaEvidence.fileHash).to.be.equal(keccak256(terms));
+    expect(metaEvidence.fileURI).to.be.equal(`/evidence/${keccak256(terms).slice(2)}.txt`);
+
+    expect(verifyEvidence(document.uri, document.json)).to.be.true;
+    expect(validateMetaEvidence(JSON.parse(document.json), terms)).to.be.empty;
+    expect(validateMetaEvidence(buildMetaEvidence({ title: 'Nerwo', description: 'No terms' }).metaEvidence)).to.be.empty;
+  });
+
+  it('reports every schema error', async () => {
+    const { metaEvidence } = buildMetaEvidence({ title: 'Nerwo', description: 'Freelance agreement', terms });
+
+    expect(validateMetaEvidence('metaevidence')).to.deep.equal(['not a JSON object']);
+    expect(validateMetaEvidence({})).to.deep.equal([
+      'title: expected a non empty string',
+      'description: expected a non empty string',
+      'question: expected a non empty string',
+      'category: expected a non empty string',
+      'rulingOptions: missing'
+    ]);
+    expect(validateMetaEvidence({
+      ...metaEvidence,
+      rulingOptions: { type: 'multiple-select', titles: ['Refund the client', 'Pay the freelancer', 'Other'], descriptions: ['', ''] },
+      fileHash: '0x1234'
+    })).to.deep.equal([
+      'rulingOptions.type: expected single-select, got multiple-select',
+      'rulingOptions.titles: expected 2 non empty strings, client then freelancer',
+      'rulingOptions.descriptions: expected 2 non empty strings, client then freelancer',
+      'fileHash: expected a 32 bytes hex string'
+    ]);
+    expect(validateMetaEvidence(metaEvidence, toUtf8Bytes('other terms'))).to.deep.equal(['fileHash: does not match the file']);
+  });
+});
@@ -0,0 +1,165 @@
+import { expect } from 'chai';
+import { deployments, ethers } from 'hardhat';
+import { time } from '@nomicfoundation/hardhat-network-helpers';
+import { ContractTransactionReceipt } from 'ethers';
+import { SignerWithAddress } from '@nomicfoundation/hardhat-ethers/signers';
+
+import { NerwoCentralizedArbitrator, NerwoEscrow, NerwoTetherToken } from '../../typechain-types';
+import {
+  EscrowClient, InvalidAmountError, InvalidStatusError, MIN_AMOUNT, Outcome, Payout, Ruling, Status, previewPayout
+} from '../../sdk';
+
+import * as constants from '../../constants';
+import { getContracts, getSigners, sfc32 } from '../utils';
+
+const SCENARIOS = ['pay', 'reimburse', 'client timeout', 'freelancer timeout', 'split', 'client wins', 'freelancer wins'];
+const RUNS = 3;
+
+describe('SDK: payout', function () {
+  before(async () => {
+    await deployments.fixture(['NerwoEscrow', 'NerwoTetherToken'], {
+      keepExistingDeployments: true
+    });
+  });
+
+  const rand = sfc32(0xdeadbeef, 0x8badf00d, 0xfeedface, 0xc0ffee);
+  const randomBigInt = (max: bigint) => BigInt(Math.floor(rand() * Number.MAX_SAFE_INTEGER)) % max;
+
+  let escrow: NerwoEscrow;
+  let proxy: NerwoCentralizedArbitrator;
+  let usdt: NerwoTetherToken;
+
+  let deployer: SignerWithAddress;
+  let platform: SignerWithAddress;
+  let court: SignerWithAddress;
+  let client: SignerWithAddress;
+  let freelancer: SignerWithAddress;
+
+  let asClient: EscrowClient;
+  let asFreelancer: EscrowClient;
+
+  let feeRecipientBasisPoint: bigint;
+  let arbitrationPrice: bigint;
+
+  beforeEach(async () => {
+    ({ escrow, proxy, usdt } = await getContracts());
+    ({ deployer, platform, court, client, freelancer } = await getSigners());
+    asClient = new EscrowClient(escrow.connect(client));
+    asFreelancer = new EscrowClient(escrow.connect(freelancer));
+    ({ feeRecipientBasisPoint } = await escrow.feeRecipientData());
+    arbitrationPrice = await proxy.arbitrationCost('0x');
+  });
+
+  afterEach(async () => {
+    await escrow.connect(platform).setFeeRecipientAndBasisPoint(platform.address, feeRecipientBasisPoint);
+    await proxy.connect(court).setArbitrationPrice(arbitrationPrice);
+  });
+
+  async function balances() {
+    return {
+      client: await usdt.balanceOf(client),
+      freelancer: await usdt.balanceOf(freelancer),
+      feeRecipient: await usdt.balanceOf(platform),
+      escrow: await usdt.balanceOf(escrow),
+      clientEther: await ethers.provider.getBalance(client),
+      freelancerEther: await ethers.provider.getBalance(freelancer)
+    };
+  }
+
+  // run the scenario up to the last call, which is returned to be executed by the caller
+  async function prepare(scenario: string, transactionID: bigint): Promise<[Outcome, () => Promise<unknown>]> {
+    switch (scenario) {
+      case 'pay':
+        return ['pay', () => asClient.pay(transactionID)];
+      case 'reimburse':
+        return ['reimburse', () => asFreelancer.reimburse(transactionID)];
+      case 'client timeout':
+        await asClient.payArbitrationFee(transactionID);
+        await time.increase(constants.FEE_TIMEOUT);
+        return ['timeout', () => asClient.timeOut(transactionID)];
+      case 'freelancer timeout':
+        await asFreelancer.payArbitrationFee(transactionID);
+        await time.increase(constants.FEE_TIMEOUT);
+        return ['timeout', () => asFreelancer.timeOut(transactionID)];
+    }
+
+    const ruling = { 'split': Ruling.SplitAmount, 'client wins': Ruling.ClientWins }[scenario] ?? Ruling.FreelancerWins;
+
+    await asClient.payArbitrationFee(transactionID);
+    await asFreelancer.payArbitrationFee(transactionID);
+    const { disputeID } = await escrow.getTransaction(transactionID);
+    await proxy.connect(court).giveRuling(disputeID, ruling);
+
+    // anyone can accept a ruling, so no gas is charged to the parties
+    return [ruling, async () => (await escrow.connect(deployer).acceptRuling(transactionID)).wait()];
+  }
+
+  for (const scenario of SCENARIOS) {
+    it(`matches the contract on ${scenario}`, async () => {
+      for (let run = 0; run < RUNS; run++) {
+        const basisPoint = randomBigInt(BigInt(constants.MAX_FEE_BASISPOINT) + 1n);
+        // from the minimum up to 10^18 to cover both rounding and realistic amounts
+        const amount = MIN_AMOUNT + randomBigInt(10n ** BigInt(4 + Math.floor(rand() * 14)));
+
+        await escrow.connect(platform).setFeeRecipientAndBasisPoint(platform.address, basisPoint);
+        await proxy.connect(court).setArbitrationPrice(arbitrationPrice + randomBigInt(1000n));
+
+        await usdt.connect(client).mint(amount);
+        const transactionID = await asClient.createTransaction({
+          token: await usdt.getAddress(), amount, freelancer: freelancer.address
+        });
+
+        const [outcome, close] = await prepare(scenario, transactionID);
+        const expected = await asClient.previewPayout(transactionID, outcome);
+
+        const before = await balances();
+        const receipt = await close() as ContractTransactionReceipt;
+        const after = await balances();
+
+        const gas = receipt.gasUsed * receipt.gasPrice;
+        const clientGas = receipt.from === client.address ? gas : 0n;
+        const freelancerGas = receipt.from === freelancer.address ? gas : 0n;
+
+        const actual: Payout = {
+          client: after.client - before.client,
+          freelancer: after.freelancer - before.freelancer,
+          feeRecipient: after.feeRecipient - before.feeRecipient,
+          burnt: amount - (before.escrow - after.escrow),
+          clientArbitrationFee: after.clientEther - before.clientEther + clientGas,
+          freelancerArbitrationFee: after.freelancerEther - before.freelancerEther + freelancerGas
+        };
+
+        expect(actual, `${scenario} amount=${amount} basisPoint=${basisPoint}`).to.deep.equal(expected);
+        expect(expected.client + expected.freelancer + expected.feeRecipient + expected.burnt).to.be.equal(amount);
+      }
+    });
+  }
+
+  it('rejects outcomes the contract would revert', () => {
+    const transaction = { status: Status.NoDispute, amount: MIN_AMOUNT, clientFee: 0n, freelancerFee: 0n };
+
+    expect(() => previewPayout(transaction, 550, 'timeout')).to.throw(InvalidStatusError);
+    expect(() => previewPayout(transaction, 550, Ruling.ClientWins)).to.throw(InvalidStatusError);
+    expect(() => previewPayout({ ...transaction, status: Status.Resolved }, 550, 'pay')).to.throw(InvalidStatusError);
+    expect(() => previewPayout({ ...transaction, amount: 0n }, 550, 'reimburse')).to.throw(InvalidAmountError);
+    expect(() => previewPayout({ ...transaction, amount: 3n * MIN_AMOUNT }, 550, 'pay', 2n * MIN_AMOUNT + 1n))
+      .to.throw(InvalidAmountError);
+  });
+
+  it('previews partial amounts', async () => {
+    const amount = 3n * MIN_AMOUNT;
+    await usdt.connect(client).mint(amount);
+    const transactionID = await asClient.createTransaction({
+      token: await usdt.getAddress(), amount, freelancer: freelancer.address
+    });
+
+    const { freelancer: paid, feeRecipient } = await asClient.previewPayout(transactionID, 'pay', MIN_AMOUNT);
+    expect(paid + feeRecipient).to.be.equal(MIN_AMOUNT);
+
+    const balance = await usdt.balanceOf(freelancer);
+    await asClient.pay(transactionID, MIN_AMOUNT);
+    expect(await usdt.balanceOf(freelancer)).to.be.equal(balance + paid);
+
+    expect((await asClient.previewPayout(transactionID, 'reimburse')).client).to.be.equal(2n * MIN_AMOUNT);
+  });
+});
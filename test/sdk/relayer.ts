@@ -0,0 +1,137 @@
+import { expect } from 'chai';
+import { deployments, ethers } from 'hardhat';
+import { time } from '@nomicfoundation/hardhat-network-helpers';
+import { SignerWithAddress } from '@nomicfoundation/hardhat-ethers/signers';
+
+import { NerwoCentralizedArbitrator, NerwoEscrow, NerwoForwarder, NerwoTetherToken } from '../../typechain-types';
+import { InvalidCallerError, Relayer, Status, signForwardRequest } from '../../sdk';
+
+import * as constants from '../../constants';
+import { createTransaction, getContract, getContracts, getSigners, randomAmount } from '../utils';
+
+describe('SDK: Relayer', function () {
+  before(async () => {
+    await deployments.fixture(['NerwoEscrow', 'NerwoTetherToken'], {
+      keepExistingDeployments: true
+    });
+  });
+
+  let escrow: NerwoEscrow;
+  let proxy: NerwoCentralizedArbitrator;
+  let usdt: NerwoTetherToken;
+  let forwarder: NerwoForwarder;
+
+  let court: SignerWithAddress;
+  let client: SignerWithAddress;
+  let freelancer: SignerWithAddress;
+  let relayer: Relayer;
+
+  beforeEach(async () => {
+    ({ escrow, proxy, usdt } = await getContracts());
+    ({ court, client, freelancer } = await getSigners());
+    forwarder = await getContract('NerwoForwarder');
+    // the relayer pays the gas, a fresh account with ether only
+    const [relayerSigner] = (await ethers.getSigners()).slice(-1);
+    relayer = new Relayer(forwarder.connect(relayerSigner), escrow);
+  });
+
+  async function relay(signer: SignerWithAddress, data: string, value = 0n) {
+    const request = await signForwardRequest(signer, forwarder, await escrow.getAddress(), data, { value });
+    return relayer.relay(request);
+  }
+
+  it('trusts the forwarder', async () => {
+    expect(await escrow.trustedForwarder()).to.be.equal(await forwarder.getAddress());
+  });
+
+  it('relays a reimburse signed by a freelancer without ether', async () => {
+    const amount = await randomAmount();
+    const transactionID = await createTransaction(client, freelancer.address, usdt, amount);
+
+    const balance = await ethers.provider.getBalance(freelancer.address);
+    const data = escrow.interface.encodeFunctionData('reimburse', [transactionID, amount]);
+
+    await expect(relay(client, data)).to.be.rejectedWith(InvalidCallerError);
+
+    const receipt = await relay(freelancer, data);
+    await expect(receipt).to.emit(escrow, 'Reimburse')
+      .withArgs(transactionID, freelancer.address, client.address, await usdt.getAddress(), amount);
+
+    expect(await ethers.provider.getBalance(freelancer.address)).to.be.equal(balance);
+    expect((await escrow.getTransaction(transactionID)).amount).to.be.equal(0n);
+  });
+
+  it('relays a dispute up to the ruling, the relayer pays the arbitration fee', async () => {
+    const amount = await randomAmount();
+    const transactionID = await createTransaction(client, freelancer.address, usdt, amount);
+    const arbitrationCost = await escrow.getArbitrationCost();
+
+    await escrow.connect(client).payArbitrationFee(transactionID, { value: arbitrationCost });
+    await relay(freelancer, escrow.interface.encodeFunctionData('payArbitrationFee', [transactionID]), arbitrationCost);
+
+    const { status, disputeID, freelancerFee } = await escrow.getTransaction(transactionID);
+    expect(status).to.be.equal(Status.DisputeCreated);
+    expect(freelancerFee).to.be.equal(arbitrationCost);
+
+    await proxy.connect(court).giveRuling(disputeID, constants.Ruling.FreelancerWins);
+
+    const feeAmount = await escrow.calculateFeeRecipientAmount(amount);
+    const balance = await usdt.balanceOf(freelancer.address);
+    const receipt = await relay(freelancer, escrow.interface.encodeFunctionData('acceptRuling', [transactionID]));
+
+    await expect(receipt).to.emit(escrow, 'FeeRecipientPayment');
+    expect(await usdt.balanceOf(freelancer.address)).to.be.equal(balance + amount - feeAmount);
+    expect((await escrow.getTransaction(transactionID)).status).to.be.equal(Status.Resolved);
+  });
+
+  it('simulates the request from the relayer, the forwarder holds no ether', async () => {
+    const amount = await randomAmount();
+    const transactionID = await createTransaction(client, freelancer.address, usdt, amount);
+    const arbitrationCost = await escrow.getArbitrationCost();
+    const forwarderAddress = await forwarder.getAddress();
+
+    // like real nodes, refuse calls spending more ether than the sender holds
+    const call = ethers.provider.call.bind(ethers.provider);
+    ethers.provider.call = async (tx) => {
+      if (tx.from && (await ethers.resolveAddress(tx.from)) === forwarderAddress && BigInt(tx.value ?? 0n) > 0n) {
+        throw new Error('insufficient funds for gas * price + value');
+      }
+      return call(tx);
+    };
+
+    try {
+      await relay(freelancer, escrow.interface.encodeFunctionData('payArbitrationFee', [transactionID]), arbitrationCost);
+    } finally {
+      ethers.provider.call = call;
+    }
+
+    expect((await escrow.getTransaction(transactionID)).freelancerFee).to.be.equal(arbitrationCost);
+  });
+
+  it('rejects replayed, expired and foreign requests', async () => {
+    const amount = await randomAmount();
+    const transactionID = await createTransaction(client, freelancer.address, usdt, amount);
+    const data = escrow.interface.encodeFunctionData('pay', [transactionID, amount / 2n]);
+
+    const request = await signForwardRequest(client, forwarder, await escrow.getAddress(), data);
+    await relayer.relay(request);
+    await expect(relayer.relay(request)).to.be.rejectedWith('Invalid forward request');
+
+    const expired = await signForwardRequest(client, forwarder, await escrow.getAddress(), data, { validity: 10 });
+    await time.increase(60);
+    await expect(relayer.relay(expired)).to.be.rejectedWith('Invalid forward request');
+
+    const foreign = await signForwardRequest(client, forwarder, await usdt.getAddress(),
+      usdt.interface.encodeFunctionData('approve', [freelancer.address, amount]));
+    await expect(relayer.relay(foreign)).to.be.rejectedWith('Refusing to relay');
+  });
+
+  it('still checks the caller of direct calls', async () => {
+    const amount = await randomAmount();
+    const transactionID = await createTransaction(client, freelancer.address, usdt, amount);
+
+    await expect(escrow.connect(freelancer).pay(transactionID, amount))
+      .to.be.revertedWithCustomError(escrow, 'InvalidCaller');
+    await expect(escrow.connect(client).pay(transactionID, amount)).to.emit(escrow, 'Payment');
+  });
+});
@@ -0,0 +1,137 @@
+import { expect } from 'chai';
+import { deployments, ethers } from 'hardhat';
+import { time } from '@nomicfoundation/hardhat-network-helpers';
+import { formatUnits } from 'ethers';
+
+import { NativeToken, buildReport, findBlock, reportRows, reportToCSV } from '../../sdk';
+
+import * as constants from '../../constants';
+import {
+  Actor, createDispute, createNativeTransaction, createTransaction, getContracts, getSigners, randomAmount
+} from '../utils';
+
+describe('SDK: report', function () {
+  before(async () => {
+    await deployments.fixture(['NerwoEscrow', 'NerwoTetherToken'], {
+      keepExistingDeployments: true
+    });
+  });
+
+  const actor = new Actor();
+
+  it('aggregates fees, volumes and rulings per token', async () => {
+    const { escrow, proxy, usdt } = await getContracts();
+    const { court, client, freelancer } = await getSigners();
+    const fee = (amount: bigint) => escrow.calculateFeeRecipientAmount(amount);
+
+    const fromBlock = await ethers.provider.getBlockNumber() + 1;
+
+    // usdt: paid, reimbursed and won by the freelancer
+    const paidAmount = await randomAmount();
+    const paid = await createTransaction(client, freelancer.address, usdt, paidAmount);
+    await escrow.connect(client).pay(paid, paidAmount);
+
+    const reimbursedAmount = await randomAmount();
+    const reimbursed = await createTransaction(client, freelancer.address, usdt, reimbursedAmount);
+    await escrow.connect(freelancer).reimburse(reimbursed, reimbursedAmount);
+
+    const won = await createDispute(actor, usdt);
+    await proxy.connect(court).giveRuling(won.disputeID, constants.Ruling.FreelancerWins);
+    await escrow.acceptRuling(won.transactionID);
+
+    // native: split, won by the client and timed out
+    const split = await createDispute(actor);
+    await proxy.connect(court).giveRuling(split.disputeID, constants.Ruling.SplitAmount);
+    await escrow.acceptRuling(split.transactionID);
+
+    const lost = await createDispute(actor);
+    await proxy.connect(court).giveRuling(lost.disputeID, constants.Ruling.ClientWins);
+    await escrow.acceptRuling(lost.transactionID);
+
+    const timedOutAmount = await randomAmount();
+    const timedOut = await createNativeTransaction(client, freelancer.address, timedOutAmount);
+    await escrow.connect(client).payArbitrationFee(timedOut, { value: await escrow.getArbitrationCost() });
+    await time.increase(constants.FEE_TIMEOUT);
+    await escrow.connect(client).timeOut(timedOut);
+
+    const open = await createDispute(actor);
+
+    const toBlock = await ethers.provider.getBlockNumber();
+    const report = await buildReport(escrow, { fromBlock, toBlock, chunkSize: 10 });
+
+    const half = split.amount / 2n;
+    expect(report.tokens).to.deep.equal([
+      {
+        token: NativeToken, symbol: 'ETH', decimals: 18,
+        transactions: 4,
+        volume: split.amount + lost.amount + timedOutAmount + open.amount,
+        paid: half - await fee(half),
+        fees: await fee(half),
+        refunds: half + lost.amount + timedOutAmount,
+        disputes: 3, split: 1, clientWins: 1, freelancerWins: 0, timeouts: 1
+      },
+      {
+        token: await usdt.getAddress(), symbol: 'USDT.n', decimals: 6,
+        transactions: 3,
+        volume: paidAmount + reimbursedAmount + won.amount,
+        paid: paidAmount - await fee(paidAmount) + won.amount - await fee(won.amount),
+        fees: await fee(paidAmount) + await fee(won.amount),
+        refunds: reimbursedAmount,
+        disputes: 1, split: 0, clientWins: 0, freelancerWins: 1, timeouts: 0
+      }
+    ]);
+
+    const [, usdtRow] = reportRows(report);
+    expect(usdtRow.volume).to.be.equal(formatUnits(paidAmount + reimbursedAmount + won.amount, 6));
+    expect(reportToCSV(report).split('\n')[0])
+      .to.be.equal('token,symbol,decimals,transactions,volume,paid,fees,refunds,disputes,split,clientWins,freelancerWins,timeouts');
+
+    // only the dispute of the open transaction was created in the last block
+    const last = await buildReport(escrow, { fromBlock: toBlock, toBlock });
+    expect(last.tokens.map(({ disputes, split, clientWins, freelancerWins, timeouts }) =>
+      disputes + split + clientWins + freelancerWins + timeouts)).to.deep.equal([1]);
+  });
+
+  it('reads the historical state of the transactions with a fee paid only', async () => {
+    const { escrow } = await getContracts();
+    const { client, freelancer } = await getSigners();
+
+    const fromBlock = await ethers.provider.getBlockNumber() + 1;
+    const amount = await randomAmount();
+    const transactionID = await createNativeTransaction(client, freelancer.address, amount);
+    await escrow.connect(client).pay(transactionID, amount);
+    const toBlock = await ethers.provider.getBlockNumber();
+
+    // like a pruned node, refuse calls on past blocks
+    const call = ethers.provider.call.bind(ethers.provider);
+    ethers.provider.call = async (tx) => {
+      if (typeof tx.blockTag === 'number' && tx.blockTag < toBlock) {
+        throw new Error('missing trie node');
+      }
+      return call(tx);
+    };
+
+    try {
+      const report = await buildReport(escrow, { fromBlock, toBlock, sinceBlock: fromBlock });
+      expect(report.tokens[0]).to.include({ transactions: 1, volume: amount });
+
+      const disputed = await createNativeTransaction(client, freelancer.address, amount);
+      await escrow.connect(client).payArbitrationFee(disputed, { value: await escrow.getArbitrationCost() });
+
+      const head = await ethers.provider.getBlockNumber();
+      await expect(buildReport(escrow, { fromBlock, toBlock: head, sinceBlock: fromBlock }))
+        .to.be.rejectedWith(`Cannot read the escrow state at block ${fromBlock - 1}: missing trie node`);
+    } finally {
+      ethers.provider.call = call;
+    }
+  });
+
+  it('findBlock', async () => {
+    const blockNumber = await ethers.provider.getBlockNumber();
+    const { timestamp } = (await ethers.provider.getBlock(blockNumber))!;
+
+    expect(await findBlock(ethers.provider, timestamp)).to.be.equal(blockNumber);
+    expect(await findBlock(ethers.provider, timestamp + 1)).to.be.equal(blockNumber + 1);
+    expect(await findBlock(ethers.provider, 0)).to.be.equal(0);
+  });
+});
@@ -0,0 +1,85 @@
+import { expect } from 'chai';
+import { promises as fs } from 'node:fs';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import hre, { deployments } from 'hardhat';
+
+import { ConfigError } from '../config';
+import { SEED_STATES, SeedManifest, loadSeedConfig, seedEscrows, seedStatus } from '../seed';
+import seed from '../deploy-test/004_seed_escrows';
+import { NativeToken, Status } from '../sdk';
+
+import * as constants from '../constants';
+import { getContracts, getSigners } from './utils';
+
+describe('Seed: escrows', function () {
+  before(async () => {
+    await deployments.fixture(['NerwoEscrow', 'NerwoTetherToken'], {
+      keepExistingDeployments: true
+    });
+  });
+
+  const manifest = join(tmpdir(), `nerwo-seed-${process.pid}.json`);
+
+  after(async () => {
+    await fs.rm(manifest, { force: true });
+  });
+
+  it('loadSeedConfig', () => {
+    expect(loadSeedConfig('hardhat', {})).to.be.undefined;
+    expect(loadSeedConfig('hardhat', { NERWO_SEED_COUNT: '2', NERWO_SEED_TOKENS: 'usdt' })).to.deep.equal({
+      count: 2, states: [...SEED_STATES], tokens: ['usdt'], manifest: undefined
+    });
+    expect(() => loadSeedConfig('hardhat', { NERWO_SEED_COUNT: '0', NERWO_SEED_STATES: 'NoDispute,Paid' }))
+      .to.throw(ConfigError, /NERWO_SEED_COUNT: 0 is not a positive integer\n.*NERWO_SEED_STATES: Paid is not one of/);
+  });
+
+  it('creates an escrow for every state, token and ruling', async () => {
+    const { escrow, usdt } = await getContracts();
+    const { client, freelancer } = await getSigners();
+
+    const { transactions } = await seedEscrows(hre, { count: 1, states: [...SEED_STATES], tokens: ['native', 'usdt'] });
+    expect(transactions).to.have.lengthOf(2 * SEED_STATES.length);
+
+    for (const { transactionID, state, token, amount } of transactions) {
+      const transaction = await escrow.getTransaction(transactionID);
+      expect(transaction.status).to.be.equal(seedStatus(state), state);
+      expect(transaction.client).to.be.equal(client.address);
+      expect(transaction.freelancer).to.be.equal(freelancer.address);
+      expect(transaction.token).to.be.equal(token);
+      // resolved ones are paid out
+      expect(transaction.amount).to.be.equal(seedStatus(state) === Status.Resolved ? 0n : BigInt(amount));
+    }
+
+    expect(transactions.map(({ token }) => token)).to.include.members([NativeToken, await usdt.getAddress()]);
+    const rulings = transactions.filter(({ state }) => seedStatus(state) === Status.Resolved)
+      .map(async ({ transactionID }) => Number((await escrow.getTransaction(transactionID)).ruling));
+    expect(await Promise.all(rulings)).to.deep.equal([
+      constants.Ruling.SplitAmount, constants.Ruling.ClientWins, constants.Ruling.FreelancerWins,
+      constants.Ruling.SplitAmount, constants.Ruling.ClientWins, constants.Ruling.FreelancerWins
+    ]);
+  });
+
+  it('deploy script writes the manifest', async () => {
+    process.env.NERWO_SEED_COUNT = '2';
+    process.env.NERWO_SEED_STATES = 'WaitingClient';
+    process.env.NERWO_SEED_TOKENS = 'native';
+    process.env.NERWO_SEED_MANIFEST = manifest;
+    try {
+      expect(await seed.skip!(hre)).to.be.equal(false);
+      expect(await seed(hre)).to.be.equal(true);
+    } finally {
+      delete process.env.NERWO_SEED_COUNT;
+      delete process.env.NERWO_SEED_STATES;
+      delete process.env.NERWO_SEED_TOKENS;
+      delete process.env.NERWO_SEED_MANIFEST;
+    }
+    expect(await seed.skip!(hre)).to.be.equal(true);
+
+    const { network, escrow, transactions }: SeedManifest = JSON.parse(await fs.readFile(manifest, 'utf8'));
+    expect(network).to.be.equal('hardhat');
+    expect(escrow).to.be.equal(await (await getContracts()).escrow.getAddress());
+    expect(transactions.map(({ state, amount }) => [state, amount]))
+      .to.deep.equal([['WaitingClient', '10000000000000000'], ['WaitingClient', '20000000000000000']]);
+  });
+});
@@ -0,0 +1,108 @@
+import { expect } from 'chai';
+import hre, { deployments } from 'hardhat';
+
+import {
+  StorageItem, StorageLayout, StorageLayoutError, checkUpgrade, compareStorageLayouts, getStorageLayout
+} from '../storage';
+
+describe('Storage: compareStorageLayouts', function () {
+  let layout: StorageLayout;
+
+  before(async () => {
+    layout = await getStorageLayout(hre, 'NerwoEscrow');
+  });
+
+  // a deep copy to change, the type ids differ between compilations
+  const copy = (): StorageLayout => JSON.parse(JSON.stringify(layout).replace(/\)\d+/g, ')0'));
+  const variable = (from: StorageLayout, label: string) => from.storage.find((item) => item.label === label)!;
+  const structOf = (from: StorageLayout, label: string) => Object.values(from.types!)
+    .find((type) => type.label === `struct NerwoEscrow.${label}`)!;
+
+  const shift = (items: StorageItem[], from: number) => {
+    for (const item of items.slice(from)) {
+      item.slot = String(Number(item.slot) + 1);
+    }
+  };
+
+  it('accepts the same layout and appended variables', () => {
+    expect(compareStorageLayouts(layout, copy())).to.deep.equal([]);
+
+    const next = copy();
+    const last = next.storage[next.storage.length - 1];
+    next.storage.push({ ...last, label: 'appended', slot: String(Number(last.slot) + 1), type: 't_uint256' });
+    expect(compareStorageLayouts(layout, next)).to.deep.equal([]);
+  });
+
+  it('rejects removed, inserted and renamed variables', () => {
+    const removed = copy();
+    const index = removed.storage.findIndex((item) => item.label === 'tokens');
+    removed.storage.splice(index, 1);
+    expect(compareStorageLayouts(layout, removed)).to.deep.equal(['tokens: removed or moved from slot 3 offset 0']);
+
+    const inserted = copy();
+    inserted.storage.splice(index, 0, { ...variable(inserted, 'tokens'), label: 'inserted', type: 't_uint256' });
+    shift(inserted.storage, index + 1);
+    expect(compareStorageLayouts(layout, inserted)[0]).to.be.equal('tokens: replaced by inserted in slot 3 offset 0');
+
+    const renamed = copy();
+    variable(renamed, 'lastTransaction').label = 'transactionCount';
+    expect(compareStorageLayouts(layout, renamed))
+      .to.deep.equal(['lastTransaction: replaced by transactionCount in slot 2 offset 0']);
+  });
+
+  it('rejects retyped variables and struct members', () => {
+    const next = copy();
+    variable(next, 'lastTransaction').type = 't_uint32';
+    structOf(next, 'FeeRecipientData').members![1].type = 't_uint32';
+    expect(compareStorageLayouts(layout, next)).to.deep.equal([
+      'lastTransaction: uint256 changed to uint32',
+      'feeRecipientData.feeRecipientBasisPoint: uint16 changed to uint32'
+    ]);
+  });
+
+  it('lets only structs stored by mappings grow', () => {
+    const grow = (next: StorageLayout, label: string) => {
+      const struct = structOf(next, label);
+      const last = struct.members![struct.members!.length - 1];
+      const slot = String(Number(last.slot) + 1);
+      struct.members!.push({ ...last, label: 'appended', slot, offset: 0, type: 't_uint256' });
+      struct.numberOfBytes = String(Number(struct.numberOfBytes) + 32);
+    };
+
+    const mapped = copy();
+    grow(mapped, 'Transaction');
+    expect(compareStorageLayouts(layout, mapped)).to.deep.equal([]);
+
+    // arbitratorData is followed by feeRecipientData
+    const inplace = copy();
+    grow(inplace, 'ArbitratorData');
+    shift(inplace.storage, inplace.storage.findIndex((item) => item.label === 'feeRecipientData'));
+    expect(compareStorageLayouts(layout, inplace)).to.include('feeRecipientData: removed or moved from slot 8 offset 0');
+  });
+
+  it('checkUpgrade', async () => {
+    // only deployments saved to disk record the storage layout
+    const save = (storageLayout?: StorageLayout) => deployments.save('NerwoEscrow_Implementation', {
+      abi: [], address: hre.ethers.ZeroAddress, storageLayout
+    });
+
+    try {
+      expect(await checkUpgrade(hre, 'NerwoEscrow')).to.be.undefined;
+
+      await save();
+      await expect(checkUpgrade(hre, 'NerwoEscrow')).to.be.rejectedWith('has no recorded storage layout');
+
+      const previous = copy();
+      variable(previous, 'tokens').label = 'whitelist';
+      await save(previous);
+      await expect(checkUpgrade(hre, 'NerwoEscrow')).to.be.rejectedWith(StorageLayoutError, 'whitelist: replaced by tokens');
+
+      await save(layout);
+      expect(await checkUpgrade(hre, 'NerwoEscrow')).to.be.equal(hre.ethers.ZeroAddress);
+      // the UUPS implementation keeps the escrow layout
+      expect(await checkUpgrade(hre, 'NerwoEscrow', 'NerwoEscrowUUPS')).to.be.equal(hre.ethers.ZeroAddress);
+    } finally {
+      await deployments.delete('NerwoEscrow_Implementation');
+    }
+  });
+});
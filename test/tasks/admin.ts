@@ -0,0 +1,153 @@
+import { expect } from 'chai';
+import { promises as fs } from 'node:fs';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { deployments, run } from 'hardhat';
+import { formatEther, parseEther, Wallet, ZeroAddress } from 'ethers';
+import { SignerWithAddress } from '@nomicfoundation/hardhat-ethers/signers';
+
+import { NerwoCentralizedArbitrator, NerwoEscrow, NerwoTetherToken } from '../../typechain-types';
+import { buildMetaEvidence } from '../../sdk';
+import { getContracts, getSigners } from '../utils';
+
+describe('Tasks: admin', function () {
+  before(async () => {
+    await deployments.fixture(['NerwoEscrow', 'NerwoTetherToken'], {
+      keepExistingDeployments: true
+    });
+  });
+
+  let escrow: NerwoEscrow;
+  let proxy: NerwoCentralizedArbitrator;
+  let usdt: NerwoTetherToken;
+
+  let platform: SignerWithAddress;
+
+  const document = join(tmpdir(), `nerwo-metaevidence-${process.pid}.json`);
+
+  after(async () => {
+    await fs.rm(document, { force: true });
+  });
+
+  beforeEach(async () => {
+    ({ escrow, proxy, usdt } = await getContracts());
+    ({ platform } = await getSigners());
+  });
+
+  it('nerwo:set-fee-recipient', async () => {
+    const { feeRecipientBasisPoint } = await escrow.feeRecipientData();
+
+    await run('nerwo:set-fee-recipient', { recipient: platform.address, basisPoint: 100, dryRun: true });
+    expect((await escrow.feeRecipientData()).feeRecipientBasisPoint).to.be.equal(feeRecipientBasisPoint);
+
+    await run('nerwo:set-fee-recipient', { recipient: platform.address, basisPoint: 100 });
+    expect((await escrow.feeRecipientData()).feeRecipientBasisPoint).to.be.equal(100);
+
+    await run('nerwo:set-fee-recipient', { recipient: platform.address, basisPoint: Number(feeRecipientBasisPoint) });
+
+    await expect(run('nerwo:set-fee-recipient', { recipient: platform.address, basisPoint: 2001 }))
+      .to.be.rejectedWith('basisPoint: 2001 is not in range 0-2000');
+
+    await expect(run('nerwo:set-fee-recipient', { recipient: '0x1234', basisPoint: 100 }))
+      .to.be.rejectedWith('recipient: invalid address');
+  });
+
+  it('nerwo:change-whitelist', async () => {
+    const token = await usdt.getAddress();
+
+    await run('nerwo:change-whitelist', { tokens: [token], remove: true });
+    expect(await escrow.tokens(token)).to.be.equal(false);
+
+    await run('nerwo:change-whitelist', { tokens: [token] });
+    expect(await escrow.tokens(token)).to.be.equal(true);
+
+    await expect(run('nerwo:change-whitelist', { tokens: [Wallet.createRandom().address] }))
+      .to.be.rejectedWith('has no bytecode');
+  });
+
+  it('nerwo:set-metaevidence-uri and nerwo:set-extra-data', async () => {
+    const { json } = buildMetaEvidence({ title: 'Nerwo', description: 'Freelance agreement' });
+    await fs.writeFile(document, json);
+
+    await run('nerwo:set-metaevidence-uri', { uri: '/ipfs/metaevidence.json', document });
+    await run('nerwo:set-extra-data', { data: '0x01' });
+
+    const { metaEvidenceURI, extraData } = await escrow.arbitratorData();
+    expect(metaEvidenceURI).to.be.equal('/ipfs/metaevidence.json');
+    expect(extraData).to.be.equal('0x01');
+
+    await expect(run('nerwo:set-extra-data', { data: 'nothex' }))
+      .to.be.rejectedWith('data: invalid hex string');
+  });
+
+  it('nerwo:set-metaevidence-uri refuses invalid documents', async () => {
+    const { metaEvidenceURI } = await escrow.arbitratorData();
+    const { metaEvidence, json, uri } = await run('nerwo:build-metaevidence',
+      { title: 'Nerwo', description: 'Freelance agreement', out: document });
+
+    await fs.writeFile(document, JSON.stringify({ ...metaEvidence, rulingOptions: { type: 'single-select' } }));
+    await expect(run('nerwo:set-metaevidence-uri', { uri: '/ipfs/metaevidence.json', document }))
+      .to.be.rejectedWith('rulingOptions.titles: expected 2 non empty strings');
+
+    await fs.writeFile(document, 'not json');
+    await expect(run('nerwo:set-metaevidence-uri', { uri: '/ipfs/metaevidence.json', document }))
+      .to.be.rejectedWith('invalid JSON');
+
+    // the content addressed URI of another document
+    await fs.writeFile(document, JSON.stringify({ ...metaEvidence, title: 'Other' }));
+    await expect(run('nerwo:set-metaevidence-uri', { uri, document }))
+      .to.be.rejectedWith('document does not match its content addressed URI');
+
+    await expect(run('nerwo:set-metaevidence-uri', { uri: 'ftp://metaevidence.json' }))
+      .to.be.rejectedWith('cannot fetch');
+
+    expect((await escrow.arbitratorData()).metaEvidenceURI).to.be.equal(metaEvidenceURI);
+
+    await fs.writeFile(document, json);
+    await run('nerwo:set-metaevidence-uri', { uri, document });
+    expect((await escrow.arbitratorData()).metaEvidenceURI).to.be.equal(uri);
+  });
+
+  it('nerwo:set-arbitration-price', async () => {
+    const previousPrice = await proxy.arbitrationCost('0x');
+
+    await run('nerwo:set-arbitration-price', { price: '0.5', dryRun: true });
+    expect(await proxy.arbitrationCost('0x')).to.be.equal(previousPrice);
+
+    await run('nerwo:set-arbitration-price', { price: '0.5' });
+    expect(await proxy.arbitrationCost('0x')).to.be.equal(parseEther('0.5'));
+
+    await run('nerwo:set-arbitration-price', { price: formatEther(previousPrice) });
+
+    await expect(run('nerwo:set-arbitration-price', { price: 'free' }))
+      .to.be.rejectedWith('price: invalid amount');
+  });
+
+  it('nerwo:set-appeal-settings', async () => {
+    await run('nerwo:set-appeal-settings', { window: 3600, appealArbitrator: platform.address });
+    expect(await proxy.appealWindow()).to.be.equal(3600);
+    expect(await proxy.appealArbitrator()).to.be.equal(platform.address);
+
+    await run('nerwo:set-appeal-settings', { window: 0 });
+    expect(await proxy.appealWindow()).to.be.equal(0);
+    expect(await proxy.appealArbitrator()).to.be.equal(ZeroAddress);
+
+    await expect(run('nerwo:set-appeal-settings', { window: -1 }))
+      .to.be.rejectedWith('window: -1 is not in range');
+    await expect(run('nerwo:set-appeal-settings', { window: 3600, appealArbitrator: '0x1234' }))
+      .to.be.rejectedWith('appealArbitrator: invalid address');
+  });
+
+  it('nerwo:transfer-ownership', async () => {
+    const { court } = await getSigners();
+
+    await run('nerwo:transfer-ownership', { contract: 'NerwoEscrow', newOwner: court.address });
+    expect(await escrow.owner()).to.be.equal(court.address);
+
+    await run('nerwo:transfer-ownership', { contract: 'NerwoEscrow', newOwner: platform.address });
+    expect(await escrow.owner()).to.be.equal(platform.address);
+
+    await expect(run('nerwo:transfer-ownership', { contract: 'NerwoTetherToken', newOwner: court.address }))
+      .to.be.rejectedWith('contract: NerwoTetherToken is not one of');
+  });
+});
@@ -0,0 +1,74 @@
+import { expect } from 'chai';
+import { deployments, ethers, run } from 'hardhat';
+import { ZeroAddress } from 'ethers';
+
+import * as constants from '../../constants';
+import { DisputeInfo, DisputeStatus } from '../../tasks/disputes';
+import { Actor, createDispute, getSigners } from '../utils';
+
+describe('Tasks: disputes', function () {
+  before(async () => {
+    await deployments.fixture(['NerwoEscrow', 'NerwoTetherToken'], {
+      keepExistingDeployments: true
+    });
+  });
+
+  const actor = new Actor();
+
+  it('list, show and rule a dispute', async () => {
+    const { escrow, proxy, client, freelancer, transactionID, disputeID, amount } = await createDispute(actor);
+    await proxy.connect(client).submitEvidence(disputeID, '/ipfs/evidence.json');
+    await escrow.connect(freelancer).submitEvidence(transactionID, '/ipfs/reply.json');
+
+    const waiting: DisputeInfo[] = await run({ scope: 'disputes', task: 'list' });
+    const listed = waiting.find((info) => info.disputeID === disputeID);
+    expect(listed?.transactionID).to.be.equal(transactionID);
+    expect(listed?.transaction?.amount).to.be.equal(amount);
+
+    const info: DisputeInfo = await run({ scope: 'disputes', task: 'show' }, { disputeID: Number(disputeID) });
+    expect(info.status).to.be.equal(DisputeStatus.Waiting);
+    expect(info.metaEvidenceURI).to.be.equal((await escrow.arbitratorData()).metaEvidenceURI);
+    expect(info.evidence).to.deep.equal([
+      { party: client.address, uri: '/ipfs/evidence.json' },
+      { party: freelancer.address, uri: '/ipfs/reply.json' }
+    ]);
+
+    await expect(run({ scope: 'disputes', task: 'rule' }, { disputeID: Number(disputeID), ruling: 'nobody' }))
+      .to.be.rejectedWith('ruling: nobody is not one of split, client, freelancer');
+
+    await run({ scope: 'disputes', task: 'rule' }, { disputeID: Number(disputeID), ruling: 'client', dryRun: true });
+    expect((await proxy.getDispute(disputeID)).status).to.be.equal(DisputeStatus.Waiting);
+
+    await run({ scope: 'disputes', task: 'rule' }, { disputeID: Number(disputeID), ruling: 'client' });
+    const dispute = await proxy.getDispute(disputeID);
+    expect(dispute.status).to.be.equal(DisputeStatus.Solved);
+    expect(dispute.ruling).to.be.equal(constants.Ruling.ClientWins);
+
+    const remaining: DisputeInfo[] = await run({ scope: 'disputes', task: 'list' });
+    expect(remaining.map((info) => info.disputeID)).to.not.include(disputeID);
+
+    await expect(run({ scope: 'disputes', task: 'rule' }, { disputeID: Number(disputeID), ruling: 'freelancer' }))
+      .to.be.rejectedWith(`Dispute ${disputeID} is Solved, cannot rule`);
+  });
+
+  it('rules an appealed dispute as the appeal arbitrator', async () => {
+    const { deployer, court, client } = await getSigners();
+    const { escrow, proxy, transactionID, disputeID } = await createDispute(actor);
+    await proxy.connect(court).setAppealSettings(3600, deployer.address);
+
+    try {
+      await run({ scope: 'disputes', task: 'rule' }, { disputeID: Number(disputeID), ruling: 'split' });
+      await escrow.connect(client).appeal(transactionID, { value: await escrow.getAppealCost(transactionID) });
+
+      const hash: string = await run({ scope: 'disputes', task: 'rule' }, { disputeID: Number(disputeID), ruling: 'client' });
+      expect((await ethers.provider.getTransaction(hash))?.from).to.be.equal(deployer.address);
+
+      const dispute = await proxy.getDispute(disputeID);
+      expect(dispute.appeals).to.be.equal(1);
+      expect(dispute.status).to.be.equal(DisputeStatus.Appealable);
+      expect(dispute.ruling).to.be.equal(constants.Ruling.ClientWins);
+    } finally {
+      await proxy.connect(court).setAppealSettings(0, ZeroAddress);
+    }
+  });
+});
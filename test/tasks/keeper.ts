@@ -0,0 +1,37 @@
+import { expect } from 'chai';
+import { deployments, run } from 'hardhat';
+
+import { KeeperResult } from '../../sdk/keeper';
+import { Status } from '../../sdk';
+
+import * as constants from '../../constants';
+import { Actor, createDispute, createTransaction, getContracts, getSigners, randomAmount } from '../utils';
+
+describe('Tasks: keeper', function () {
+  before(async () => {
+    await deployments.fixture(['NerwoEscrow', 'NerwoTetherToken'], {
+      keepExistingDeployments: true
+    });
+  });
+
+  const actor = new Actor();
+
+  it('simulates the finalization of every pending job', async () => {
+    const { escrow, proxy, court, transactionID: ruled, disputeID } = await createDispute(actor);
+    await proxy.connect(court).giveRuling(disputeID, constants.Ruling.ClientWins);
+
+    const { usdt } = await getContracts();
+    const { client, freelancer } = await getSigners();
+    const timedOut = await createTransaction(client, freelancer.address, usdt, await randomAmount());
+    await escrow.connect(client).payArbitrationFee(timedOut, { value: await escrow.getArbitrationCost() });
+
+    const results: KeeperResult[] = await run('nerwo:keeper', { simulate: true });
+    const statusOf = (action: string, transactionID: bigint) => results
+      .find((result) => result.action === action && result.transactionID === transactionID)?.status;
+    expect(statusOf('acceptRulings', ruled)).to.be.equal('done');
+    expect(statusOf('timeOuts', timedOut)).to.be.equal('done');
+
+    expect((await escrow.getTransaction(ruled)).status).to.be.equal(Status.Resolved);
+    expect((await escrow.getTransaction(timedOut)).status).to.be.equal(Status.Resolved);
+  });
+});
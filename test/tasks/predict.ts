@@ -0,0 +1,28 @@
+import { expect } from 'chai';
+import { promises as fs } from 'node:fs';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import hre, { run } from 'hardhat';
+
+import { loadConfig } from '../../config';
+import { predictAddresses } from '../../deterministic';
+
+describe('Tasks: predict', function () {
+  const out = join(tmpdir(), `nerwo-addresses-${process.pid}.json`);
+
+  after(async () => {
+    await fs.rm(out, { force: true });
+  });
+
+  it('nerwo:predict-addresses', async () => {
+    const salt = '0x6e6572776f';
+    const addresses = await run('nerwo:predict-addresses', { salt, out });
+
+    expect(addresses).to.deep.equal(
+      await predictAddresses(hre, loadConfig('hardhat', { ...process.env, NERWO_DEPLOY_SALT: salt })));
+    expect(JSON.parse(await fs.readFile(out, 'utf8'))).to.deep.equal(addresses);
+
+    await expect(run('nerwo:predict-addresses', { salt: 'nerwo' }))
+      .to.be.rejectedWith('NERWO_DEPLOY_SALT: nerwo is not a hex string of at most 32 bytes');
+  });
+});
@@ -0,0 +1,57 @@
+import { expect } from 'chai';
+import { promises as fs } from 'node:fs';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { deployments, ethers, run } from 'hardhat';
+import { formatEther } from 'ethers';
+
+import { AccountingReport, NativeToken } from '../../sdk';
+
+import { createNativeTransaction, getContracts, getSigners, randomAmount } from '../utils';
+
+describe('Tasks: report', function () {
+  before(async () => {
+    await deployments.fixture(['NerwoEscrow', 'NerwoTetherToken'], {
+      keepExistingDeployments: true
+    });
+  });
+
+  const csv = join(tmpdir(), `nerwo-report-${process.pid}.csv`);
+  const json = join(tmpdir(), `nerwo-report-${process.pid}.json`);
+
+  after(async () => {
+    await fs.rm(csv, { force: true });
+    await fs.rm(json, { force: true });
+  });
+
+  it('nerwo:report', async () => {
+    const { escrow } = await getContracts();
+    const { client, freelancer } = await getSigners();
+
+    const amount = await randomAmount();
+    const transactionID = await createNativeTransaction(client, freelancer.address, amount);
+    const { timestamp } = (await ethers.provider.getBlock('latest'))!;
+    await escrow.connect(client).pay(transactionID, amount);
+
+    const fromDate = new Date(timestamp * 1000).toISOString();
+    const report: AccountingReport = await run('nerwo:report', { fromDate, csv, json });
+    expect(report.toBlock).to.be.equal(await ethers.provider.getBlockNumber());
+    expect(report.tokens).to.have.lengthOf(1);
+    expect(report.tokens[0]).to.include({ token: NativeToken, transactions: 1, volume: amount });
+
+    const [header, row] = (await fs.readFile(csv, 'utf8')).trim().split('\n');
+    expect(header.split(',')[4]).to.be.equal('volume');
+    expect(row.split(',')[4]).to.be.equal(formatEther(amount));
+
+    const { fromBlock, tokens } = JSON.parse(await fs.readFile(json, 'utf8'));
+    expect(fromBlock).to.be.equal(report.fromBlock);
+    expect(tokens[0].volume).to.be.equal(formatEther(amount));
+
+    // the range ends before the payment
+    const before: AccountingReport = await run('nerwo:report', { fromDate, toBlock: report.toBlock - 1 });
+    expect(before.tokens[0].paid).to.be.equal(0n);
+
+    await expect(run('nerwo:report', { fromDate, fromBlock: 1 })).to.be.rejectedWith('either a block or a date');
+    await expect(run('nerwo:report', { toDate: 'september' })).to.be.rejectedWith('toDate: invalid date');
+  });
+});
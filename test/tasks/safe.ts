@@ -0,0 +1,91 @@
+import { expect } from 'chai';
+import { promises as fs } from 'node:fs';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { deployments, run } from 'hardhat';
+import { Result } from 'ethers';
+import { SignerWithAddress } from '@nomicfoundation/hardhat-ethers/signers';
+
+import {
+  NerwoCentralizedArbitrator__factory,
+  NerwoEscrow,
+  NerwoEscrow__factory,
+  NerwoTetherToken
+} from '../../typechain-types';
+import { readSafeBatch } from '../../tasks/safe';
+import { getContracts, getSigners } from '../utils';
+
+describe('Tasks: safe batch', function () {
+  before(async () => {
+    await deployments.fixture(['NerwoEscrow', 'NerwoTetherToken'], {
+      keepExistingDeployments: true
+    });
+  });
+
+  const file = join(tmpdir(), `nerwo-safe-${process.pid}.json`);
+
+  let escrow: NerwoEscrow;
+  let usdt: NerwoTetherToken;
+
+  let platform: SignerWithAddress;
+  let court: SignerWithAddress;
+
+  beforeEach(async () => {
+    ({ escrow, usdt } = await getContracts());
+    ({ platform, court } = await getSigners());
+    await fs.rm(file, { force: true });
+  });
+
+  after(async () => {
+    await fs.rm(file, { force: true });
+  });
+
+  it('appends owner operations instead of sending', async () => {
+    const token = await usdt.getAddress();
+    const { feeRecipientBasisPoint } = await escrow.feeRecipientData();
+
+    await run('nerwo:set-fee-recipient', { recipient: platform.address, basisPoint: 100, safe: file });
+    await run('nerwo:change-whitelist', { tokens: [token], remove: true, safe: file });
+    await run('nerwo:transfer-ownership', { contract: 'NerwoEscrow', newOwner: court.address, safe: file });
+
+    // nothing sent
+    expect((await escrow.feeRecipientData()).feeRecipientBasisPoint).to.be.equal(feeRecipientBasisPoint);
+    expect(await escrow.tokens(token)).to.be.equal(true);
+    expect(await escrow.owner()).to.be.equal(platform.address);
+
+    const batch = (await readSafeBatch(file))!;
+    expect(batch.version).to.be.equal('1.0');
+    expect(batch.chainId).to.be.equal('31337');
+    expect(batch.meta.createdFromSafeAddress).to.be.equal(platform.address);
+    expect(batch.transactions).to.have.lengthOf(3);
+
+    const iface = NerwoEscrow__factory.createInterface();
+    const calls = batch.transactions.map(({ to, value, data }) => {
+      expect(to).to.be.equal(escrow.target);
+      expect(value).to.be.equal('0');
+      return iface.parseTransaction({ data })!;
+    });
+
+    expect(calls.map(({ name }) => name))
+      .to.deep.equal(['setFeeRecipientAndBasisPoint', 'changeWhitelist', 'transferOwnership']);
+    expect(calls[0].args.toArray()).to.deep.equal([platform.address, 100n]);
+    expect(calls[1].args[0].toArray().map((entry: Result) => entry.toArray())).to.deep.equal([[token, false]]);
+    expect(calls[2].args[0]).to.be.equal(court.address);
+
+    expect(batch.transactions[0].description).to.contain(`feeRecipientBasisPoint: ${feeRecipientBasisPoint} -> 100`);
+    expect(batch.meta.description.split('\n')).to.have.lengthOf(3);
+  });
+
+  it('rejects operations owned by a different Safe', async () => {
+    await run('nerwo:set-arbitration-price', { price: '0.5', safe: file });
+
+    const batch = (await readSafeBatch(file))!;
+    expect(batch.meta.createdFromSafeAddress).to.be.equal(court.address);
+    const call = NerwoCentralizedArbitrator__factory.createInterface()
+      .parseTransaction({ data: batch.transactions[0].data })!;
+    expect(call.name).to.be.equal('setArbitrationPrice');
+
+    await expect(run('nerwo:set-extra-data', { data: '0x01', safe: file }))
+      .to.be.rejectedWith(`batch is for Safe ${court.address}, not ${platform.address}`);
+  });
+});
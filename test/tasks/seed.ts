@@ -0,0 +1,40 @@
+import { expect } from 'chai';
+import { promises as fs } from 'node:fs';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { deployments, run } from 'hardhat';
+
+import { SeedManifest, seedStatus } from '../../seed';
+import { NativeToken } from '../../sdk';
+
+import { getContracts } from '../utils';
+
+describe('Tasks: seed', function () {
+  before(async () => {
+    await deployments.fixture(['NerwoEscrow', 'NerwoTetherToken'], {
+      keepExistingDeployments: true
+    });
+  });
+
+  const manifest = join(tmpdir(), `nerwo-seed-task-${process.pid}.json`);
+
+  after(async () => {
+    await fs.rm(manifest, { force: true });
+  });
+
+  it('nerwo:seed', async () => {
+    const { escrow } = await getContracts();
+
+    const seeded: SeedManifest = await run('nerwo:seed', { states: 'NoDispute,ClientWins', tokens: 'native', manifest });
+    expect(seeded.transactions.map(({ state, token }) => [state, token]))
+      .to.deep.equal([['NoDispute', NativeToken], ['ClientWins', NativeToken]]);
+    expect(JSON.parse(await fs.readFile(manifest, 'utf8'))).to.deep.equal(seeded);
+
+    for (const { transactionID, state } of seeded.transactions) {
+      expect((await escrow.getTransaction(transactionID)).status).to.be.equal(seedStatus(state));
+    }
+
+    await expect(run('nerwo:seed', { count: '0', manifest }))
+      .to.be.rejectedWith('NERWO_SEED_COUNT: 0 is not a positive integer');
+  });
+});
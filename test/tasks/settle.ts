@@ -0,0 +1,31 @@
+import { expect } from 'chai';
+import { deployments, run } from 'hardhat';
+
+import { BatchResult, Status } from '../../sdk';
+
+import * as constants from '../../constants';
+import { Actor, createDispute } from '../utils';
+
+describe('Tasks: settle', function () {
+  before(async () => {
+    await deployments.fixture(['NerwoEscrow', 'NerwoTetherToken'], {
+      keepExistingDeployments: true
+    });
+  });
+
+  const actor = new Actor();
+
+  it('settles the ruled disputes', async () => {
+    const { escrow, proxy, court, transactionID, disputeID } = await createDispute(actor);
+    await proxy.connect(court).giveRuling(disputeID, constants.Ruling.FreelancerWins);
+
+    expect(await run('nerwo:settle', { dryRun: true })).to.deep.equal([]);
+    expect((await escrow.getTransaction(transactionID)).status).to.be.equal(Status.DisputeCreated);
+
+    const results: BatchResult[] = await run('nerwo:settle');
+    expect(results.find((result) => result.transactionID === transactionID)?.success).to.be.equal(true);
+    expect((await escrow.getTransaction(transactionID)).status).to.be.equal(Status.Resolved);
+
+    expect(await run('nerwo:settle')).to.deep.equal([]);
+  });
+});
@@ -0,0 +1,34 @@
+import { expect } from 'chai';
+import { promises as fs } from 'node:fs';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import hre, { run } from 'hardhat';
+
+import { getStorageLayout } from '../../storage';
+
+describe('Tasks: storage', function () {
+  const reference = join(tmpdir(), `nerwo-storage-${process.pid}.json`);
+
+  after(async () => {
+    await fs.rm(reference, { force: true });
+  });
+
+  it('nerwo:check-storage', async () => {
+    const layout = await getStorageLayout(hre, 'NerwoEscrow');
+
+    await fs.writeFile(reference, JSON.stringify({ storageLayout: layout }));
+    await run('nerwo:check-storage', { reference });
+
+    // the previous version had one more variable before lastTransaction
+    layout.storage.splice(2, 0, { ...layout.storage[2], label: 'removed' });
+    for (const item of layout.storage.slice(3)) {
+      item.slot = String(Number(item.slot) + 1);
+    }
+    await fs.writeFile(reference, JSON.stringify(layout));
+    await expect(run('nerwo:check-storage', { reference }))
+      .to.be.rejectedWith('removed: replaced by lastTransaction in slot 2 offset 0');
+
+    await expect(run('nerwo:check-storage', { contract: 'NerwoCentralizedArbitrator' }))
+      .to.be.rejectedWith('not deployed behind a proxy');
+  });
+});
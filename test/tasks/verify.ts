@@ -0,0 +1,30 @@
+import { expect } from 'chai';
+import { deployments, run } from 'hardhat';
+
+import { Check } from '../../tasks/verify';
+import { getContracts, getSigners } from '../utils';
+
+describe('Tasks: verify-deployment', function () {
+  before(async () => {
+    await deployments.fixture(['NerwoEscrow', 'NerwoTetherToken'], {
+      keepExistingDeployments: true
+    });
+  });
+
+  it('passes on a fresh deployment and reports drift', async () => {
+    const { escrow, usdt } = await getContracts();
+    const { platform, client } = await getSigners();
+
+    const checks: Check[] = await run('nerwo:verify-deployment');
+    expect(checks.every(({ ok }) => ok)).to.be.equal(true);
+    expect(checks.map(({ name }) => name)).to.include(`tokens(${await usdt.getAddress()})`);
+
+    const { feeRecipientBasisPoint } = await escrow.feeRecipientData();
+    await escrow.connect(platform).setFeeRecipientAndBasisPoint(client.address, feeRecipientBasisPoint);
+
+    await expect(run('nerwo:verify-deployment'))
+      .to.be.rejectedWith(`NerwoEscrow at ${await escrow.getAddress()}: 1 of ${checks.length} checks failed`);
+
+    await escrow.connect(platform).setFeeRecipientAndBasisPoint(platform.address, feeRecipientBasisPoint);
+  });
+});
@@ -0,0 +1,67 @@
+import { expect } from 'chai';
+import { promises as fs } from 'node:fs';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import hre, { deployments, ethers, run } from 'hardhat';
+
+import { NerwoEscrow, NerwoTetherToken } from '../../typechain-types';
+import { getWhitelist, reconcileWhitelist } from '../../tasks/whitelist';
+import { getContracts } from '../utils';
+
+describe('Tasks: reconcile-whitelist', function () {
+  before(async () => {
+    await deployments.fixture(['NerwoEscrow', 'NerwoTetherToken'], {
+      keepExistingDeployments: true
+    });
+  });
+
+  const file = join(tmpdir(), `nerwo-whitelist-${process.pid}.json`);
+
+  let escrow: NerwoEscrow;
+  let usdt: NerwoTetherToken;
+
+  beforeEach(async () => {
+    ({ escrow, usdt } = await getContracts());
+  });
+
+  after(async () => {
+    await fs.rm(file, { force: true });
+  });
+
+  it('computes the minimal batch', async () => {
+    const token = await usdt.getAddress();
+    const other = await (await ethers.deployContract('NerwoTetherToken')).getAddress();
+
+    expect(await getWhitelist(hre)).to.deep.equal([token]);
+
+    const { batch, flagged } = await reconcileWhitelist(hre, [token.toLowerCase(), other]);
+    expect(batch).to.deep.equal([{ token: other, allow: true }]);
+    expect(flagged).to.be.empty;
+
+    await fs.writeFile(file, JSON.stringify([other]));
+    await run('nerwo:reconcile-whitelist', { file });
+
+    expect(await escrow.tokens(token)).to.be.equal(false);
+    expect(await escrow.tokens(other)).to.be.equal(true);
+    expect(await getWhitelist(hre)).to.deep.equal([other]);
+
+    expect(await run('nerwo:reconcile-whitelist', { file })).to.be.undefined;
+
+    await fs.writeFile(file, JSON.stringify([token]));
+    await run('nerwo:reconcile-whitelist', { file });
+    expect(await getWhitelist(hre)).to.deep.equal([token]);
+  });
+
+  it('flags tokens without ERC20 metadata', async () => {
+    const { proxy } = await getContracts();
+    const notAToken = await proxy.getAddress();
+
+    await fs.writeFile(file, JSON.stringify([await usdt.getAddress(), notAToken]));
+    await expect(run('nerwo:reconcile-whitelist', { file }))
+      .to.be.rejectedWith('1 tokens lack ERC20 metadata, use --force to submit anyway');
+    expect(await escrow.tokens(notAToken)).to.be.equal(false);
+
+    const { flagged } = await reconcileWhitelist(hre, [notAToken]);
+    expect(flagged).to.deep.equal([notAToken]);
+  });
+});
@@ -0,0 +1,37 @@
+import { expect } from 'chai';
+import { deployments, ethers, run } from 'hardhat';
+
+import { NerwoRejectingReceiver } from '../../typechain-types';
+import { UnclaimedBalance } from '../../tasks/withdrawals';
+
+import { NativeToken, createNativeTransaction, getContracts, getSigners, randomAmount } from '../utils';
+
+describe('Tasks: withdrawals', function () {
+  before(async () => {
+    await deployments.fixture(['NerwoEscrow', 'NerwoTetherToken'], {
+      keepExistingDeployments: true
+    });
+  });
+
+  it('nerwo:unclaimed', async () => {
+    const { escrow } = await getContracts();
+    const { client } = await getSigners();
+    const wallet: NerwoRejectingReceiver = await ethers.deployContract('NerwoRejectingReceiver');
+    const recipient = await wallet.getAddress();
+
+    const amount = await randomAmount();
+    const transactionID = await createNativeTransaction(client, recipient, amount);
+    await escrow.connect(client).pay(transactionID, amount);
+    const credit = await escrow.pendingWithdrawals(recipient, NativeToken);
+
+    const find = (balances: UnclaimedBalance[]) => balances.find((balance) => balance.recipient === recipient);
+
+    expect(find(await run('nerwo:unclaimed'))).to.deep.equal(
+      { recipient, token: NativeToken, credited: credit, withdrawn: 0n, balance: credit, reconciled: true });
+
+    await wallet.setRejecting(false);
+    await wallet.execute(escrow, escrow.interface.encodeFunctionData('withdraw', [NativeToken]));
+
+    expect(find(await run('nerwo:unclaimed'))).to.be.undefined;
+  });
+});
@@ -3,7 +3,8 @@ import { deployments, ethers } from 'hardhat';
 import { BaseContract, ContractRunner, Signer, ZeroAddress } from 'ethers';
 import { anyUint } from '@nomicfoundation/hardhat-chai-matchers/withArgs';
 
-import { NerwoCentralizedArbitrator, NerwoEscrow, NerwoTetherToken } from '../typechain-types';
+import { NerwoCentralizedArbitrator, NerwoEscrow, NerwoPermit2, NerwoTetherToken } from '../typechain-types';
+import { MIN_AMOUNT, PERMIT2_ADDRESS } from '../sdk';
 
 export class Actor {
     public is_client: boolean;
@@ -98,6 +99,56 @@ export async function createNativeTransaction(
     return events.at(-1)!.args!.transactionID!;
 }
 
+export async function createMilestoneTransaction(
+    client: ContractRunner,
+    receiver_address: string,
+    token: NerwoTetherToken | null,
+    milestones: bigint[]) {
+
+    const blockNumber = await ethers.provider.getBlockNumber();
+
+    const { escrow } = await getContracts();
+    const amount = milestones.reduce((a, b) => a + b, 0n);
+
+    let tx;
+    if (token) {
+        await token.connect(client).mint(amount);
+        await token.connect(client).approve(await escrow.getAddress(), amount);
+        tx = escrow.connect(client).createMilestoneTransaction(await token.getAddress(), milestones, receiver_address);
+        await expect(tx).to.changeTokenBalances(token, [escrow, client], [amount, -amount]);
+    } else {
+        tx = escrow.connect(client).createMilestoneTransaction(ZeroAddress, milestones, receiver_address,
+            { value: amount });
+        await expect(tx).to.changeEtherBalances([escrow, client], [amount, -amount]);
+    }
+
+    await expect(tx).to.emit(escrow, 'TransactionCreated');
+
+    const events = await escrow.queryFilter(escrow.filters.TransactionCreated(), blockNumber);
+    const transactionID = events.at(-1)!.args!.transactionID!;
+    expect(await escrow.getMilestones(transactionID)).to.deep.equal(milestones);
+
+    return transactionID;
+}
+
+/**
+ * Install the Permit2 test implementation at the canonical Permit2 address.
+ */
+export async function installPermit2() {
+    const implementation = await ethers.deployContract('NerwoPermit2');
+    await ethers.provider.send('hardhat_setCode', [PERMIT2_ADDRESS, await implementation.getDeployedCode()]);
+    return await ethers.getContractAt('NerwoPermit2', PERMIT2_ADDRESS) as unknown as NerwoPermit2;
+}
+
+/**
+ * Split `amount` in `parts` partial amounts, each one at least MIN_AMOUNT.
+ */
+export function partialAmounts(amount: bigint, parts: number) {
+    const part = amount / BigInt(parts);
+    expect(part >= MIN_AMOUNT).to.be.equal(true);
+    return [...Array(parts - 1).fill(part), amount - part * BigInt(parts - 1)] as bigint[];
+}
+
 export async function createDispute(actor: Actor, usdt: NerwoTetherToken | null = null) {
     const { escrow, proxy } = await getContracts();
     const { platform, court, client, freelancer } = await getSigners();
@@ -156,7 +207,7 @@ export async function createDispute(actor: Actor, usdt: NerwoTetherToken | null
     };
 }
 
-function sfc32(a: number, b: number, c: number, d: number) {
+export function sfc32(a: number, b: number, c: number, d: number) {
     return function () {
         a >>>= 0; b >>>= 0; c >>>= 0; d >>>= 0;
         let t = (a + b) | 0;